@@ -23,12 +23,15 @@ async function main() {
         console.log('Processing audio file...');
         const audioTranscript = await openAI.processAudioFile({
             audioPath: './sample-lecture.wav',
-            chunkDuration: 1800 // 30 minutes chunks
+            chunkDuration: 600, // 10 minute chunks
+            language: 'en',
+            prompt: 'Gradient descent, backpropagation, softmax, ReLU'
         });
+        console.log(`Transcribed ${audioTranscript.segments.length} segments (${Math.round(audioTranscript.durationSeconds / 60)} minutes)`);
 
         // Generate notes from the audio transcript
         console.log('Generating notes from audio transcript...');
-        const notes = await openAI.generateFromAudio(audioTranscript);
+        const notes = await openAI.generateFromAudio(audioTranscript.text);
 
         // Format the notes
         const formattedNotes = formatLectureNotes(notes);
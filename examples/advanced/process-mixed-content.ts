@@ -1,6 +1,6 @@
-import { OpenAIService } from 'lecture-notes-sdk';
+import { OpenAIService, extractPDFPages, formatPDFPages } from 'lecture-notes-sdk';
 import dotenv from 'dotenv';
-import { readFileSync } from 'fs';
+import fs from 'fs';
 import path from 'path';
 
 dotenv.config();
@@ -16,11 +16,15 @@ async function main() {
     try {
         // Process a PDF lecture
         console.log('Processing PDF content...');
-        const pdfContent = readFileSync('./lecture-slides.pdf', 'utf-8');
+        const pdfContent = formatPDFPages(await extractPDFPages('./lecture-slides.pdf'));
         
         // Generate LaTeX notes from PDF
         console.log('Generating LaTeX notes from PDF...');
-        const latexNotes = await openAI.augmentFromPDF(pdfContent, 'latex');
+        const latexNotes = await openAI.augmentFromPDFFile({
+            pdfPath: './lecture-slides.pdf',
+            format: 'latex',
+            additionalContext: { courseTitle: 'Machine Learning', level: 'graduate' }
+        });
         console.log('\nLaTeX notes generated successfully.');
 
         // Process a YouTube lecture
@@ -0,0 +1,143 @@
+const mockCreate = jest.fn();
+const mockEmbeddingsCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        },
+        embeddings: {
+            create: mockEmbeddingsCreate
+        }
+    }))
+}));
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAIService } from '../services/openai.service';
+import { CourseIndex } from '../retrieval/course.index';
+import { HashingEmbeddingProvider, OpenAIEmbeddingProvider } from '../retrieval/embedding.providers';
+
+const lectures = [
+    {
+        id: 'lecture-01',
+        title: 'Lecture 1: Linear Regression',
+        notes: '# Least Squares\nLinear regression minimises the squared residuals.\n# Gradient Descent\nGradient descent updates weights along the negative gradient.'
+    },
+    {
+        id: 'lecture-02',
+        title: 'Lecture 2: Decision Trees',
+        transcript: 'Today we split nodes using entropy and information gain to grow decision trees.'
+    }
+];
+
+describe('CourseIndex', () => {
+    let index: CourseIndex;
+
+    beforeEach(async () => {
+        mockCreate.mockReset();
+        mockEmbeddingsCreate.mockReset();
+        index = new CourseIndex(new HashingEmbeddingProvider());
+        for (const lecture of lectures) {
+            await index.addLecture(lecture);
+        }
+    });
+
+    it('should chunk notes by section and transcripts by size', () => {
+        expect(index.size).toBe(3);
+        expect(index.lectures()).toEqual([
+            { id: 'lecture-01', title: 'Lecture 1: Linear Regression' },
+            { id: 'lecture-02', title: 'Lecture 2: Decision Trees' }
+        ]);
+    });
+
+    it('should find the lecture and section that covered a topic', async () => {
+        const [best] = await index.search('Which lecture covered information gain and entropy?', 1);
+
+        expect(best.lectureId).toBe('lecture-02');
+        expect(best.kind).toBe('transcript');
+
+        const [section] = await index.search('gradient descent weights', 1);
+        expect(section.section).toBe('Gradient Descent');
+    });
+
+    it('should replace a lecture that is added again', async () => {
+        await index.addLecture({ id: 'lecture-02', title: 'Lecture 2', transcript: 'Random forests.' });
+
+        expect(index.size).toBe(3);
+        expect(index.lectures()[1].title).toBe('Lecture 2');
+    });
+
+    it('should answer with CHAT_WITH_COURSE_PROMPT and cite the retrieved sources', async () => {
+        mockCreate.mockResolvedValueOnce({
+            choices: [{ message: { content: 'Lecture 2 covered entropy [1].' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 }
+        });
+
+        const service = new OpenAIService('test-api-key');
+        const answer = await index.ask(service, 'Which lecture covered entropy?', { topK: 2 });
+
+        expect(answer.answer).toBe('Lecture 2 covered entropy [1].');
+        expect(answer.sources).toHaveLength(2);
+        expect(answer.sources[0].lectureId).toBe('lecture-02');
+        expect(answer.usage.totalTokens).toBe(60);
+
+        const [system, user] = mockCreate.mock.calls[0][0].messages;
+        expect(system.content).toContain('[1] Lecture 2: Decision Trees — Transcript part 1');
+        expect(user.content).toBe('Question: Which lecture covered entropy?');
+    });
+
+    it('should persist the index to disk and load it back', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'course-index-'));
+        const file = path.join(dir, 'index.json');
+
+        try {
+            await index.save(file);
+            const loaded = await CourseIndex.load(file, new HashingEmbeddingProvider());
+
+            expect(loaded.size).toBe(index.size);
+            expect(await loaded.search('entropy', 1)).toEqual(await index.search('entropy', 1));
+
+            await expect(CourseIndex.load(file, new HashingEmbeddingProvider(64)))
+                .rejects
+                .toThrow('Course index was built with embedding provider "hashing:512", not "hashing:64"');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should require a transcript or notes', async () => {
+        await expect(index.addLecture({ id: 'empty', title: 'Empty' }))
+            .rejects
+            .toThrow('lecture transcript or notes are required');
+    });
+});
+
+describe('HashingEmbeddingProvider', () => {
+    it('should produce deterministic unit vectors', async () => {
+        const provider = new HashingEmbeddingProvider(32);
+        const [a, b] = await provider.embed(['Entropy and information', 'Entropy and information']);
+
+        expect(a).toHaveLength(32);
+        expect(a).toEqual(b);
+        expect(Math.sqrt(a.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+    });
+});
+
+describe('OpenAIEmbeddingProvider', () => {
+    it('should batch inputs and keep the response order', async () => {
+        mockEmbeddingsCreate
+            .mockResolvedValueOnce({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] })
+            .mockResolvedValueOnce({ data: [{ index: 0, embedding: [1, 1] }] });
+
+        const provider = new OpenAIEmbeddingProvider({ apiKey: 'test-api-key', batchSize: 2 });
+        const embeddings = await provider.embed(['a', 'b', 'c']);
+
+        expect(provider.id).toBe('openai:text-embedding-3-small');
+        expect(embeddings).toEqual([[1, 0], [0, 1], [1, 1]]);
+        expect(mockEmbeddingsCreate).toHaveBeenCalledWith({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+    });
+});
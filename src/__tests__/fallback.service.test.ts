@@ -0,0 +1,181 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import { renderHTML } from '../html/html.renderer';
+import { FallbackService } from '../services/fallback.service';
+import { OpenAIService } from '../services/openai.service';
+import { CONTINUE_PARTIAL_RESPONSE, SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN } from '../prompts';
+import { OpenAIError, RateLimitError } from '../utils/error.utils';
+
+const reply = (content: string, finishReason: string = 'stop') => ({
+    choices: [{ message: { content }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+const apiError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+describe('FallbackService', () => {
+    let service: FallbackService;
+    let onFallback: jest.Mock;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        onFallback = jest.fn();
+        service = new FallbackService([
+            { name: 'primary', service: new OpenAIService('primary-key') },
+            { name: 'backup', service: new OpenAIService({ apiKey: 'backup-key', model: 'gpt-4o' }) }
+        ], { onFallback });
+    });
+
+    it('should move on to the next provider when rate limited', async () => {
+        mockCreate
+            .mockRejectedValueOnce(apiError('429 Too many requests', 429))
+            .mockResolvedValueOnce(reply('Notes'));
+
+        const result = await service.generateFromTranscriptDetailed('Transcript', 'markdown');
+
+        expect(result.content).toBe('Notes');
+        expect(result.provider).toBe('backup');
+        expect(result.warnings[0]).toBe('primary failed (Rate limit exceeded. Please try again later.); retried on backup');
+        expect(mockCreate.mock.calls[1][0].model).toBe('gpt-4o');
+        expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({
+            from: 'primary',
+            to: 'backup',
+            error: expect.any(RateLimitError)
+        }));
+    });
+
+    it('should continue a partial response on the next provider', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('# Part one', 'length'))
+            .mockRejectedValueOnce(apiError('Service Unavailable', 503))
+            .mockResolvedValueOnce(reply('# Part two'));
+
+        const result = await service.generateFromTranscriptDetailed('Transcript', 'markdown');
+
+        expect(result.content).toBe('# Part one\n# Part two');
+        expect(result.provider).toBe('backup');
+        expect(result.usage.totalTokens).toBe(30);
+        expect(result.warnings[0]).toBe('primary failed (Service Unavailable); continued on backup');
+        expect(mockCreate.mock.calls[2][0].messages).toEqual([
+            { role: 'system', content: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN },
+            { role: 'user', content: 'Transcript' },
+            { role: 'assistant', content: '# Part one' },
+            { role: 'user', content: CONTINUE_PARTIAL_RESPONSE }
+        ]);
+        expect(onFallback.mock.calls[0][0].partial.result.content).toBe('# Part one');
+    });
+
+    it('should convert a continued response to the requested format', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('# Part one', 'length'))
+            .mockRejectedValueOnce(apiError('Service Unavailable', 503))
+            .mockResolvedValueOnce(reply('# Part two'));
+
+        const result = await service.generateFromTranscriptDetailed('Transcript', 'html');
+
+        expect(result.content).toBe(renderHTML('# Part one\n# Part two'));
+        expect(result.provider).toBe('backup');
+        expect(onFallback.mock.calls[0][0].partial).toEqual(expect.objectContaining({ format: 'html' }));
+    });
+
+    it('should restart a structured response on the next provider', async () => {
+        const responseFormat = { name: 'notes', schema: { type: 'object', properties: { title: { type: 'string' } } } };
+        const truncationFallback = new FallbackService([
+            { name: 'primary', service: new OpenAIService('primary-key') },
+            { name: 'backup', service: new OpenAIService('backup-key') }
+        ], { errorTypes: [OpenAIError] });
+        mockCreate
+            .mockResolvedValueOnce(reply('{"title": "Ba', 'length'))
+            .mockResolvedValueOnce(reply('{"title": "Bases"}'));
+
+        const result = await truncationFallback.chatDetailed([{ role: 'user', content: 'Notes' }], { responseFormat });
+
+        expect(result.content).toBe('{"title": "Bases"}');
+        expect(result.warnings[0]).toBe('primary failed (Structured response reached the token limit; increase maxTokens); retried on backup');
+        expect(mockCreate.mock.calls[1][0].messages).toEqual([{ role: 'user', content: 'Notes' }]);
+        expect(mockCreate.mock.calls[1][0].response_format.json_schema.name).toBe('notes');
+    });
+
+    it('should not fall back on errors that do not match the rules', async () => {
+        mockCreate.mockRejectedValueOnce(apiError('Invalid request', 400));
+
+        await expect(service.generateFromTranscriptDetailed('Transcript')).rejects.toThrow('Invalid request');
+        expect(mockCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply custom error types and status codes', async () => {
+        const custom = new FallbackService(
+            [new OpenAIService('primary-key'), new OpenAIService('backup-key')],
+            { errorTypes: [OpenAIError], statusCodes: [] }
+        );
+        mockCreate
+            .mockResolvedValueOnce(reply(''))
+            .mockResolvedValueOnce(reply('Answer'));
+
+        const result = await custom.chatDetailed([{ role: 'user', content: 'Question' }]);
+
+        expect(result.content).toBe('Answer');
+        expect(result.provider).toBe('OpenAIService');
+    });
+
+    it('should fall back when a provider does not answer in time', async () => {
+        const slow = new FallbackService([
+            { name: 'slow', service: new OpenAIService('primary-key') },
+            { name: 'fast', service: new OpenAIService('backup-key') }
+        ], { timeoutMs: 300 });
+        mockCreate
+            .mockImplementationOnce(() => new Promise(resolve => setTimeout(() => resolve(reply('Late')), 600)))
+            .mockResolvedValueOnce(reply('On time'));
+
+        const result = await slow.chatDetailed([{ role: 'user', content: 'Question' }]);
+
+        expect(result.content).toBe('On time');
+        expect(result.warnings[0]).toBe('slow failed (Provider did not respond within 300 ms); retried on fast');
+    });
+
+    it('should record the provider in the lecture notes metadata', async () => {
+        mockCreate
+            .mockRejectedValueOnce(apiError('Bad gateway', 502))
+            .mockResolvedValueOnce(reply('Notes'));
+
+        const notes = await service.generateLectureNotes('Entropy');
+
+        expect(notes.metadata.provider).toBe('backup');
+        expect(notes.metadata.warnings).toEqual(['primary failed (Bad gateway); retried on backup']);
+    });
+
+    it('should report lecture notes started over on the next provider as retried', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('# Entropy', 'length'))
+            .mockRejectedValueOnce(apiError('Service Unavailable', 503))
+            .mockResolvedValueOnce(reply('# Entropy\n\nNotes'));
+
+        const notes = await service.generateLectureNotes('Entropy');
+
+        expect(notes.content).toBe('# Entropy\n\nNotes');
+        expect(notes.metadata.warnings[0]).toBe('primary failed (Service Unavailable); retried on backup');
+        expect(mockCreate.mock.calls[2][0].messages.map((message: { role: string }) => message.role)).not.toContain('assistant');
+        expect(onFallback.mock.calls[0][0].partial).toBeUndefined();
+    });
+
+    it('should rethrow the last provider error', async () => {
+        mockCreate.mockRejectedValue(apiError('429 Too many requests', 429));
+
+        await expect(service.chatDetailed([{ role: 'user', content: 'Question' }])).rejects.toThrow(RateLimitError);
+        expect(mockCreate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should require at least one provider', () => {
+        expect(() => new FallbackService([])).toThrow('At least one provider is required');
+    });
+});
@@ -0,0 +1,149 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import { dedupeFlashcards, parseFlashcards, toAnkiPackage, toAnkiTSV } from '../flashcards/flashcard.deck';
+import { OpenAIService } from '../services/openai.service';
+import { FLASHCARDS_PROMPT } from '../prompts';
+import { Flashcard } from '../types/flashcard.types';
+import { SDKError } from '../utils/error.utils';
+
+const cards: Flashcard[] = [
+    { kind: 'definition', front: 'What is a basis?', back: 'A linearly independent spanning set of $V$.' },
+    { kind: 'formula', front: 'Euler\'s identity', back: '$$e^{i\\pi} + 1 = 0$$', tags: ['complex numbers'] },
+    { kind: 'cloze', front: 'For $A \\in \\R^{n \\times n}$, {{c1::$\\det A \\neq 0$}} iff {{c2::$A$ is invertible}}.', back: '' }
+];
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+describe('parseFlashcards', () => {
+    it('should read a fenced JSON array and drop entries that are not cards', () => {
+        const content = '```json\n' + JSON.stringify([
+            ...cards,
+            { kind: 'cloze', front: 'No marker here', back: '' },
+            { kind: 'definition', front: 'Rank', back: '' },
+            { kind: 'example', front: 'Example 3', back: 'Something' },
+            'not a card'
+        ]) + '\n```';
+
+        expect(parseFlashcards(content)).toEqual(cards);
+    });
+
+    it('should reject a response without a JSON array', () => {
+        expect(() => parseFlashcards('Here are your cards!')).toThrow(SDKError);
+    });
+});
+
+describe('dedupeFlashcards', () => {
+    it('should drop cards asking the same thing as an earlier card of the same kind', () => {
+        const result = dedupeFlashcards([
+            ...cards,
+            { kind: 'definition', front: 'Define a **basis**.', back: 'A minimal spanning set.' },
+            { kind: 'theorem', front: 'What is a basis?', back: 'Every vector space has one.' },
+            { kind: 'cloze', front: 'For $A \\in \\R^{n \\times n}$, {{c2::$\\det A \\neq 0$}} iff {{c1::$A$ is invertible}}.', back: '' }
+        ]);
+
+        expect(result.duplicates).toBe(2);
+        expect(result.cards.map(card => card.kind)).toEqual(['definition', 'formula', 'cloze', 'theorem']);
+    });
+});
+
+describe('toAnkiTSV', () => {
+    it('should write Basic and Cloze notes with MathJax math and tags', () => {
+        const lines = toAnkiTSV(cards, { deckName: 'Linear Algebra' }).split('\n');
+
+        expect(lines.slice(0, 5)).toEqual(['#separator:tab', '#html:true', '#notetype column:1', '#deck column:2', '#tags column:5']);
+        expect(lines[5]).toBe('Basic\tLinear Algebra\tWhat is a basis?\tA linearly independent spanning set of \\(V\\).\tdefinition');
+        expect(lines[6]).toBe('Basic\tLinear Algebra\tEuler\'s identity\t\\[e^{i\\pi} + 1 = 0\\]\tcomplex_numbers formula');
+        expect(lines[7]).toBe('Cloze\tLinear Algebra\tFor \\(A \\in \\R^{n \\times n}\\), {{c1::\\(\\det A \\neq 0\\)}} iff {{c2::\\(A\\) is invertible}}.\t\tcloze');
+    });
+
+    it('should escape HTML and quote fields with quotes', () => {
+        const [row] = toAnkiTSV([{ kind: 'formula', front: 'The "triangle" inequality', back: '$|x + y| <= |x|$\nfor all x' }]).split('\n').slice(5);
+
+        expect(row).toBe('Basic\tLecture Notes\t"The ""triangle"" inequality"\t\\(|x + y| &lt;= |x|\\)<br>for all x\tformula');
+    });
+});
+
+describe('toAnkiPackage', () => {
+    it('should package a collection with one card per cloze number', async () => {
+        const zip = await JSZip.loadAsync(await toAnkiPackage(cards, { deckName: 'Linear Algebra' }));
+        expect(await zip.file('media')!.async('string')).toBe('{}');
+
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+        try {
+            const [decks, models] = db.exec('SELECT decks, models FROM col')[0].values[0].map(value => JSON.parse(value as string));
+            const deck = Object.values<{ id: number; name: string }>(decks).find(deck => deck.name === 'Linear Algebra')!;
+            const notes = db.exec('SELECT id, mid, flds, tags FROM notes ORDER BY id')[0].values;
+            const cardRows = db.exec('SELECT nid, did, ord FROM cards ORDER BY id')[0].values;
+
+            expect(notes).toHaveLength(3);
+            expect(models[String(notes[2][1])].name).toBe('Cloze');
+            expect(notes[0][2]).toBe('What is a basis?\x1fA linearly independent spanning set of \\(V\\).');
+            expect(notes[1][3]).toBe(' complex_numbers formula ');
+            expect(cardRows).toEqual([
+                [notes[0][0], deck.id, 0],
+                [notes[1][0], deck.id, 0],
+                [notes[2][0], deck.id, 0],
+                [notes[2][0], deck.id, 1]
+            ]);
+        } finally {
+            db.close();
+        }
+    });
+});
+
+describe('generateFlashcards', () => {
+    let service: OpenAIService;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        service = new OpenAIService('test-api-key');
+    });
+
+    it('should generate cards for every part of long notes and drop repeats', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply(JSON.stringify([cards[0], cards[1]])))
+            .mockResolvedValueOnce(reply(JSON.stringify([{ ...cards[0], front: 'Define a basis' }, cards[2]])));
+
+        const notes = `${'Vector spaces. '.repeat(30)}\n\n${'Determinants. '.repeat(30)}`;
+        const deck = await service.generateFlashcards(notes, { maxChunkTokens: 120, kinds: ['definition', 'cloze'], tags: ['week 3'] });
+
+        expect(mockCreate).toHaveBeenCalledTimes(2);
+        expect(mockCreate.mock.calls[0][0].messages[0]).toEqual({ role: 'system', content: FLASHCARDS_PROMPT });
+        expect(mockCreate.mock.calls[0][0].messages[1].content).toMatch(/^Kinds of cards to write: definition, cloze\n\nNotes:\nVector spaces\./);
+        expect(deck.name).toBe('Lecture Notes');
+        expect(deck.cards).toEqual([{ ...cards[0], tags: ['week 3'] }, { ...cards[2], tags: ['week 3'] }]);
+        expect(deck.duplicates).toBe(1);
+        expect(deck.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+    });
+
+    it('should keep at most maxCards cards', async () => {
+        mockCreate.mockResolvedValueOnce(reply(JSON.stringify(cards)));
+
+        const deck = await service.generateFlashcards('Notes about bases.', { maxCards: 2, deckName: 'Week 3' });
+
+        expect(deck.cards).toEqual(cards.slice(0, 2));
+        expect(deck.name).toBe('Week 3');
+    });
+
+    it('should validate its options', async () => {
+        await expect(service.generateFlashcards('Notes', { kinds: [] })).rejects.toThrow('kinds must be a non-empty list');
+        await expect(service.generateFlashcards('Notes', { maxCards: 0 })).rejects.toThrow('maxCards must be a positive integer');
+        expect(mockCreate).not.toHaveBeenCalled();
+    });
+});
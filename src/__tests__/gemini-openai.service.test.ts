@@ -0,0 +1,397 @@
+const mockSendMessage = jest.fn();
+const mockSendMessageStream = jest.fn();
+const mockStartChat = jest.fn().mockImplementation(() => ({
+    sendMessage: mockSendMessage,
+    sendMessageStream: mockSendMessageStream
+}));
+
+jest.mock('@google/generative-ai', () => ({
+    ...jest.requireActual('@google/generative-ai'),
+    GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
+        getGenerativeModel: () => ({ startChat: mockStartChat })
+    }))
+}));
+
+// ffmpeg is replaced by writing three chunk files into the output directory
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => ({
+    execFile: mockExecFile
+}));
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GeminiOpenAIService } from '../services/gemini-openai.service';
+import { GeminiService } from '../services/gemini.service';
+import { INLINE_AUDIO_LIMIT } from '../utils/audio.utils';
+import { CONTINUE_PARTIAL_RESPONSE } from '../prompts';
+
+const geminiResponse = (text: string, finishReason: string, usage = { promptTokenCount: 10, candidatesTokenCount: 20, totalTokenCount: 30 }) => ({
+    response: {
+        text: () => text,
+        candidates: [{ finishReason }],
+        usageMetadata: usage
+    }
+});
+
+describe('GeminiOpenAIService', () => {
+    let service: GeminiOpenAIService;
+
+    beforeEach(() => {
+        mockSendMessage.mockReset();
+        mockSendMessageStream.mockReset();
+        mockStartChat.mockClear();
+        service = new GeminiOpenAIService({ apiKey: 'test-api-key', model: 'gemini-1.5-pro' });
+    });
+
+    describe('createChatCompletion', () => {
+        it('should map Gemini finish reasons and usage to the OpenAI format', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('Partial', 'MAX_TOKENS'));
+
+            const completion = await service.createChatCompletion({
+                model: 'gemini-1.5-pro',
+                messages: [{ role: 'user', content: 'Hello' }]
+            });
+
+            expect(completion.choices[0].finish_reason).toBe('length');
+            expect(completion.usage).toEqual({ prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 });
+        });
+
+        it('should pass generation settings when starting the chat', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('Done', 'STOP'));
+
+            await service.createChatCompletion({
+                model: 'gemini-1.5-pro',
+                messages: [{ role: 'user', content: 'Hello' }],
+                temperature: 0.2,
+                max_tokens: 1000
+            });
+
+            expect(mockStartChat).toHaveBeenCalledWith({
+                history: [],
+                generationConfig: { temperature: 0.2, maxOutputTokens: 1000 }
+            });
+        });
+
+        it('should ask for JSON matching the response format as a Gemini schema', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('{"answer": null}', 'STOP'));
+
+            await service.chat([{ role: 'user', content: 'Hello' }], {
+                responseFormat: {
+                    name: 'answer',
+                    schema: { type: 'object', properties: { answer: { type: ['string', 'null'] } }, required: ['answer'], additionalProperties: false }
+                }
+            });
+
+            expect(mockStartChat.mock.calls[0][0].generationConfig).toEqual(expect.objectContaining({
+                responseMimeType: 'application/json',
+                responseSchema: { type: 'object', properties: { answer: { type: 'string', nullable: true } }, required: ['answer'] }
+            }));
+        });
+
+        it('should not continue a structured response cut at the token limit', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('{"answer": "The deriv', 'MAX_TOKENS'));
+
+            await expect(service.chat([{ role: 'user', content: 'Hello' }], {
+                responseFormat: { name: 'answer', schema: { type: 'object', properties: { answer: { type: 'string' } } } }
+            })).rejects.toThrow('Structured response reached the token limit; increase maxTokens');
+            expect(mockSendMessage).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep earlier messages as chat history with Gemini roles', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('Answer', 'STOP'));
+
+            await service.createChatCompletion({
+                model: 'gemini-1.5-pro',
+                messages: [
+                    { role: 'system', content: 'Be helpful' },
+                    { role: 'user', content: 'Question' },
+                    { role: 'assistant', content: 'Earlier answer' },
+                    { role: 'user', content: 'Follow-up' }
+                ]
+            });
+
+            expect(mockStartChat).toHaveBeenCalledWith(expect.objectContaining({
+                history: [
+                    { role: 'user', parts: [{ text: 'Be helpful' }] },
+                    { role: 'user', parts: [{ text: 'Question' }] },
+                    { role: 'model', parts: [{ text: 'Earlier answer' }] }
+                ]
+            }));
+            expect(mockSendMessage).toHaveBeenCalledTimes(1);
+            expect(mockSendMessage).toHaveBeenCalledWith('Follow-up');
+        });
+
+        it('should convert image data URLs to inline data parts', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('A triangle', 'STOP'));
+
+            await service.createChatCompletion({
+                model: 'gemini-1.5-pro',
+                messages: [{
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'Describe this' },
+                        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } }
+                    ]
+                }]
+            });
+
+            expect(mockSendMessage).toHaveBeenCalledWith([
+                { text: 'Describe this' },
+                { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }
+            ]);
+        });
+    });
+
+    describe('transcribeHandwrittenNotes', () => {
+        it('should send every photo as an inline image after the prompt', async () => {
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('Now, let\'s look at this diagram.', 'STOP'));
+            const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+            const transcript = await service.transcribeHandwrittenNotes([jpeg, 'data:image/png;base64,iVBORw0K']);
+
+            expect(transcript).toBe('Now, let\'s look at this diagram.');
+            expect(mockStartChat.mock.calls[0][0].history[0].parts[0].text)
+                .toContain('convert these handwritten notes');
+            expect(mockSendMessage).toHaveBeenCalledWith([
+                { text: 'Transcribe the 2 attached page(s) of notes in order.' },
+                { inlineData: { mimeType: 'image/jpeg', data: jpeg.toString('base64') } },
+                { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }
+            ]);
+        });
+
+        it('should require at least one image', async () => {
+            await expect(service.transcribeHandwrittenNotes([]))
+                .rejects
+                .toThrow('At least one image is required');
+        });
+    });
+
+    describe('generation results', () => {
+        it('should sum usage across continuation attempts', async () => {
+            mockSendMessage
+                .mockResolvedValueOnce(geminiResponse('\\begin{theorem} Partial', 'MAX_TOKENS'))
+                .mockResolvedValueOnce(geminiResponse('\\end{theorem}', 'STOP'));
+
+            const result = await service.generateFromTranscriptDetailed('Test transcript');
+
+            expect(result.content).toBe('\\begin{theorem} Partial\n\\end{theorem}');
+            expect(result.model).toBe('gemini-1.5-pro');
+            expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 40, totalTokens: 60 });
+            expect(result.attempts.map(attempt => attempt.finishReason)).toEqual(['length', 'stop']);
+            expect(result.continuations).toBe(1);
+        });
+
+        it('should continue output cut at the token limit even when it looks complete', async () => {
+            mockSendMessage
+                .mockResolvedValueOnce(geminiResponse('The derivative measures the rate', 'MAX_TOKENS'))
+                .mockResolvedValueOnce(geminiResponse('of change of a function.', 'STOP'));
+
+            const result = await service.generateFromTranscriptDetailed('Test transcript', 'markdown');
+
+            expect(mockSendMessage).toHaveBeenCalledTimes(2);
+            expect(mockSendMessage).toHaveBeenLastCalledWith(CONTINUE_PARTIAL_RESPONSE);
+            expect(result.content).toBe('The derivative measures the rate\nof change of a function.');
+            expect(result.continuations).toBe(1);
+        });
+
+        it('should report usage in lecture notes metadata', async () => {
+            mockSendMessage.mockResolvedValue(geminiResponse('Notes', 'STOP'));
+
+            const notes = await service.generateLectureNotes('Test Topic');
+
+            expect(notes.metadata.promptTokens).toBe(10);
+            expect(notes.metadata.completionTokens).toBe(20);
+        });
+    });
+
+    describe('processAudioFile', () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            mockExecFile.mockReset();
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-audio-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it('should send short recordings inline and parse the timed segments', async () => {
+            const audioPath = path.join(dir, 'lecture.mp3');
+            await fs.writeFile(audioPath, 'ID3 audio');
+            mockSendMessage.mockResolvedValueOnce(geminiResponse(
+                '```json\n[{"start": 0, "end": 3.5, "text": "Good morning."}, {"start": 3.5, "end": 8, "speaker": "Student", "text": "Is this on the exam?"}]\n```',
+                'STOP'
+            ));
+
+            const transcript = await service.processAudioFile({ audioPath, language: 'en', prompt: 'Laplace transform' });
+
+            expect(transcript).toEqual({
+                text: 'Good morning. Is this on the exam?',
+                language: 'en',
+                durationSeconds: 8,
+                segments: [
+                    { start: 0, end: 3.5, text: 'Good morning.' },
+                    { start: 3.5, end: 8, speaker: 'Student', text: 'Is this on the exam?' }
+                ]
+            });
+            expect(mockExecFile).not.toHaveBeenCalled();
+            expect(mockSendMessage).toHaveBeenCalledWith([
+                { inlineData: { mimeType: 'audio/mp3', data: Buffer.from('ID3 audio').toString('base64') } }
+            ]);
+
+            const systemPrompt = mockStartChat.mock.calls[0][0].history[0].parts[0].text;
+            expect(systemPrompt).toContain('Transcribe the attached lecture recording verbatim');
+            expect(systemPrompt).toContain('Vocabulary and spelling hints: Laplace transform');
+            expect(mockStartChat.mock.calls[0][0].generationConfig.temperature).toBe(0);
+        });
+
+        it('should split recordings above the inline limit and offset each chunk', async () => {
+            const audioPath = path.join(dir, 'lecture.wav');
+            await fs.writeFile(audioPath, Buffer.alloc(INLINE_AUDIO_LIMIT + 1));
+            mockExecFile.mockImplementation((file: string, args: string[], callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+                const chunkDir = path.dirname(args[args.length - 1]);
+                Promise.all(['chunk_000.mp3', 'chunk_001.mp3', 'chunk_002.mp3'].map(name => fs.writeFile(path.join(chunkDir, name), name)))
+                    .then(() => callback(null, '', ''));
+            });
+            mockSendMessage
+                .mockResolvedValueOnce(geminiResponse('[{"start": 1, "end": 4, "text": "First part."}]', 'STOP'))
+                .mockResolvedValueOnce(geminiResponse('[]', 'STOP'))
+                .mockResolvedValueOnce(geminiResponse('[{"start": 2, "end": 5, "text": "Third part."}]', 'STOP'));
+
+            const transcript = await service.processAudioFile({ audioPath, chunkDuration: 300 });
+
+            expect(transcript.segments).toEqual([
+                { start: 1, end: 4, text: 'First part.' },
+                { start: 602, end: 605, text: 'Third part.' }
+            ]);
+            expect(mockSendMessage).toHaveBeenCalledTimes(3);
+            expect(mockStartChat.mock.calls[2][0].history[0].parts[0].text)
+                .toContain('ended with: "First part."');
+        });
+
+        it('should report responses that are not segment arrays', async () => {
+            const audioPath = path.join(dir, 'lecture.mp3');
+            await fs.writeFile(audioPath, 'ID3 audio');
+            mockSendMessage.mockResolvedValueOnce(geminiResponse('I cannot transcribe this.', 'STOP'));
+
+            await expect(service.processAudioFile({ audioPath }))
+                .rejects
+                .toThrow('Audio transcription response is not a JSON array of segments');
+        });
+    });
+
+    describe('streamFromTranscript', () => {
+        const streamOf = (deltas: string[], finishReason: string) => ({
+            stream: (async function* () {
+                for (const [index, text] of deltas.entries()) {
+                    yield {
+                        text: () => text,
+                        candidates: index === deltas.length - 1 ? [{ finishReason }] : []
+                    };
+                }
+            })()
+        });
+
+        it('should stream deltas and continue truncated output', async () => {
+            mockSendMessageStream
+                .mockResolvedValueOnce(streamOf(['\\begin{theorem}', ' Partial'], 'MAX_TOKENS'))
+                .mockResolvedValueOnce(streamOf(['\\end{theorem}'], 'STOP'));
+
+            const deltas: string[] = [];
+            for await (const delta of service.streamFromTranscript('Test transcript')) {
+                deltas.push(delta);
+            }
+
+            expect(deltas).toEqual(['\\begin{theorem}', ' Partial', '\n\\end{theorem}']);
+            expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+            expect(mockStartChat.mock.calls[1][0].history.slice(1)).toEqual([
+                { role: 'user', parts: [{ text: 'Test transcript' }] },
+                { role: 'model', parts: [{ text: '\\begin{theorem} Partial' }] }
+            ]);
+            expect(mockSendMessageStream).toHaveBeenLastCalledWith(
+                `${CONTINUE_PARTIAL_RESPONSE}\nThese are still open and must be closed, in this order, once their content is finished:\n` +
+                '- \\end{theorem} (\\begin{theorem} on line 1 is not closed)'
+            );
+        });
+
+        it('should continue a stream cut at the token limit in plain prose', async () => {
+            mockSendMessageStream
+                .mockResolvedValueOnce(streamOf(['The derivative measures', ' the rate'], 'MAX_TOKENS'))
+                .mockResolvedValueOnce(streamOf(['of change.'], 'STOP'));
+
+            const deltas: string[] = [];
+            for await (const delta of service.streamFromTranscript('Test transcript', 'markdown')) {
+                deltas.push(delta);
+            }
+
+            expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+            expect(mockSendMessageStream).toHaveBeenLastCalledWith(CONTINUE_PARTIAL_RESPONSE);
+            expect(deltas.join('')).toBe('The derivative measures the rate\nof change.');
+        });
+    });
+});
+
+describe('GeminiService', () => {
+    let service: GeminiService;
+
+    beforeEach(() => {
+        mockSendMessage.mockReset();
+        mockSendMessageStream.mockReset();
+        mockStartChat.mockClear();
+        service = new GeminiService({ apiKey: 'test-api-key', model: 'gemini-1.5-pro' });
+    });
+
+    it('should continue output cut at the token limit even when it looks complete', async () => {
+        mockSendMessage
+            .mockResolvedValueOnce(geminiResponse('The derivative measures the rate', 'MAX_TOKENS'))
+            .mockResolvedValueOnce(geminiResponse('of change of a function.', 'STOP'));
+
+        const result = await service.generateFromTranscriptDetailed('Test transcript', 'markdown');
+
+        expect(mockSendMessage).toHaveBeenCalledTimes(2);
+        expect(mockSendMessage).toHaveBeenLastCalledWith(CONTINUE_PARTIAL_RESPONSE);
+        expect(result.content).toBe('The derivative measures the rate\nof change of a function.');
+        expect(result.attempts.map(attempt => attempt.finishReason)).toEqual(['MAX_TOKENS', 'STOP']);
+    });
+
+    it('should fail when the last attempt still stops at the token limit', async () => {
+        mockSendMessage.mockResolvedValue(geminiResponse('The derivative measures the rate of change.', 'MAX_TOKENS'));
+
+        const error = await service.generateFromTranscriptDetailed('Test transcript', 'markdown').catch(error => error);
+
+        expect(error.message).toBe('Failed to generate complete response after maximum attempts');
+        expect(error.partial.result.content).toContain('The derivative measures the rate of change.');
+        expect(mockSendMessage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not continue a structured response cut at the token limit', async () => {
+        mockSendMessage.mockResolvedValueOnce(geminiResponse('{"answer": "The deriv', 'MAX_TOKENS'));
+
+        await expect(service.chat([{ role: 'user', content: 'Hello' }], {
+            responseFormat: { name: 'answer', schema: { type: 'object', properties: { answer: { type: 'string' } } } }
+        })).rejects.toThrow('Structured response reached the token limit; increase maxTokens');
+        expect(mockSendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should continue a stream cut at the token limit in plain prose', async () => {
+        const streamOf = (text: string, finishReason: string) => ({
+            stream: (async function* () {
+                yield { text: () => text, candidates: [{ finishReason }] };
+            })()
+        });
+        mockSendMessageStream
+            .mockResolvedValueOnce(streamOf('The derivative measures the rate', 'MAX_TOKENS'))
+            .mockResolvedValueOnce(streamOf('of change.', 'STOP'));
+
+        const deltas: string[] = [];
+        for await (const delta of service.streamFromTranscript('Test transcript', 'markdown')) {
+            deltas.push(delta);
+        }
+
+        expect(mockSendMessageStream).toHaveBeenCalledTimes(2);
+        expect(deltas.join('')).toBe('The derivative measures the rate\nof change.');
+    });
+});
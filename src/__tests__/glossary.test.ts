@@ -0,0 +1,197 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import {
+    addLatexGlossary,
+    addMarkdownGlossary,
+    locateGlossaryTerms,
+    mergeGlossaryEntries,
+    parseGlossaryEntries
+} from '../glossary/glossary';
+import { renderHTML } from '../html/html.renderer';
+import { OpenAIService } from '../services/openai.service';
+import { GLOSSARY_PROMPT } from '../prompts';
+import { GlossaryEntry } from '../types/glossary.types';
+
+const markdown = [
+    '# Linear Algebra',
+    '',
+    '## 1. Vector Spaces',
+    '',
+    'A `basis` in code is not a basis.',
+    '',
+    '### 1.1 Bases and Dimension',
+    '',
+    'Every basis of $V$ has the same size, the dimension of $V$.',
+    '',
+    '## 2. Maps',
+    '',
+    'Two vector spaces of equal dimension are isomorphic; see Eigenvalues below.'
+].join('\n');
+
+const latex = [
+    '\\documentclass{article}',
+    '\\usepackage{hyperref}',
+    '\\begin{document}',
+    '',
+    '\\section{Bases}',
+    '% every basis is finite here',
+    'A basis of $V$ spans $V$ \\label{basis}. Any two bases have the same size.',
+    '',
+    'The dimension counts a basis and is 100\\% well defined.',
+    '\\begin{equation}',
+    '\\dim V = n',
+    '\\end{equation}',
+    '',
+    '\\end{document}'
+].join('\n');
+
+const entries: GlossaryEntry[] = [
+    { term: 'basis', definition: 'A linearly independent spanning set.', aliases: ['bases'] },
+    { term: 'dimension', definition: 'The size of a basis, written $\\dim V$.' },
+    { term: 'Jordan normal form', definition: 'A block diagonal form.' }
+];
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+describe('parseGlossaryEntries', () => {
+    it('should keep entries with a term and a definition', () => {
+        const parsed = parseGlossaryEntries('```json\n[{"term": " basis ", "definition": "A spanning set.", "aliases": ["bases", 3]}, {"term": "span"}]\n```');
+
+        expect(parsed).toEqual([{ term: 'basis', definition: 'A spanning set.', aliases: ['bases'] }]);
+        expect(() => parseGlossaryEntries('basis: a spanning set')).toThrow('Glossary response is not a JSON array');
+    });
+
+    it('should merge entries for the same term from different parts', () => {
+        expect(mergeGlossaryEntries([
+            { term: 'Basis', definition: 'First.', aliases: ['bases'] },
+            { term: 'basis', definition: 'Second.', aliases: ['Bases', 'basis', 'Hamel basis'] }
+        ])).toEqual([{ term: 'Basis', definition: 'First.', aliases: ['bases', 'Hamel basis'] }]);
+    });
+});
+
+describe('locateGlossaryTerms', () => {
+    it('should find the first occurrence outside code and math in Markdown', () => {
+        const located = locateGlossaryTerms(markdown, entries);
+
+        expect(located[0].location).toEqual({ section: 1, heading: '1. Vector Spaces', line: 5 });
+        expect(located[1].location).toEqual({ section: 1, heading: '1.1 Bases and Dimension', line: 7 });
+        expect(located[2].location).toBeUndefined();
+    });
+
+    it('should skip the preamble, comments and command arguments in LaTeX', () => {
+        const located = locateGlossaryTerms(latex, [{ term: 'basis', definition: 'x' }, { term: 'hyperref', definition: 'x' }]);
+
+        expect(located[0].location).toEqual({ section: 1, heading: 'Bases', line: 7 });
+        expect(located[1].location).toBeUndefined();
+    });
+});
+
+describe('addLatexGlossary', () => {
+    it('should define the entries and mark their occurrences for the glossary and index', () => {
+        const document = addLatexGlossary(latex, entries);
+
+        expect(document).toContain('\\usepackage{hyperref}\n\\usepackage{makeidx}\n\\makeindex\n\\usepackage[toc]{glossaries}\n\\makenoidxglossaries\n');
+        expect(document).toContain('\\newglossaryentry{dimension}{name={dimension}, sort={dimension}, description={The size of a basis, written $\\dim V$.}}');
+        expect(document).toContain('\\newglossaryentry{jordan-normal-form}{name={Jordan normal form}');
+        expect(document).toContain('A basis\\glsadd{basis}\\index{basis} of $V$ spans $V$ \\label{basis}. Any two bases have the same size.');
+        expect(document).toContain('The dimension\\glsadd{dimension}\\index{dimension} counts a basis\\index{basis} and is 100\\% well defined.');
+        expect(document).toContain('\\section{Bases}\n');
+        expect(document).toContain('\\dim V = n\n');
+        expect(document).toContain('\\glsadd[format=glsignore]{jordan-normal-form}\n\\printnoidxglossaries\n\\printindex\n\n\\end{document}');
+    });
+
+    it('should leave out the index when asked and require a complete document', () => {
+        const document = addLatexGlossary(latex, entries, { index: false });
+
+        expect(document).not.toContain('\\index{');
+        expect(document).not.toContain('\\printindex');
+        expect(() => addLatexGlossary('\\section{Bases}', entries)).toThrow('complete LaTeX document');
+    });
+});
+
+describe('addMarkdownGlossary', () => {
+    it('should append a sorted glossary linking to the first occurrence', () => {
+        const notes = addMarkdownGlossary(markdown, entries);
+
+        expect(notes.endsWith([
+            '## Glossary',
+            '',
+            '- **basis**: A linearly independent spanning set. ([1. Vector Spaces](#1-vector-spaces))',
+            '- **dimension**: The size of a basis, written $\\dim V$. ([1.1 Bases and Dimension](#11-bases-and-dimension))',
+            '- **Jordan normal form**: A block diagonal form.',
+            ''
+        ].join('\n'))).toBe(true);
+    });
+
+    it('should keep the links when rendered to HTML', () => {
+        const html = renderHTML(addMarkdownGlossary(markdown, entries));
+
+        expect(html).toContain('<a href="#1-1-bases-and-dimension">1.1 Bases and Dimension</a>');
+    });
+});
+
+describe('generateGlossary', () => {
+    let service: OpenAIService;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        service = new OpenAIService('test-api-key');
+    });
+
+    it('should ask for terms in parts and merge, locate and sort them', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply(JSON.stringify([entries[1], { term: 'Basis', definition: 'A spanning set.' }])))
+            .mockResolvedValueOnce(reply(JSON.stringify([entries[0], entries[2]])));
+
+        const glossary = await service.generateGlossary(markdown, { maxChunkTokens: 40 });
+
+        expect(mockCreate).toHaveBeenCalledTimes(2);
+        expect(mockCreate.mock.calls[0][0].messages[0]).toEqual({ role: 'system', content: GLOSSARY_PROMPT });
+        expect(mockCreate.mock.calls[0][0].messages[1].content).toMatch(/^Notes:\n# Linear Algebra/);
+        expect(glossary.entries.map(entry => entry.term)).toEqual(['Basis', 'dimension', 'Jordan normal form']);
+        expect(glossary.entries[0]).toEqual({
+            term: 'Basis',
+            definition: 'A spanning set.',
+            aliases: ['bases'],
+            location: { section: 1, heading: '1. Vector Spaces', line: 5 }
+        });
+        expect(glossary.usage.totalTokens).toBe(30);
+    });
+
+    it('should drop the terms that occur last, or never, beyond maxTerms', async () => {
+        mockCreate.mockResolvedValueOnce(reply(JSON.stringify(entries)));
+
+        const glossary = await service.generateGlossary(markdown, { maxTerms: 1 });
+
+        expect(glossary.entries.map(entry => entry.term)).toEqual(['basis']);
+        await expect(service.generateGlossary(markdown, { maxTerms: 0 })).rejects.toThrow('maxTerms must be a positive integer');
+    });
+
+    it('should add the glossary to notes built by the pipeline', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('# Bases'))
+            .mockResolvedValueOnce(reply('# Bases\n\nA basis spans.'))
+            .mockResolvedValueOnce(reply(JSON.stringify([entries[0]])));
+
+        const result = await service.buildLectureNotes('Test transcript', { format: 'markdown', finalRefinement: false, glossary: true });
+
+        expect(result.content).toBe('# Bases\n\nA basis spans.\n\n# Glossary\n\n- **basis**: A linearly independent spanning set. ([Bases](#bases))\n');
+        expect(result.glossary?.entries).toHaveLength(1);
+        expect(result.usage.totalTokens).toBe(45);
+        await expect(service.buildLectureNotes('Test transcript', { format: 'typst', glossary: true }))
+            .rejects.toThrow('glossary is not available for the typst format');
+    });
+});
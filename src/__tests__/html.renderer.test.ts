@@ -0,0 +1,71 @@
+import { renderHTML } from '../html/html.renderer';
+import { splitDocumentSections } from '../utils/text.utils';
+
+const notes = [
+    '# Linear Algebra',
+    '',
+    '## 1. Vector Spaces',
+    '',
+    'Every $v_1 \\in \\R^n$ is a vector, see Theorem 2.1 and [bases](#Bases).',
+    '',
+    '> **Definition:** A basis of $V$ is a linearly independent spanning set.',
+    '',
+    '> **Theorem 2.1 (Rank):**',
+    '> For every matrix $A$,',
+    '> $$',
+    '> \\operatorname{rank} A = \\dim \\operatorname{im} A',
+    '> $$',
+    '',
+    '### Bases',
+    '',
+    'As shown in Section 1, `$a_b$` is code.',
+    '',
+    '<script>alert(1)</script>'
+].join('\n');
+
+describe('renderHTML', () => {
+    const html = renderHTML(notes, { macros: { '\\R': '\\mathbb{R}' } });
+
+    it('should produce a standalone page titled after the only level-1 heading', () => {
+        expect(html.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true);
+        expect(html).toContain('<meta name="viewport" content="width=device-width, initial-scale=1">');
+        expect(html).toContain('<title>Linear Algebra</title>');
+        expect(html).toContain('<header>\n<h1 id="linear-algebra">Linear Algebra</h1>\n</header>');
+        expect(html).not.toMatch(/<(link|script)\b|src=|https?:\/\/(?!www\.w3\.org)/);
+    });
+
+    it('should list the sections in a table of contents', () => {
+        expect(html).toContain(
+            '<ul>\n<li><a href="#1-vector-spaces">1. Vector Spaces</a><ul>\n<li><a href="#bases">Bases</a></li>\n</ul></li>\n</ul>'
+        );
+        expect(renderHTML(notes, { tableOfContents: false })).not.toContain('<nav');
+    });
+
+    it('should render math to MathML without touching code', () => {
+        expect(html).toContain('<annotation encoding="application/x-tex">v_1 \\in \\R^n</annotation>');
+        expect(html).toContain('<mi mathvariant="double-struck">R</mi>');
+        expect(html).toMatch(/<math [^>]*display="block"><semantics>[\s\S]*\\operatorname\{rank\} A = \\dim \\operatorname\{im\} A\n<\/annotation>/);
+        expect(html).toContain('<code>$a_b$</code>');
+    });
+
+    it('should turn boxed statements into coloured boxes', () => {
+        expect(html).toContain('<div class="box box-green" id="definition-1">\n<div class="box-title">Definition</div>\n<p>A basis of');
+        expect(html).toContain('<div class="box box-red" id="theorem-2-1">\n<div class="box-title">Theorem 2.1 (Rank)</div>\n<p>For every matrix');
+    });
+
+    it('should link cross-references to their anchors', () => {
+        expect(html).toContain('see <a href="#theorem-2-1">Theorem 2.1</a> and <a href="#bases">bases</a>.');
+        expect(html).toContain('As shown in <a href="#1-vector-spaces">Section 1</a>,');
+    });
+
+    it('should escape raw HTML', () => {
+        expect(html).toContain('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    });
+
+    it('should split the rendered page on its headings', () => {
+        const page = renderHTML('# Norms of $x^2$ & more\n\ntext\n\n# Second\n\nmore');
+
+        expect(splitDocumentSections(page, 'html').map(section => section.title))
+            .toEqual(['Lecture Notes', 'Norms of x^2 & more', 'Second']);
+    });
+});
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { detectImageMimeType, loadImage, toDataURL } from '../utils/image.utils';
+
+describe('Image Utils', () => {
+    describe('detectImageMimeType', () => {
+        it('should recognise common photo formats', () => {
+            expect(detectImageMimeType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+            expect(detectImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe1]))).toBe('image/jpeg');
+            expect(detectImageMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1'))).toBe('image/webp');
+            expect(detectImageMimeType(Buffer.from('\0\0\0\x18ftypheic', 'latin1'))).toBe('image/heic');
+        });
+
+        it('should reject unknown formats', () => {
+            expect(() => detectImageMimeType(Buffer.from('plain text')))
+                .toThrow('Unsupported image format');
+        });
+    });
+
+    describe('loadImage', () => {
+        it('should load images from buffers, data URLs and files', async () => {
+            const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-utils-'));
+            const file = path.join(dir, 'board.jpg');
+
+            try {
+                await fs.writeFile(file, jpeg);
+
+                const expected = { mimeType: 'image/jpeg', data: jpeg.toString('base64') };
+                expect(await loadImage(jpeg)).toEqual(expected);
+                expect(await loadImage(file)).toEqual(expected);
+                expect(await loadImage(toDataURL(expected))).toEqual(expected);
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('should report missing files', async () => {
+            await expect(loadImage('missing-photo.jpg'))
+                .rejects
+                .toThrow('Failed to load image');
+        });
+    });
+});
@@ -0,0 +1,168 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+// The TeX engine is replaced by writing a log, and a PDF when the source has no \grad, into the working directory
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => ({
+    execFile: mockExecFile
+}));
+
+import { readFileSync, writeFileSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LatexCompiler } from '../latex/latex.compiler';
+import { OpenAIService } from '../services/openai.service';
+import { LATEX_REPAIR_PROMPT } from '../prompts';
+import { FileProcessingError } from '../utils/error.utils';
+
+const document = [
+    '\\documentclass{article}',
+    '\\begin{document}',
+    'The gradient \\grad f points uphill.',
+    '\\end{document}'
+].join('\n');
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+function fakeEngine(binary: string, args: string[], options: { cwd: string }, callback: Function) {
+    const source = readFileSync(path.join(options.cwd, 'main.tex'), 'utf-8');
+    const line = source.split('\n').findIndex(text => text.includes('\\grad')) + 1;
+    if (line > 0) {
+        writeFileSync(path.join(options.cwd, 'main.log'), `./main.tex:${line}: Undefined control sequence.\nl.${line} The gradient \\grad\n`);
+    } else {
+        writeFileSync(path.join(options.cwd, 'main.log'), 'LaTeX Warning: There were undefined references.\n');
+        writeFileSync(path.join(options.cwd, 'main.pdf'), '%PDF-1.5');
+    }
+    callback(line > 0 ? Object.assign(new Error('exit 1'), { code: 1 }) : null, '', '');
+}
+
+describe('LatexCompiler', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+        mockExecFile.mockReset();
+        mockExecFile.mockImplementation(fakeEngine);
+        outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'latex-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should keep the PDF and report warnings', async () => {
+        const result = await new LatexCompiler({ outputDir, jobName: 'notes' })
+            .compile(document.replace('\\grad', '\\nabla'));
+
+        expect(result.success).toBe(true);
+        expect(result.pdfPath).toBe(path.join(outputDir, 'notes.pdf'));
+        expect(result.warnings).toEqual([{ message: 'LaTeX Warning: There were undefined references.' }]);
+    });
+
+    it('should run the engine sandboxed in a temporary directory', async () => {
+        await new LatexCompiler({ engine: 'latexmk', outputDir }).compile(document);
+
+        const [binary, args, options] = mockExecFile.mock.calls[0];
+        expect(binary).toBe('latexmk');
+        expect(args).toEqual(['-pdf', '-interaction=nonstopmode', '-file-line-error', '-no-shell-escape', 'main.tex']);
+        expect(options.env).toEqual(expect.objectContaining({ openin_any: 'p', openout_any: 'p', shell_escape: 'f' }));
+        await expect(fs.stat(options.cwd)).rejects.toThrow();
+    });
+
+    it('should report errors instead of throwing when the document does not compile', async () => {
+        const result = await new LatexCompiler({ outputDir }).compile(document);
+
+        expect(result.success).toBe(false);
+        expect(result.pdfPath).toBeUndefined();
+        expect(result.errors).toEqual([{ message: 'Undefined control sequence.', line: 3, context: 'The gradient \\grad' }]);
+    });
+
+    it('should explain a missing engine', async () => {
+        mockExecFile.mockImplementationOnce((binary: string, args: string[], options: object, callback: Function) => {
+            callback(Object.assign(new Error('spawn tectonic ENOENT'), { code: 'ENOENT' }), '', '');
+        });
+
+        await expect(new LatexCompiler({ engine: 'tectonic' }).compile(document))
+            .rejects.toThrow(FileProcessingError);
+    });
+});
+
+describe('compileCheck', () => {
+    let service: OpenAIService;
+    let outputDir: string;
+
+    beforeEach(async () => {
+        mockCreate.mockReset();
+        mockExecFile.mockReset();
+        mockExecFile.mockImplementation(fakeEngine);
+        service = new OpenAIService('test-api-key');
+        outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'latex-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should send the lines around an error back to the model and recompile', async () => {
+        mockCreate.mockResolvedValueOnce(reply('The gradient \\nabla f points uphill.'));
+
+        const result = await service.compileCheck(document, { outputDir, contextLines: 0 });
+
+        expect(result.success).toBe(true);
+        expect(result.content).toBe(document.replace('\\grad', '\\nabla'));
+        expect(result.pdfPath).toBe(path.join(outputDir, 'lecture-notes.pdf'));
+        expect(result.compilations).toBe(2);
+        expect(result.repairs).toBe(1);
+        expect(result.usage.totalTokens).toBe(15);
+        expect(mockCreate.mock.calls[0][0].messages).toEqual([
+            { role: 'system', content: LATEX_REPAIR_PROMPT },
+            {
+                role: 'user',
+                content: 'Compiler errors:\n- Line 3: Undefined control sequence. (while reading "The gradient \\grad")\n\n' +
+                    'Excerpt:\n3| The gradient \\grad f points uphill.'
+            }
+        ]);
+    });
+
+    it('should widen an excerpt that would cut an environment in half', async () => {
+        const theorem = [
+            '\\documentclass{article}',
+            '\\begin{document}',
+            '\\begin{theorem}[Gradient \\grad]',
+            'The gradient \\nabla f points uphill.',
+            '\\end{theorem}',
+            '\\end{document}'
+        ].join('\n');
+        mockCreate.mockResolvedValueOnce(reply('\\begin{theorem}[Gradient]\nThe gradient \\nabla f points uphill.\n\\end{theorem}'));
+
+        const result = await service.compileCheck(theorem, { outputDir, contextLines: 0 });
+
+        expect(result.success).toBe(true);
+        expect(mockCreate.mock.calls[0][0].messages[1].content).toContain(
+            'Excerpt:\n3| \\begin{theorem}[Gradient \\grad]\n4| The gradient \\nabla f points uphill.\n5| \\end{theorem}'
+        );
+    });
+
+    it('should stop after the configured number of repairs', async () => {
+        mockCreate.mockResolvedValue(reply('The gradient \\grad f points uphill.'));
+
+        const result = await service.compileCheck(document, { outputDir, maxRepairs: 2 });
+
+        expect(result.success).toBe(false);
+        expect(result.repairs).toBe(2);
+        expect(result.compilations).toBe(3);
+        expect(result.errors[0].message).toBe('Undefined control sequence.');
+    });
+});
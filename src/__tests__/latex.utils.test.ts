@@ -0,0 +1,86 @@
+import { numberLines, parseLatexLog, replaceLines } from '../utils/latex.utils';
+
+const log = `This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex)
+(./main.tex
+LaTeX2e <2022-11-01> patch level 1
+(/usr/share/texlive/texmf-dist/tex/latex/amsmath/amsmath.sty
+
+Package amsmath Warning: Unable to redefine math accent \\vec on input line 12
+(amsmath)                because of unknown font.
+
+)
+./main.tex:14: Undefined control sequence.
+l.14 The gradient \\grad
+                       f points uphill.
+?
+./main.tex:20: LaTeX Error: \\begin{itemize} on input line 17 ended by \\end{enumerate}.
+
+See the LaTeX manual or LaTeX Companion for explanation.
+Type  H <return>  for immediate help.
+ ...
+
+l.20 \\end{enumerate}
+
+./preamble.sty:3: LaTeX Error: Missing \\begin{document}.
+
+LaTeX Warning: Reference \`thm:main' on page 1 undefined on input line 25.
+
+Overfull \\hbox (12.5pt too wide) in paragraph at lines 30--32
+[]\\OT1/cmr/m/n/10 A very long line
+ [1] (./main.aux) )
+!  ==> Fatal error occurred, no output PDF file produced!
+`;
+
+describe('parseLatexLog', () => {
+    it('should read errors with their line numbers and context', () => {
+        const { errors } = parseLatexLog(log);
+
+        expect(errors).toEqual([
+            { message: 'Undefined control sequence.', line: 14, context: 'The gradient \\grad' },
+            {
+                message: 'LaTeX Error: \\begin{itemize} on input line 17 ended by \\end{enumerate}.',
+                line: 20,
+                context: '\\end{enumerate}'
+            },
+            { message: 'LaTeX Error: Missing \\begin{document}.', line: 3, file: './preamble.sty' }
+        ]);
+    });
+
+    it('should read warnings, joining package warnings that span lines', () => {
+        const { warnings } = parseLatexLog(log);
+
+        expect(warnings).toEqual([
+            {
+                message: 'Package amsmath Warning: Unable to redefine math accent \\vec on input line 12 because of unknown font.',
+                line: 12
+            },
+            { message: 'LaTeX Warning: Reference `thm:main\' on page 1 undefined on input line 25.', line: 25 },
+            { message: 'Overfull \\hbox (12.5pt too wide)', line: 30 }
+        ]);
+    });
+
+    it('should take the line of classic errors from the context', () => {
+        const { errors } = parseLatexLog('! Missing $ inserted.\n<inserted text> \n                $\nl.8 where x_\n            1 is');
+
+        expect(errors).toEqual([{ message: 'Missing $ inserted.', line: 8, context: 'where x_' }]);
+    });
+
+    it('should only report an emergency stop when nothing else explains it', () => {
+        const { errors } = parseLatexLog('./main.tex:40: Emergency stop.\n<*> main.tex\n*** (job aborted, no legal \\end found)\n');
+
+        expect(errors).toEqual([{ message: 'Emergency stop. (job aborted, no legal \\end found)', line: 40 }]);
+        expect(parseLatexLog(`${log}\n./main.tex:40: Emergency stop.`).errors).toHaveLength(3);
+    });
+});
+
+describe('numberLines and replaceLines', () => {
+    const document = 'one\ntwo\nthree\nfour';
+
+    it('should number an excerpt', () => {
+        expect(numberLines(document, 2, 3)).toBe('2| two\n3| three');
+    });
+
+    it('should replace a range of lines', () => {
+        expect(replaceLines(document, 2, 3, 'TWO\nTHREE\nmore')).toBe('one\nTWO\nTHREE\nmore\nfour');
+    });
+});
@@ -0,0 +1,140 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import { OpenAIService } from '../services/openai.service';
+import { LectureChatSession } from '../chat/lecture-chat.session';
+import { CHAT_WITH_TEACHER_PROMPT, formatPrompt } from '../prompts';
+import { estimateTokens } from '../utils/text.utils';
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+describe('LectureChatSession', () => {
+    let service: OpenAIService;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        service = new OpenAIService('test-api-key');
+    });
+
+    it('should embed the lecture in the system prompt and keep multi-turn history', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('First answer'))
+            .mockResolvedValueOnce(reply('Second answer'));
+
+        const session = LectureChatSession.fromTranscript(service, 'Today we cover $$E = mc^2$$.');
+        const first = await session.send('What is E?');
+        await session.send('And m?');
+
+        expect(first.content).toBe('First answer');
+        expect(first.usage.totalTokens).toBe(15);
+
+        const messages = mockCreate.mock.calls[1][0].messages;
+        expect(messages[0].role).toBe('system');
+        expect(messages[0].content).toContain('Today we cover $$E = mc^2$$.');
+        expect(messages.slice(1)).toEqual([
+            { role: 'user', content: 'What is E?' },
+            { role: 'assistant', content: 'First answer' },
+            { role: 'user', content: 'And m?' }
+        ]);
+    });
+
+    it('should answer /help locally', async () => {
+        const session = LectureChatSession.fromNotes(service, '# Notes');
+        const result = await session.send('/help');
+
+        expect(result.command).toBe('/help');
+        expect(result.content).toContain('/interactive');
+        expect(mockCreate).not.toHaveBeenCalled();
+        expect(session.getHistory()).toEqual([]);
+    });
+
+    it('should switch modes and forward any trailing question', async () => {
+        mockCreate.mockResolvedValueOnce(reply('Step one: gradients measure slope.'));
+
+        const session = LectureChatSession.fromTranscript(service, 'Lecture');
+        const result = await session.send('/mode2 Explain gradients');
+
+        expect(session.getMode()).toBe('interactive');
+        expect(result.mode).toBe('interactive');
+        expect(result.content).toBe('Step one: gradients measure slope.');
+        expect(session.getHistory().map(message => message.content)).toEqual([
+            '/mode2',
+            'Entering Interactive Lecture Mode. What topic from the lecture would you like me to explain?',
+            'Explain gradients',
+            'Step one: gradients measure slope.'
+        ]);
+    });
+
+    it('should clear the history on /reset', async () => {
+        mockCreate.mockResolvedValueOnce(reply('Answer'));
+
+        const session = LectureChatSession.fromTranscript(service, 'Lecture', { mode: 'interactive' });
+        await session.send('/chat');
+        await session.send('Question');
+        await session.send('/reset');
+
+        expect(session.getHistory()).toEqual([]);
+        expect(session.getMode()).toBe('interactive');
+    });
+
+    it('should drop the oldest turns that do not fit in the context budget', async () => {
+        mockCreate.mockResolvedValue(reply('x'.repeat(400)));
+
+        // Room for the system prompt, the new question and exactly one earlier exchange
+        const lecture = 'Lecture';
+        const systemTokens = estimateTokens(formatPrompt(CHAT_WITH_TEACHER_PROMPT, { transcription: lecture }));
+        const maxContextTokens = systemTokens + estimateTokens('Third question') + 150;
+        const session = LectureChatSession.fromTranscript(service, lecture, { maxContextTokens });
+        await session.send('First question');
+        await session.send('Second question');
+        await session.send('Third question');
+
+        const messages = mockCreate.mock.calls[2][0].messages;
+        expect(messages[0].role).toBe('system');
+        expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'Third question' });
+        expect(messages).toHaveLength(4);
+        expect(messages[1]).toEqual({ role: 'user', content: 'Second question' });
+        expect(session.getHistory()).toHaveLength(6);
+    });
+
+    it('should restore a serialized session', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('Answer'))
+            .mockResolvedValueOnce(reply('Follow-up answer'));
+
+        const session = LectureChatSession.fromTranscript(service, 'Lecture');
+        await session.send('/interactive');
+        await session.send('Question');
+
+        const restored = LectureChatSession.fromJSON(service, JSON.stringify(session));
+        expect(restored.getMode()).toBe('interactive');
+        expect(restored.getHistory()).toEqual(session.getHistory());
+
+        await restored.send('Follow-up');
+        const messages = mockCreate.mock.calls[1][0].messages;
+        expect(messages).toHaveLength(6);
+    });
+
+    it('should reject unsupported session versions', () => {
+        expect(() => LectureChatSession.fromJSON(service, {
+            version: 2 as 1,
+            source: 'transcript',
+            lecture: 'Lecture',
+            mode: 'chat',
+            history: [],
+            options: {}
+        })).toThrow('Unsupported chat session version: 2');
+    });
+});
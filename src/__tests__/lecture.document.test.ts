@@ -0,0 +1,202 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import { parseLectureDocument, LECTURE_DOCUMENT_SCHEMA } from '../document/lecture.document';
+import { renderDocumentLatex, renderDocumentMarkdown } from '../document/document.renderer';
+import { OpenAIService } from '../services/openai.service';
+import { LECTURE_DOCUMENT_PROMPT } from '../prompts';
+import { toGeminiSchema } from '../utils/schema.utils';
+
+const block = (fields: object) => ({
+    text: '', title: null, kind: null, proof: null, items: null, ordered: null, language: null, label: null, ...fields
+});
+
+const wire = {
+    title: 'Series & Limits',
+    sections: [
+        {
+            title: 'Convergence',
+            blocks: [
+                block({ type: 'paragraph', text: 'A series converges when its **partial sums** do.' }),
+                block({ type: 'definition', title: 'Cauchy sequence', text: 'For every $\\varepsilon > 0$ there is an $N$.' }),
+                block({ type: 'theorem', kind: 'lemma', text: 'Bounded monotone sequences converge.', proof: 'Take the supremum.', label: 'Monotone Convergence' }),
+                block({ type: 'math', text: '\\sum_{n=1}^\\infty \\frac{1}{n^2} = \\frac{\\pi^2}{6}', label: 'basel' })
+            ],
+            subsections: [
+                {
+                    title: 'Tests',
+                    blocks: [
+                        block({ type: 'example', text: 'Does $\\sum 1/n$ converge?', proof: 'No, 100% of tails diverge.' }),
+                        block({ type: 'list', ordered: true, items: ['Ratio test', 'Root test'] })
+                    ]
+                }
+            ]
+        },
+        {
+            title: 'Computation',
+            blocks: [
+                block({ type: 'theorem', kind: 'theorem', text: 'Absolute convergence implies convergence.' }),
+                block({ type: 'algorithm', title: 'Partial sums', items: ['Set $s_0 = 0$', 'Add $a_n$ to $s_{n-1}$'] }),
+                block({ type: 'code', language: 'python', text: 'sum(1 / n**2 for n in range(1, 100))' }),
+                block({ type: 'figure', title: 'Partial sums of $1/n^2$', text: 'An increasing curve approaching $\\pi^2/6$.' })
+            ],
+            subsections: []
+        }
+    ]
+};
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+describe('parseLectureDocument', () => {
+    it('should turn the flat blocks into typed blocks', () => {
+        const document = parseLectureDocument(JSON.stringify(wire));
+
+        expect(document.title).toBe('Series & Limits');
+        expect(document.sections[0].blocks[2]).toEqual({
+            type: 'theorem',
+            kind: 'lemma',
+            statement: 'Bounded monotone sequences converge.',
+            proof: 'Take the supremum.',
+            label: 'Monotone Convergence'
+        });
+        expect(document.sections[0].blocks[3]).toEqual({ type: 'math', tex: wire.sections[0].blocks[3].text, label: 'basel' });
+        expect(document.sections[0].subsections[0].blocks[0]).toEqual({ type: 'example', text: 'Does $\\sum 1/n$ converge?', solution: 'No, 100% of tails diverge.' });
+        expect(document.sections[1].blocks[1]).toEqual({ type: 'algorithm', title: 'Partial sums', steps: ['Set $s_0 = 0$', 'Add $a_n$ to $s_{n-1}$'] });
+        expect(document.sections[1].blocks[3]).toEqual({ type: 'figure', caption: 'Partial sums of $1/n^2$', description: 'An increasing curve approaching $\\pi^2/6$.' });
+    });
+
+    it('should drop lists and algorithms without items', () => {
+        const document = parseLectureDocument(JSON.stringify({
+            title: 'Series',
+            sections: [{
+                title: 'Convergence',
+                blocks: [block({ type: 'list', items: [] }), block({ type: 'paragraph', text: 'Sums.' }), block({ type: 'algorithm', title: 'Empty' })],
+                subsections: []
+            }]
+        }));
+
+        expect(document.sections[0].blocks).toEqual([{ type: 'paragraph', text: 'Sums.' }]);
+        expect(renderDocumentLatex(document)).not.toContain('\\begin{itemize}');
+    });
+
+    it('should reject responses that are not JSON or do not match the schema', () => {
+        expect(() => parseLectureDocument('\\section{Convergence}')).toThrow('Structured response is not valid JSON');
+        expect(() => parseLectureDocument(JSON.stringify({ title: 'Series', sections: [{ title: 'Convergence', blocks: [block({ type: 'table' })] }] })))
+            .toThrow(/does not match the lecture document schema: .*subsections.*\/sections\/0\/blocks\/0\/type must be equal to one of the allowed values/);
+    });
+});
+
+describe('document renderers', () => {
+    const document = parseLectureDocument(JSON.stringify(wire));
+
+    it('should render numbered Markdown with statement blockquotes', () => {
+        const markdown = renderDocumentMarkdown(document);
+
+        expect(markdown.startsWith('# Series & Limits\n\n## 1. Convergence\n\nA series converges when its **partial sums** do.')).toBe(true);
+        expect(markdown).toContain('> **Definition 1.1 (Cauchy sequence):** For every $\\varepsilon > 0$ there is an $N$.');
+        expect(markdown).toContain('> **Lemma 1.2:** Bounded monotone sequences converge.\n\n*Proof.* Take the supremum. $\\blacksquare$');
+        expect(markdown).toContain('### 1.1 Tests\n\n> **Example 1.3:** Does $\\sum 1/n$ converge?\n\n*Solution.* No, 100% of tails diverge.\n\n1. Ratio test\n2. Root test');
+        expect(markdown).toContain('## 2. Computation\n\n> **Theorem 2.1:** Absolute convergence implies convergence.');
+        expect(markdown).toContain('**Algorithm 1: Partial sums**\n\n1. Set $s_0 = 0$\n2. Add $a_n$ to $s_{n-1}$');
+        expect(markdown).toContain('```python\nsum(1 / n**2 for n in range(1, 100))\n```');
+        expect(markdown).toContain('> **Figure 1:** Partial sums of $1/n^2$\n>\n> An increasing curve approaching $\\pi^2/6$.');
+    });
+
+    it('should render a standalone LaTeX document with escaped text outside math', () => {
+        const latex = renderDocumentLatex(document);
+
+        expect(latex).toContain('\\newtheorem{lemma}[theorem]{Lemma}');
+        expect(latex).toContain('\\title{Series \\& Limits}');
+        expect(latex).toContain('A series converges when its \\textbf{partial sums} do.');
+        expect(latex).toContain('\\begin{definition}[Cauchy sequence]\nFor every $\\varepsilon > 0$ there is an $N$.\n\\end{definition}');
+        expect(latex).toContain('\\begin{lemma}\\label{thm:monotone-convergence}\nBounded monotone sequences converge.\n\\end{lemma}\n\\begin{proof}\nTake the supremum.\n\\end{proof}');
+        expect(latex).toContain('\\begin{equation}\\label{eq:basel}\n\\sum_{n=1}^\\infty \\frac{1}{n^2} = \\frac{\\pi^2}{6}\n\\end{equation}');
+        expect(latex).toContain('\\begin{proof}[Solution]\nNo, 100\\% of tails diverge.\n\\end{proof}');
+        expect(latex).toContain('\\begin{enumerate}\n  \\item Ratio test\n  \\item Root test\n\\end{enumerate}');
+        expect(latex).toContain('\\caption{Partial sums}\n\\begin{algorithmic}[1]\n  \\State Set $s_0 = 0$');
+        expect(latex).toContain('\\begin{verbatim}\nsum(1 / n**2 for n in range(1, 100))\n\\end{verbatim}');
+        expect(latex.trimEnd().endsWith('\\end{document}')).toBe(true);
+    });
+});
+
+describe('toGeminiSchema', () => {
+    it('should express nullable fields and enums the way Gemini expects', () => {
+        const schema = toGeminiSchema(LECTURE_DOCUMENT_SCHEMA) as any;
+        const blockSchema = schema.properties.sections.items.properties.blocks.items;
+
+        expect(schema.additionalProperties).toBeUndefined();
+        expect(blockSchema.properties.type).toEqual(expect.objectContaining({ type: 'string', format: 'enum' }));
+        expect(blockSchema.properties.kind).toEqual(expect.objectContaining({
+            type: 'string',
+            nullable: true,
+            format: 'enum',
+            enum: ['theorem', 'lemma', 'proposition', 'corollary']
+        }));
+        expect(blockSchema.properties.items).toEqual(expect.objectContaining({ type: 'array', nullable: true, items: { type: 'string' } }));
+    });
+});
+
+describe('generateLectureDocument', () => {
+    let service: OpenAIService;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        service = new OpenAIService('test-api-key');
+    });
+
+    it('should request the document schema and render the response', async () => {
+        mockCreate.mockResolvedValueOnce(reply(JSON.stringify(wire)));
+
+        const result = await service.generateLectureDocument('Today we look at series.', { format: 'markdown' });
+
+        const request = mockCreate.mock.calls[0][0];
+        expect(request.messages).toEqual([
+            { role: 'system', content: LECTURE_DOCUMENT_PROMPT },
+            { role: 'user', content: 'Today we look at series.' }
+        ]);
+        expect(request.response_format).toEqual({
+            type: 'json_schema',
+            json_schema: { name: 'lecture_document', schema: LECTURE_DOCUMENT_SCHEMA, strict: true }
+        });
+        expect(result.document.sections).toHaveLength(2);
+        expect(result.content).toBe(renderDocumentMarkdown(result.document));
+        expect(result.usage.totalTokens).toBe(15);
+    });
+
+    it('should convert the Markdown rendering for html', async () => {
+        mockCreate.mockResolvedValueOnce(reply(JSON.stringify(wire)));
+
+        const result = await service.generateLectureDocument('Today we look at series.', { format: 'html' });
+
+        expect(result.content).toContain('<!DOCTYPE html>');
+        expect(result.content).toContain('Lemma 1.2');
+    });
+
+    it('should not continue a document cut at the token limit', async () => {
+        const truncated = reply(JSON.stringify(wire).slice(0, 200));
+        mockCreate.mockResolvedValueOnce({ ...truncated, choices: [{ ...truncated.choices[0], finish_reason: 'length' }] });
+
+        await expect(service.generateLectureDocument('Today we look at series.'))
+            .rejects.toThrow('Structured response reached the token limit; increase maxTokens');
+        expect(mockCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject typst and empty transcripts', async () => {
+        await expect(service.generateLectureDocument('Today we look at series.', { format: 'typst' }))
+            .rejects.toThrow('Structured lecture documents cannot be rendered to typst');
+        await expect(service.generateLectureDocument('  ')).rejects.toThrow('transcript is required');
+        expect(mockCreate).not.toHaveBeenCalled();
+    });
+});
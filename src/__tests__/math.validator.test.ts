@@ -0,0 +1,127 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import {
+    applyMathRepairs,
+    extractMathSpans,
+    fixMath,
+    parseMathRepairs,
+    validateMath
+} from '../validation/math.validator';
+import { OpenAIService } from '../services/openai.service';
+import { MATH_REPAIR_PROMPT } from '../prompts';
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+describe('extractMathSpans', () => {
+    it('should find inline and display math outside code', () => {
+        const markdown = [
+            'Let $x^2$ and \\(y\\) be given.',
+            '',
+            '$$',
+            '\\int_0^1 f',
+            '$$',
+            '',
+            'Code: `$not math$` and \\[z\\].'
+        ].join('\n');
+
+        expect(extractMathSpans(markdown).map(({ tex, delimiter, displayMode, line }) => ({ tex, delimiter, displayMode, line }))).toEqual([
+            { tex: 'x^2', delimiter: '$', displayMode: false, line: 1 },
+            { tex: 'y', delimiter: '\\(', displayMode: false, line: 1 },
+            { tex: '\n\\int_0^1 f\n', delimiter: '$$', displayMode: true, line: 3 },
+            { tex: 'z', delimiter: '\\[', displayMode: true, line: 7 }
+        ]);
+    });
+});
+
+describe('validateMath', () => {
+    it('should report spans KaTeX cannot parse', () => {
+        const result = validateMath('Fine $a+b$, broken $\\frac{a}{b$ and $\\foo x$.');
+
+        expect(result.valid).toBe(false);
+        expect(result.spans).toHaveLength(3);
+        expect(result.issues.map(issue => [issue.span.tex, issue.message])).toEqual([
+            ['\\frac{a}{b', "Unexpected end of input in a macro argument, expected '}'"],
+            ['\\foo x', 'Undefined control sequence: \\foo']
+        ]);
+    });
+
+    it('should accept macros the document relies on', () => {
+        expect(validateMath('$\\R^n$', { macros: { '\\R': '\\mathbb{R}' } }).valid).toBe(true);
+        expect(validateMath('$\\Rn$').valid).toBe(false);
+    });
+});
+
+describe('fixMath', () => {
+    it('should repair what rules can fix and leave the rest', () => {
+        const markdown = 'A $\\frac{a}{b$ and $\\left( x$ and $\\begin{align}a\\end{align}$ and $\\foo$.';
+
+        const result = fixMath(markdown);
+
+        expect(result.content).toBe('A $\\frac{a}{b}$ and $\\left( x\\right.$ and $$\\begin{align}a\\end{align}$$ and $\\foo$.');
+        expect(result.repairs.map(repair => repair.repaired)).toEqual([
+            '$\\frac{a}{b}$',
+            '$\\left( x\\right.$',
+            '$$\\begin{align}a\\end{align}$$'
+        ]);
+        expect(result.repairs.every(repair => repair.method === 'mechanical')).toBe(true);
+        expect(result.issues).toEqual([expect.objectContaining({ message: 'Undefined control sequence: \\foo' })]);
+        expect(result.issues[0].span.start).toBe(result.content.indexOf('$\\foo$'));
+    });
+
+    it('should drop labels and replace commands KaTeX lacks', () => {
+        const result = fixMath('$$\\mbox{if } x \\label{eq:cases}$$');
+
+        expect(result.content).toBe('$$\\text{if } x $$');
+    });
+});
+
+describe('model repairs', () => {
+    it('should parse marked corrections', () => {
+        expect(parseMathRepairs('[[MATH 1]]\n$$\\frac{a}{b}$$\n[[MATH 3]]\nx', 3)).toEqual(['\\frac{a}{b}', undefined, 'x']);
+        expect(() => parseMathRepairs('Sorry', 1)).toThrow('[[MATH n]]');
+    });
+
+    it('should only apply corrections KaTeX accepts', () => {
+        const markdown = 'See $\\foo$ and $\\bar{$.';
+        const { issues } = validateMath(markdown);
+
+        const result = applyMathRepairs(markdown, issues, ['\\phi', '\\baz']);
+
+        expect(result.content).toBe('See $\\phi$ and $\\bar{$.');
+        expect(result.repairs).toEqual([{ line: 1, original: '$\\foo$', repaired: '$\\phi$', method: 'model' }]);
+        expect(result.issues).toHaveLength(1);
+    });
+
+    it('should send what rules cannot fix to the model', async () => {
+        mockCreate.mockReset();
+        mockCreate.mockResolvedValueOnce(reply('[[MATH 1]]\n$$\\mathcal{F}$$'));
+        const service = new OpenAIService('test-api-key');
+
+        const result = await service.repairMath('Braces $x^{2$ and a font $\\mathscrr{F}$.');
+
+        expect(result.content).toBe('Braces $x^{2}$ and a font $\\mathcal{F}$.');
+        expect(result.repairs.map(repair => repair.method)).toEqual(['mechanical', 'model']);
+        expect(result.issues).toEqual([]);
+        expect(result.usage?.totalTokens).toBe(15);
+        expect(mockCreate.mock.calls[0][0].messages).toEqual([
+            { role: 'system', content: MATH_REPAIR_PROMPT },
+            {
+                role: 'user',
+                content: '[[MATH 1]] (inline math, line 1)\n\\mathscrr{F}\nKaTeX error: Undefined control sequence: \\mathscrr'
+            }
+        ]);
+    });
+});
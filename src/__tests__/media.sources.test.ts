@@ -0,0 +1,113 @@
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => ({
+    execFile: mockExecFile
+}));
+
+import { LocalMediaSource, YtDlpMediaSource } from '../media/media.sources';
+
+const videoInfo = {
+    id: 'abc123def45',
+    title: 'Lecture 3: Eigenvalues',
+    webpage_url: 'https://www.youtube.com/watch?v=abc123def45',
+    duration: 3000,
+    subtitles: {
+        'de': [{ ext: 'vtt', url: 'https://captions.example/de.vtt' }]
+    },
+    automatic_captions: {
+        'en-US': [
+            { ext: 'json3', url: 'https://captions.example/en.json3' },
+            { ext: 'vtt', url: 'https://captions.example/en.vtt' }
+        ]
+    }
+};
+
+describe('YtDlpMediaSource', () => {
+    const url = 'https://www.youtube.com/watch?v=abc123def45';
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+        mockExecFile.mockReset();
+        mockFetch.mockReset();
+        global.fetch = mockFetch as unknown as typeof fetch;
+        mockExecFile.mockImplementation((binary: string, args: string[], options: object, callback: Function) => {
+            callback(null, args.includes('--dump-single-json') ? JSON.stringify(videoInfo) : '/tmp/out/abc123def45.mp3\n', '');
+        });
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should read the title and fetch metadata only once', async () => {
+        const source = new YtDlpMediaSource();
+        mockFetch.mockResolvedValueOnce({ ok: true, text: async () => 'WEBVTT' });
+
+        const info = await source.getInfo(url);
+        await source.getCaptions(url, ['en']);
+
+        expect(info).toEqual({ id: 'abc123def45', title: 'Lecture 3: Eigenvalues', url, durationSeconds: 3000 });
+        expect(mockExecFile).toHaveBeenCalledTimes(1);
+        expect(mockExecFile.mock.calls[0][0]).toBe('yt-dlp');
+    });
+
+    it('should prefer manual captions and fall back to automatic VTT captions', async () => {
+        mockFetch.mockResolvedValue({ ok: true, text: async () => 'WEBVTT\n\n00:01.000 --> 00:02.000\nHello' });
+
+        const german = await new YtDlpMediaSource().getCaptions(url, ['de', 'en']);
+        const english = await new YtDlpMediaSource().getCaptions(url, ['en']);
+
+        expect(german).toEqual(expect.objectContaining({ language: 'de', format: 'vtt', automatic: false }));
+        expect(english).toEqual(expect.objectContaining({ language: 'en-US', format: 'vtt', automatic: true }));
+        expect(mockFetch).toHaveBeenLastCalledWith('https://captions.example/en.vtt');
+    });
+
+    it('should skip automatic captions when disabled', async () => {
+        const source = new YtDlpMediaSource({ includeAutomaticCaptions: false });
+
+        expect(await source.getCaptions(url, ['en'])).toBeUndefined();
+        expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return the path of the downloaded audio', async () => {
+        const audioPath = await new YtDlpMediaSource({ binary: '/usr/local/bin/yt-dlp' }).downloadAudio(url, '/tmp/out');
+
+        expect(audioPath).toBe('/tmp/out/abc123def45.mp3');
+        expect(mockExecFile.mock.calls[0][1]).toEqual(expect.arrayContaining(['--extract-audio', '--audio-format', 'mp3']));
+    });
+
+    it('should report yt-dlp failures', async () => {
+        mockExecFile.mockImplementationOnce((binary: string, args: string[], options: object, callback: Function) => {
+            callback(new Error('exit code 1'), '', 'ERROR: Video unavailable');
+        });
+
+        await expect(new YtDlpMediaSource().getInfo(url))
+            .rejects
+            .toThrow('yt-dlp failed: ERROR: Video unavailable');
+    });
+});
+
+describe('LocalMediaSource', () => {
+    const source = new LocalMediaSource({
+        'https://youtu.be/local': {
+            title: 'Recorded lecture',
+            captions: { language: 'en', content: '1\n00:00:01,000 --> 00:00:02,000\nHello' }
+        }
+    });
+
+    it('should serve registered captions and detect their format', async () => {
+        expect(await source.getCaptions('https://youtu.be/local', ['en'])).toEqual({
+            language: 'en',
+            format: 'srt',
+            content: '1\n00:00:01,000 --> 00:00:02,000\nHello'
+        });
+        expect(await source.getCaptions('https://youtu.be/local', ['fr'])).toBeUndefined();
+    });
+
+    it('should reject unknown URLs', async () => {
+        await expect(source.getInfo('https://youtu.be/other'))
+            .rejects
+            .toThrow('No local media registered for https://youtu.be/other');
+    });
+});
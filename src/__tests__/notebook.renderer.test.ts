@@ -0,0 +1,110 @@
+import { renderNotebook } from '../notebook/notebook.renderer';
+import { Notebook } from '../types/notebook.types';
+
+const notes = [
+    '# Root Finding',
+    '',
+    'Newton\'s method solves $f(x) = 0$ by iterating',
+    '',
+    '$$',
+    'x_{k+1} = x_k - \\frac{f(x_k)}{f\'(x_k)}',
+    '$$',
+    '',
+    '```',
+    'repeat until |f(x)| < tol',
+    '    x <- x - f(x) / df(x)',
+    '```',
+    '',
+    '```py',
+    'def newton(f, df, x, tol=1e-10):',
+    '    while abs(f(x)) > tol:',
+    '        x -= f(x) / df(x)',
+    '    return x',
+    '```',
+    '',
+    '```mermaid',
+    'graph LR; guess --> update --> guess',
+    '```',
+    '',
+    '## Exercises',
+    '',
+    '1. Apply `newton` to $x^2 - 2$.',
+    '2. Show that the convergence is quadratic.',
+    '',
+    '# Summary',
+    '',
+    'Done.'
+].join('\n');
+
+describe('renderNotebook', () => {
+    const notebook: Notebook = JSON.parse(renderNotebook(notes));
+    const sources = notebook.cells.map(cell => [cell.cell_type, cell.source.join('')]);
+
+    it('should write nbformat v4 with a kernel for the language of the code', () => {
+        expect(notebook.nbformat).toBe(4);
+        expect(notebook.nbformat_minor).toBe(5);
+        expect(notebook.metadata).toEqual({
+            kernelspec: { display_name: 'Python 3', language: 'python', name: 'python3' },
+            language_info: { name: 'python' }
+        });
+        expect(new Set(notebook.cells.map(cell => cell.id)).size).toBe(notebook.cells.length);
+        expect(notebook.cells.every(cell => /^[a-zA-Z0-9-_]{1,64}$/.test(cell.id))).toBe(true);
+    });
+
+    it('should keep prose and math in Markdown cells and code in code cells', () => {
+        expect(sources.slice(0, 4)).toEqual([
+            ['markdown', '# Root Finding\n\nNewton\'s method solves $f(x) = 0$ by iterating\n\n$$\nx_{k+1} = x_k - \\frac{f(x_k)}{f\'(x_k)}\n$$'],
+            ['code', 'repeat until |f(x)| < tol\n    x <- x - f(x) / df(x)'],
+            ['code', 'def newton(f, df, x, tol=1e-10):\n    while abs(f(x)) > tol:\n        x -= f(x) / df(x)\n    return x'],
+            ['markdown', '```mermaid\ngraph LR; guess --> update --> guess\n```']
+        ]);
+        expect(notebook.cells[1]).toEqual(expect.objectContaining({ metadata: { language: 'text' }, outputs: [], execution_count: null }));
+        expect(notebook.cells[2].metadata).toEqual({ language: 'python' });
+        expect(notebook.cells[2].source[0]).toBe('def newton(f, df, x, tol=1e-10):\n');
+    });
+
+    it('should follow every exercise with an empty cell for the answer', () => {
+        expect(sources.slice(4)).toEqual([
+            ['markdown', '## Exercises'],
+            ['markdown', '1. Apply `newton` to $x^2 - 2$.'],
+            ['code', ''],
+            ['markdown', '2. Show that the convergence is quadratic.'],
+            ['code', ''],
+            ['markdown', '# Summary\n\nDone.']
+        ]);
+        expect(notebook.cells[6].metadata).toEqual({ language: 'python', tags: ['exercise'] });
+    });
+
+    it('should give exercises under their own headings one answer cell each', () => {
+        const cells: Notebook['cells'] = JSON.parse(renderNotebook([
+            '## Exercises',
+            'Try these.',
+            '### Exercise 1',
+            'Invert a matrix.',
+            '### Exercise 2',
+            '```julia',
+            'A = rand(3, 3)',
+            '```'
+        ].join('\n'))).cells;
+
+        expect(cells.map(cell => cell.cell_type === 'code' && cell.source.length === 0 ? 'answer' : cell.source.join(''))).toEqual([
+            '## Exercises\n\nTry these.',
+            '### Exercise 1\n\nInvert a matrix.',
+            'answer',
+            '### Exercise 2',
+            'A = rand(3, 3)',
+            'answer'
+        ]);
+    });
+
+    it('should use the configured language and kernel', () => {
+        const notebook: Notebook = JSON.parse(renderNotebook('```r\nx <- 1\n```', {
+            language: 'jl',
+            kernel: { name: 'julia-1.10', displayName: 'Julia 1.10' }
+        }));
+
+        expect(notebook.metadata.kernelspec).toEqual({ display_name: 'Julia 1.10', language: 'julia', name: 'julia-1.10' });
+        expect(notebook.cells[0].metadata).toEqual({ language: 'r' });
+        expect(JSON.parse(renderNotebook('```r\nx <- 1\n```')).metadata.kernelspec.name).toBe('ir');
+    });
+});
@@ -55,11 +55,17 @@ const mockIncompleteResponse = {
 
 // Mock OpenAI class
 const mockCreate = jest.fn();
+const mockTranscriptionsCreate = jest.fn();
 const mockOpenAI = jest.fn().mockImplementation(() => ({
     chat: {
         completions: {
             create: mockCreate
         }
+    },
+    audio: {
+        transcriptions: {
+            create: mockTranscriptionsCreate
+        }
     }
 }));
 
@@ -68,8 +74,34 @@ jest.mock('openai', () => ({
     OpenAI: mockOpenAI
 }));
 
+const mockExtractPDFPages = jest.fn();
+
+jest.mock('../utils/pdf.utils', () => ({
+    ...jest.requireActual('../utils/pdf.utils'),
+    extractPDFPages: mockExtractPDFPages
+}));
+
+// ffmpeg is replaced by writing two empty chunk files into the output directory
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => ({
+    execFile: mockExecFile
+}));
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { OpenAIService } from '../services/openai.service';
+import { LocalMediaSource } from '../media/media.sources';
 import { LectureFormat } from '../types/lecture.types';
+import {
+    CONTINUE_PARTIAL_RESPONSE,
+    SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
+    SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+    SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST,
+    DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN,
+    TYPST_PREAMBLE
+} from '../prompts';
 
 describe('OpenAIService', () => {
     let service: OpenAIService;
@@ -115,6 +147,60 @@ describe('OpenAIService', () => {
             const content = await service.generateFromTranscript('Test transcript', 'markdown' as LectureFormat);
             expect(content).toBe('Test content');
         });
+
+        it('should write Markdown and render it as a page for the html format', async () => {
+            mockCreate.mockResolvedValueOnce({
+                ...mockBaseResponse,
+                choices: [{ message: { content: '```markdown\n# Fourier Series\n\nLet $f$ be periodic.\n```' }, finish_reason: 'stop' }]
+            });
+
+            const content = await service.generateFromTranscript('Test transcript', 'html');
+
+            expect(mockCreate.mock.calls[0][0].messages[0].content).toBe(SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN);
+            expect(content).toContain('<title>Fourier Series</title>');
+            expect(content).toContain('<annotation encoding="application/x-tex">f</annotation>');
+        });
+
+        it('should write Markdown and convert it to a notebook for the ipynb format', async () => {
+            mockCreate.mockResolvedValueOnce({
+                ...mockBaseResponse,
+                choices: [{ message: { content: '# Loops\n\n```python\nfor i in range(3):\n    print(i)\n```' }, finish_reason: 'stop' }]
+            });
+
+            const notebook = JSON.parse(await service.generateFromTranscript('Test transcript', 'ipynb'));
+
+            expect(mockCreate.mock.calls[0][0].messages[0].content).toBe(SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN);
+            expect(notebook.cells.map((cell: { cell_type: string }) => cell.cell_type)).toEqual(['markdown', 'code']);
+        });
+
+        it('should use the Typst prompt for the typst format', async () => {
+            mockCreate.mockResolvedValueOnce(mockBaseResponse);
+
+            await service.generateFromTranscript('Test transcript', 'typst');
+
+            expect(mockCreate.mock.calls[0][0].messages[0].content).toBe(SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST);
+            expect(SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST).toContain(TYPST_PREAMBLE);
+        });
+    });
+
+    describe('timestamped transcripts', () => {
+        it('should send segments with their start times and speakers', async () => {
+            await service.generateFromTranscript({
+                segments: [
+                    { start: 0, end: 4, speaker: 'Prof. Chen', text: 'Today we cover Fourier series.' },
+                    { start: 65, end: 70, text: 'Any periodic function can be decomposed.' }
+                ]
+            }, 'markdown');
+
+            expect(mockCreate.mock.calls[0][0].messages[1].content)
+                .toBe('[00:00:00] Prof. Chen: Today we cover Fourier series.\n[00:01:05] Any periodic function can be decomposed.');
+        });
+
+        it('should reject transcripts without segments', async () => {
+            await expect(service.generateScaffold({ segments: [] }))
+                .rejects
+                .toThrow('transcript is required');
+        });
     });
 
     describe('completion handling', () => {
@@ -128,6 +214,19 @@ describe('OpenAIService', () => {
             expect(mockCreate).toHaveBeenCalledTimes(2);
         });
 
+        it('should drop the lines a continuation repeats', async () => {
+            mockCreate
+                .mockResolvedValueOnce({
+                    choices: [{ message: { content: '\\begin{theorem}\nEvery bounded monotone sequence converges.' }, finish_reason: 'length' }]
+                })
+                .mockResolvedValueOnce({
+                    choices: [{ message: { content: 'Every bounded monotone sequence converges.\n\\end{theorem}' }, finish_reason: 'stop' }]
+                });
+
+            const content = await service.generateFromTranscript('Test content', 'latex');
+            expect(content).toBe('\\begin{theorem}\nEvery bounded monotone sequence converges.\n\\end{theorem}');
+        });
+
         it('should detect and complete incomplete LaTeX environments', async () => {
             mockCreate
                 .mockResolvedValueOnce(mockIncompleteLatexResponse)
@@ -147,6 +246,18 @@ describe('OpenAIService', () => {
             expect(mockCreate).toHaveBeenCalledTimes(3); // MAX_ATTEMPTS
         });
 
+        it('should throw when the last attempt stops at the token limit on complete-looking text', async () => {
+            mockCreate.mockResolvedValue({
+                choices: [{ message: { content: 'Entropy never decreases.' }, finish_reason: 'length' }],
+                usage: { prompt_tokens: 100, completion_tokens: 200 }
+            });
+
+            await expect(service.generateFromTranscriptDetailed('Test content', 'markdown'))
+                .rejects
+                .toThrow('Failed to generate complete response after maximum attempts');
+            expect(mockCreate).toHaveBeenCalledTimes(3);
+        });
+
         it('should handle response with stop finish_reason', async () => {
             const response = {
                 choices: [{ 
@@ -228,10 +339,14 @@ describe('OpenAIService', () => {
         it('should detect and fix incomplete LaTeX and code blocks', async () => {
             mockCreate
                 .mockResolvedValueOnce(mockIncompleteResponse)
-                .mockResolvedValueOnce({ choices: [{ message: { content: '\\end{theorem}\n```' } }] });
+                .mockResolvedValueOnce({ choices: [{ message: { content: '```\n\\end{theorem}' } }] });
 
             const notes = await service.generateLectureNotes('Test Topic');
             expect(mockCreate).toHaveBeenCalledTimes(2);
+            expect(mockCreate.mock.calls[1][0].messages.at(-1).content).toContain(
+                '- ``` (Code block opened on line 3 is not closed)\n' +
+                '- \\end{theorem} (\\begin{theorem} on line 1 is not closed)'
+            );
             expect(notes.content).toContain('\\begin{theorem}');
             expect(notes.content).toContain('\\end{theorem}');
             expect(notes.content).toContain('```javascript');
@@ -248,6 +363,496 @@ describe('OpenAIService', () => {
         });
     });
 
+    describe('generation results', () => {
+        it('should report usage summed across continuation attempts', async () => {
+            mockCreate
+                .mockResolvedValueOnce({ ...mockTruncatedResponse, model: 'gpt-4o-2024-08-06' })
+                .mockResolvedValueOnce({ ...mockContinuationResponse, model: 'gpt-4o-2024-08-06' });
+
+            const result = await service.generateFromTranscriptDetailed('Test transcript');
+
+            expect(result.content).toBe('Truncated content...\nCompleted content');
+            expect(result.model).toBe('gpt-4o-2024-08-06');
+            expect(mockCreate.mock.calls[1][0].messages).toEqual([
+                { role: 'system', content: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS },
+                { role: 'user', content: 'Test transcript' },
+                { role: 'assistant', content: 'Truncated content...' },
+                { role: 'user', content: CONTINUE_PARTIAL_RESPONSE }
+            ]);
+            expect(result.usage).toEqual({ promptTokens: 150, completionTokens: 300, totalTokens: 450 });
+            expect(result.attempts.map(attempt => attempt.finishReason)).toEqual(['length', 'stop']);
+            expect(result.continuations).toBe(1);
+            expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+            expect(result.warnings).toEqual([
+                'Attempt 1: Output truncated at the token limit',
+                'Attempt 1: Response ends with truncation indicator "..."'
+            ]);
+        });
+
+        it('should fill lecture notes metadata with real token usage', async () => {
+            mockCreate.mockResolvedValueOnce(mockBaseResponse);
+
+            const notes = await service.generateLectureNotes('Test Topic');
+
+            expect(notes.metadata).toEqual(expect.objectContaining({
+                promptTokens: 100,
+                completionTokens: 200,
+                totalTokens: 300,
+                continuations: 0,
+                warnings: []
+            }));
+        });
+
+        it('should total usage across the buildLectureNotes pipeline', async () => {
+            mockCreate
+                .mockResolvedValueOnce({ ...mockBaseResponse, choices: [{ message: { content: '# Introduction' }, finish_reason: 'stop' }] })
+                .mockResolvedValueOnce(mockBaseResponse)
+                .mockResolvedValueOnce(mockContinuationResponse);
+
+            const result = await service.buildLectureNotes('Test transcript', { format: 'markdown' });
+
+            expect(result.sections[0].usage.totalTokens).toBe(300);
+            expect(result.usage).toEqual({ promptTokens: 250, completionTokens: 500, totalTokens: 750 });
+        });
+    });
+
+    describe('streamFromTranscript', () => {
+        const streamOf = (deltas: string[], finishReason: string) => ({
+            async *[Symbol.asyncIterator]() {
+                for (const [index, content] of deltas.entries()) {
+                    yield {
+                        choices: [{
+                            delta: { content },
+                            finish_reason: index === deltas.length - 1 ? finishReason : null
+                        }]
+                    };
+                }
+            }
+        });
+
+        const collect = async (stream: AsyncIterable<string>) => {
+            const deltas: string[] = [];
+            for await (const delta of stream) {
+                deltas.push(delta);
+            }
+            return deltas;
+        };
+
+        it('should yield text deltas as they arrive', async () => {
+            mockCreate.mockResolvedValueOnce(streamOf(['Hello', ' world'], 'stop'));
+
+            const deltas = await collect(service.streamFromTranscript('Test transcript', 'markdown'));
+
+            expect(deltas).toEqual(['Hello', ' world']);
+            expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+        });
+
+        it('should continue streaming when the output is truncated', async () => {
+            mockCreate
+                .mockResolvedValueOnce(streamOf(['\\begin{theorem}', ' Partial'], 'length'))
+                .mockResolvedValueOnce(streamOf(['\\end{theorem}'], 'stop'));
+
+            const deltas = await collect(service.streamFromTranscript('Test transcript'));
+
+            expect(deltas.join('')).toBe('\\begin{theorem} Partial\n\\end{theorem}');
+            expect(mockCreate).toHaveBeenCalledTimes(2);
+        });
+
+        it('should validate input before requesting a stream', async () => {
+            await expect(collect(service.streamFromTranscript(''))).rejects.toThrow('transcript is required');
+            await expect(collect(service.streamFromTranscript('Test transcript', 'html'))).rejects.toThrow('cannot be streamed');
+            await expect(collect(service.streamFromTranscript('Test transcript', 'ipynb'))).rejects.toThrow('cannot be streamed');
+            expect(mockCreate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('buildLectureNotes', () => {
+        const reply = (content: string) => ({
+            choices: [{ message: { content }, finish_reason: 'stop' }]
+        });
+
+        it('should scaffold, refine each section and run the final refinement', async () => {
+            mockCreate
+                .mockResolvedValueOnce(reply('\\section{Introduction}\n\\subsection{Motivation}\n\\section{Conclusion}'))
+                .mockResolvedValueOnce(reply('\\section{Introduction}\nRefined intro'))
+                .mockResolvedValueOnce(reply('```latex\n\\section{Conclusion}\nRefined conclusion\n```'))
+                .mockResolvedValueOnce(reply('Final document'));
+
+            const result = await service.buildLectureNotes('Test transcript');
+
+            expect(mockCreate).toHaveBeenCalledTimes(4);
+            expect(result.sections.map(section => section.title)).toEqual(['Introduction', 'Conclusion']);
+            expect(result.sections[0].outline).toBe('\\section{Introduction}\n\\subsection{Motivation}');
+            expect(result.sections[1].content).toBe('\\section{Conclusion}\nRefined conclusion');
+            expect(result.draft).toContain('\\begin{document}');
+            expect(result.draft).toContain('Refined intro');
+            expect(result.content).toBe('Final document');
+
+            const finalMessages = mockCreate.mock.calls[3][0].messages;
+            expect(finalMessages[0].content).toContain('Refined conclusion');
+            expect(finalMessages[1].content).toBe('final refined complete document');
+        });
+
+        it('should skip the final refinement when disabled', async () => {
+            mockCreate
+                .mockResolvedValueOnce(reply('# Introduction\n# Conclusion'))
+                .mockResolvedValueOnce(reply('# Introduction\nIntro'))
+                .mockResolvedValueOnce(reply('# Conclusion\nOutro'));
+
+            const result = await service.buildLectureNotes('Test transcript', {
+                format: 'markdown',
+                finalRefinement: false
+            });
+
+            expect(mockCreate).toHaveBeenCalledTimes(3);
+            expect(result.content).toBe('# Introduction\nIntro\n\n# Conclusion\nOutro');
+            expect(result.content).toBe(result.draft);
+        });
+
+        it('should build html notes from Markdown and render only the result', async () => {
+            mockCreate
+                .mockResolvedValueOnce(reply('# Introduction\n# Conclusion'))
+                .mockResolvedValueOnce(reply('# Introduction\nIntro'))
+                .mockResolvedValueOnce(reply('# Conclusion\nOutro'));
+
+            const result = await service.buildLectureNotes('Test transcript', {
+                format: 'html',
+                finalRefinement: false,
+                html: { title: 'Week 1' }
+            });
+
+            expect(result.format).toBe('html');
+            expect(result.draft).toBe('# Introduction\nIntro\n\n# Conclusion\nOutro');
+            expect(result.content).toContain('<title>Week 1</title>');
+            expect(result.content).toContain('<h1 id="introduction">Introduction</h1>\n<p>Intro</p>');
+        });
+
+        it('should build a notebook from the refined Markdown sections', async () => {
+            mockCreate
+                .mockResolvedValueOnce(reply('# Introduction\n# Exercises'))
+                .mockResolvedValueOnce(reply('# Introduction\n```python\nprint(1)\n```'))
+                .mockResolvedValueOnce(reply('# Exercises\n1. Print 2.'));
+
+            const result = await service.buildLectureNotes('Test transcript', { format: 'ipynb', finalRefinement: false });
+            const cells = JSON.parse(result.content).cells;
+
+            expect(mockCreate.mock.calls[0][0].messages[0].content).toBe(DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN);
+            expect(result.draft).toBe('# Introduction\n```python\nprint(1)\n```\n\n# Exercises\n1. Print 2.');
+            expect(cells.map((cell: { source: string[] }) => cell.source.join(''))).toEqual([
+                '# Introduction', 'print(1)', '# Exercises', '1. Print 2.', ''
+            ]);
+        });
+
+        it('should fail when the scaffold has no headings', async () => {
+            mockCreate.mockResolvedValueOnce(reply('No headings here'));
+
+            await expect(service.buildLectureNotes('Test transcript'))
+                .rejects
+                .toThrow('Generated scaffold does not contain any section headings');
+        });
+    });
+
+    describe('augmentFromPDFFile', () => {
+        const reply = (content: string) => ({
+            choices: [{ message: { content }, finish_reason: 'stop' }]
+        });
+
+        const pages = [
+            { pageNumber: 1, headings: ['Vectors'], text: '## Vectors\n' + 'Vectors have direction. '.repeat(20) },
+            { pageNumber: 2, headings: ['Matrices'], text: '## Matrices\n' + 'Matrices are arrays. '.repeat(20) }
+        ];
+
+        beforeEach(() => {
+            mockExtractPDFPages.mockReset();
+            mockExtractPDFPages.mockResolvedValue(pages);
+        });
+
+        it('should send the extracted pages with the course context', async () => {
+            mockCreate.mockResolvedValueOnce(reply('# Vectors and Matrices'));
+
+            const result = await service.augmentFromPDFFile({
+                pdfPath: 'lesson.pdf',
+                format: 'markdown',
+                additionalContext: { courseTitle: 'Linear Algebra', level: 'undergraduate' }
+            });
+
+            expect(result).toBe('# Vectors and Matrices');
+            expect(mockExtractPDFPages).toHaveBeenCalledWith('lesson.pdf');
+
+            const userMessage = mockCreate.mock.calls[0][0].messages[1].content;
+            expect(userMessage).toContain('- Course: Linear Algebra');
+            expect(userMessage).toContain('- Level: undergraduate');
+            expect(userMessage).toContain('[Page 1]\n## Vectors');
+            expect(userMessage).toContain('[Page 2]\n## Matrices');
+        });
+
+        it('should process large PDFs in page-aligned parts', async () => {
+            mockCreate
+                .mockResolvedValueOnce(reply('# Vectors\nPart one'))
+                .mockResolvedValueOnce(reply('```markdown\n# Matrices\nPart two\n```'));
+
+            const result = await service.augmentFromPDFFileDetailed({
+                pdfPath: 'lesson.pdf',
+                format: 'markdown',
+                maxChunkTokens: 150
+            });
+
+            expect(mockCreate).toHaveBeenCalledTimes(2);
+            expect(mockCreate.mock.calls[1][0].messages[1].content)
+                .toContain('This is part 2 of 2 of the notes (pages 2-2)');
+            expect(result.content).toBe('# Vectors\nPart one\n\n# Matrices\nPart two');
+            expect(result.attempts).toHaveLength(2);
+        });
+
+        it('should reject files that are not PDFs', async () => {
+            await expect(service.augmentFromPDFFile({ pdfPath: 'lesson.txt' }))
+                .rejects
+                .toThrow('pdfPath must be a PDF file');
+        });
+
+        it('should reject PDFs without extractable text', async () => {
+            mockExtractPDFPages.mockResolvedValueOnce([{ pageNumber: 1, headings: [], text: '' }]);
+
+            await expect(service.augmentFromPDFFile({ pdfPath: 'scan.pdf' }))
+                .rejects
+                .toThrow('PDF contains no extractable text');
+        });
+    });
+
+    describe('transcribeHandwrittenNotes', () => {
+        const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+        it('should send the photos as image content parts', async () => {
+            mockCreate.mockResolvedValueOnce({
+                choices: [{ message: { content: 'Let me show you this formula.' }, finish_reason: 'stop' }]
+            });
+
+            const transcript = await service.transcribeHandwrittenNotes([png]);
+
+            expect(transcript).toBe('Let me show you this formula.');
+            const [system, user] = mockCreate.mock.calls[0][0].messages;
+            expect(system.content).toContain('convert these handwritten notes');
+            expect(user.content).toEqual([
+                { type: 'text', text: 'Transcribe the 1 attached page(s) of notes in order.' },
+                { type: 'image_url', image_url: { url: `data:image/png;base64,${png.toString('base64')}`, detail: 'high' } }
+            ]);
+        });
+
+        it('should reject HEIC photos', async () => {
+            const heic = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypheic')]);
+
+            await expect(service.transcribeHandwrittenNotes([heic]))
+                .rejects
+                .toThrow('OpenAI does not accept HEIC images');
+            expect(mockCreate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('repairTranscript', () => {
+        const reply = (content: string) => ({
+            choices: [{ message: { content }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 }
+        });
+
+        it('should fill marked gaps from the source material', async () => {
+            mockCreate.mockResolvedValueOnce(reply('{"1": "the Jacobian matrix"}'));
+
+            const result = await service.repairTranscript(
+                'Next we compute [inaudible] of the map.',
+                'Slide 4: The Jacobian matrix collects all first-order partial derivatives.'
+            );
+
+            expect(result.transcript).toBe('Next we compute the Jacobian matrix of the map.');
+            expect(result.synthesized).toEqual([expect.objectContaining({
+                text: 'the Jacobian matrix',
+                start: 16,
+                end: 35,
+                synthesized: true
+            })]);
+            expect(result.usage.totalTokens).toBe(100);
+
+            const [system, user] = mockCreate.mock.calls[0][0].messages;
+            expect(system.content).toContain('partial lecture transcription');
+            expect(user.content).toContain('Source material:\nSlide 4');
+            expect(user.content).toContain('Next we compute [[GAP 1]] of the map.');
+        });
+
+        it('should attach uploaded source files', async () => {
+            mockCreate.mockResolvedValueOnce(reply('{"1": "the Jacobian"}'));
+
+            await service.repairTranscript('We compute [inaudible].', {
+                fileId: 'file-123',
+                mimeType: 'application/pdf',
+                name: 'slides.pdf'
+            });
+
+            const user = mockCreate.mock.calls[0][0].messages[1];
+            expect(user.content[0].text).toContain('The source material is attached.');
+            expect(user.content[1]).toEqual({ type: 'file', file: { file_id: 'file-123' } });
+        });
+
+        it('should not call the model when there are no gaps', async () => {
+            const result = await service.repairTranscript('A complete transcript.', 'Notes');
+
+            expect(result.transcript).toBe('A complete transcript.');
+            expect(result.gaps).toEqual([]);
+            expect(mockCreate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('processAudioFile', () => {
+        let chunkDir: string;
+
+        beforeEach(() => {
+            mockTranscriptionsCreate.mockReset();
+            mockExecFile.mockReset();
+            mockExecFile.mockImplementation((file: string, args: string[], callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+                chunkDir = path.dirname(args[args.length - 1]);
+                Promise.all(['chunk_001.mp3', 'chunk_000.mp3'].map(name => fs.writeFile(`${chunkDir}/${name}`, '')))
+                    .then(() => callback(null, '', ''));
+            });
+        });
+
+        it('should transcribe each chunk with verbose_json and shift segment timestamps', async () => {
+            mockTranscriptionsCreate
+                .mockResolvedValueOnce({
+                    text: 'Welcome to thermodynamics. Entropy always increases.',
+                    language: 'english',
+                    duration: 600,
+                    segments: [
+                        { start: 0, end: 4.5, text: ' Welcome to thermodynamics.' },
+                        { start: 4.5, end: 9, text: ' Entropy always increases.' }
+                    ]
+                })
+                .mockResolvedValueOnce({
+                    text: 'Next, the Carnot cycle.',
+                    language: 'english',
+                    duration: 120,
+                    segments: [{ start: 2, end: 5, text: ' Next, the Carnot cycle.' }]
+                });
+
+            const transcript = await service.processAudioFile({
+                audioPath: 'lecture.wav',
+                language: 'en',
+                prompt: 'Carnot, enthalpy, Boltzmann'
+            });
+
+            expect(transcript).toEqual({
+                text: 'Welcome to thermodynamics. Entropy always increases. Next, the Carnot cycle.',
+                language: 'english',
+                durationSeconds: 720,
+                segments: [
+                    { start: 0, end: 4.5, text: 'Welcome to thermodynamics.' },
+                    { start: 4.5, end: 9, text: 'Entropy always increases.' },
+                    { start: 602, end: 605, text: 'Next, the Carnot cycle.' }
+                ]
+            });
+
+            const [first, second] = mockTranscriptionsCreate.mock.calls.map(call => call[0]);
+            expect(first).toEqual(expect.objectContaining({
+                model: 'whisper-1',
+                language: 'en',
+                prompt: 'Carnot, enthalpy, Boltzmann',
+                response_format: 'verbose_json',
+                timestamp_granularities: ['segment']
+            }));
+            expect(first.file.path).toMatch(/chunk_000\.mp3$/);
+            expect(second.prompt).toBe('Carnot, enthalpy, Boltzmann\nWelcome to thermodynamics. Entropy always increases.');
+            await expect(fs.access(chunkDir)).rejects.toThrow();
+        });
+
+        it('should pass the path to ffmpeg as an argument and remove the chunks when it fails', async () => {
+            mockExecFile.mockImplementation((file: string, args: string[], callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+                chunkDir = path.dirname(args[args.length - 1]);
+                callback(new Error('exit code 1'), '', 'Invalid data found when processing input');
+            });
+
+            await expect(service.processAudioFile({ audioPath: 'lecture "$(rm -rf ~)".wav' }))
+                .rejects
+                .toThrow('Error splitting audio: Invalid data found when processing input');
+            expect(mockExecFile.mock.calls[0][0]).toBe('ffmpeg');
+            expect(mockExecFile.mock.calls[0][1].slice(0, 2)).toEqual(['-i', 'lecture "$(rm -rf ~)".wav']);
+            await expect(fs.access(chunkDir)).rejects.toThrow();
+        });
+
+        it('should reject invalid language codes', async () => {
+            await expect(service.processAudioFile({ audioPath: 'lecture.wav', language: 'English' }))
+                .rejects
+                .toThrow('language must be an ISO-639-1 code');
+            expect(mockExecFile).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('processYouTubeURL', () => {
+        const url = 'https://www.youtube.com/watch?v=dQw4w9WgXcQ';
+        let mediaDir: string;
+
+        beforeEach(async () => {
+            mockTranscriptionsCreate.mockReset();
+            mockExecFile.mockReset();
+            mediaDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-test-'));
+        });
+
+        afterEach(async () => {
+            await fs.rm(mediaDir, { recursive: true, force: true });
+        });
+
+        it('should use an existing caption track and the video title', async () => {
+            const mediaSource = new LocalMediaSource({
+                [url]: {
+                    title: 'MIT 18.06 Lecture 1: The Geometry of Linear Equations',
+                    captions: {
+                        language: 'en',
+                        content: 'WEBVTT\n\n00:00:01.000 --> 00:00:04.000\n<v Gilbert Strang>Okay, this is linear algebra.</v>'
+                    }
+                }
+            });
+            const mediaService = new OpenAIService({ apiKey: 'test-api-key', mediaSource });
+
+            const notes = await mediaService.processYouTubeURL(url, 'markdown');
+
+            expect(notes.topic).toBe('MIT 18.06 Lecture 1: The Geometry of Linear Equations');
+            expect(notes.content).toBe('Test content');
+            expect(mockCreate.mock.calls[0][0].messages[1].content)
+                .toBe('[00:00:01] Gilbert Strang: Okay, this is linear algebra.');
+            expect(mockTranscriptionsCreate).not.toHaveBeenCalled();
+        });
+
+        it('should transcribe the audio when there are no captions in the requested language', async () => {
+            const audioPath = path.join(mediaDir, 'lecture.mp3');
+            await fs.writeFile(audioPath, '');
+            mockExecFile.mockImplementation((file: string, args: string[], callback: (error: Error | null, stdout: string, stderr: string) => void) => {
+                const chunkDir = path.dirname(args[args.length - 1]);
+                fs.writeFile(`${chunkDir}/chunk_000.mp3`, '').then(() => callback(null, '', ''));
+            });
+            mockTranscriptionsCreate.mockResolvedValueOnce({
+                text: 'Welcome to the course.',
+                language: 'english',
+                duration: 10,
+                segments: [{ start: 0, end: 2, text: ' Welcome to the course.' }]
+            });
+
+            const mediaService = new OpenAIService({
+                apiKey: 'test-api-key',
+                mediaSource: new LocalMediaSource({
+                    [url]: { title: 'Lecture 2', audioPath, captions: { language: 'fr', content: 'WEBVTT\n\n00:01.000 --> 00:02.000\nBonjour' } }
+                })
+            });
+
+            const notes = await mediaService.processYouTubeURL(url, 'latex', { languages: ['en'], transcription: { language: 'en' } });
+
+            expect(notes.topic).toBe('Lecture 2');
+            expect(mockTranscriptionsCreate.mock.calls[0][0].language).toBe('en');
+            expect(mockCreate.mock.calls[0][0].messages[1].content).toBe('[00:00:00] Welcome to the course.');
+        });
+
+        it('should reject URLs that are not YouTube links', async () => {
+            await expect(service.processYouTubeURL('https://example.com/video'))
+                .rejects
+                .toThrow('Invalid YouTube URL format');
+        });
+    });
+
     describe('error handling', () => {
         it('should throw error when OpenAI fails to generate content', async () => {
             mockCreate.mockResolvedValue({ choices: [] });
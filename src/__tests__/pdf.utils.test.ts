@@ -0,0 +1,95 @@
+import { extractPDFPages, formatPDFPages, chunkPDFPages } from '../utils/pdf.utils';
+import { PDFPage } from '../types/lecture.types';
+
+// Builds a minimal PDF whose pages each hold a 24pt heading and a line of 12pt body text
+function buildPDF(pages: Array<{ heading: string; body: string }>): Buffer {
+    const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+
+    for (const [i, page] of pages.entries()) {
+        const stream = `BT /F1 24 Tf 72 720 Td (${page.heading}) Tj ET\nBT /F1 12 Tf 72 680 Td (${page.body}) Tj ET`;
+        objects.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+            `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+        );
+    }
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+}
+
+describe('PDF Utils', () => {
+    describe('extractPDFPages', () => {
+        it('should keep page numbers and mark larger text as headings', async () => {
+            const pages = await extractPDFPages(buildPDF([
+                { heading: 'Vectors', body: 'A vector has a magnitude and a direction.' },
+                { heading: 'Matrices', body: 'A matrix is a rectangular array of numbers.' }
+            ]));
+
+            expect(pages).toEqual([
+                { pageNumber: 1, headings: ['Vectors'], text: '## Vectors\nA vector has a magnitude and a direction.' },
+                { pageNumber: 2, headings: ['Matrices'], text: '## Matrices\nA matrix is a rectangular array of numbers.' }
+            ]);
+        });
+
+        it('should read a Buffer that is a view into a larger one', async () => {
+            const pdf = buildPDF([
+                { heading: 'Vectors', body: 'A vector has a magnitude and a direction.' },
+                { heading: 'Matrices', body: 'A matrix is a rectangular array of numbers.' }
+            ]);
+
+            const pages = await extractPDFPages(Buffer.concat([Buffer.from('padding'), pdf]).subarray(7));
+
+            expect(pages.map(page => page.headings)).toEqual([['Vectors'], ['Matrices']]);
+        });
+
+        it('should reject data that is not a PDF', async () => {
+            await expect(extractPDFPages(Buffer.from('not a pdf')))
+                .rejects
+                .toThrow('Failed to extract PDF text');
+        });
+    });
+
+    describe('formatPDFPages', () => {
+        it('should mark each page and skip empty ones', () => {
+            const pages: PDFPage[] = [
+                { pageNumber: 1, headings: [], text: 'First' },
+                { pageNumber: 2, headings: [], text: ' ' },
+                { pageNumber: 3, headings: [], text: 'Third' }
+            ];
+
+            expect(formatPDFPages(pages)).toBe('[Page 1]\nFirst\n\n[Page 3]\nThird');
+        });
+    });
+
+    describe('chunkPDFPages', () => {
+        it('should group whole pages and split pages that are too large', () => {
+            const pages: PDFPage[] = [
+                { pageNumber: 1, headings: [], text: 'a'.repeat(100) },
+                { pageNumber: 2, headings: [], text: 'b'.repeat(100) },
+                { pageNumber: 3, headings: [], text: Array(60).fill('word').join(' ') }
+            ];
+
+            const chunks = chunkPDFPages(pages, 60);
+
+            expect(chunks[0].map(page => page.pageNumber)).toEqual([1, 2]);
+            expect(chunks.slice(1).every(chunk => chunk.every(page => page.pageNumber === 3))).toBe(true);
+            expect(chunks.slice(1).map(chunk => chunk.map(page => page.text).join(' ')).join(' '))
+                .toBe(pages[2].text);
+        });
+    });
+});
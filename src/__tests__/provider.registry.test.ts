@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    createLectureService,
+    listProviders,
+    registerProvider,
+    resolveServiceConfig,
+    unregisterProvider
+} from '../services/provider.registry';
+import { OpenAIService } from '../services/openai.service';
+import { GeminiService } from '../services/gemini.service';
+import { GeminiOpenAIService } from '../services/gemini-openai.service';
+import { ProviderConfigFile } from '../types/provider.types';
+
+const profiles: ProviderConfigFile = {
+    defaultProfile: 'physics',
+    profiles: {
+        physics: { provider: 'gemini', model: 'gemini-1.5-pro', apiKeyEnv: 'PHYSICS_KEY', temperature: 0.2 },
+        history: { provider: 'openai', model: 'gpt-4o', apiKey: 'history-key' }
+    }
+};
+
+describe('provider registry', () => {
+    it('should register the built-in providers', () => {
+        expect(listProviders()).toEqual(expect.arrayContaining(['openai', 'gemini', 'gemini-openai']));
+    });
+
+    it('should create the requested provider', () => {
+        expect(createLectureService({ provider: 'openai', apiKey: 'key', env: {} })).toBeInstanceOf(OpenAIService);
+        expect(createLectureService({ provider: 'Gemini', apiKey: 'key', env: {} })).toBeInstanceOf(GeminiService);
+        expect(createLectureService({ provider: 'gemini-openai', apiKey: 'key', env: {} }))
+            .toBeInstanceOf(GeminiOpenAIService);
+    });
+
+    it('should create third-party providers', () => {
+        const create = jest.fn(config => new OpenAIService(config));
+        registerProvider('local-llm', { create, apiKeyEnv: ['LOCAL_LLM_KEY'] });
+
+        try {
+            createLectureService({ provider: 'local-llm', baseUrl: 'http://localhost:8080/v1', env: { LOCAL_LLM_KEY: 'local' } });
+
+            expect(create).toHaveBeenCalledWith({ apiKey: 'local', baseUrl: 'http://localhost:8080/v1' });
+        } finally {
+            unregisterProvider('local-llm');
+        }
+    });
+
+    it('should reject unknown providers', () => {
+        expect(() => createLectureService({ provider: 'acme', apiKey: 'key', env: {} }))
+            .toThrow('Unknown provider "acme". Registered providers: openai, gemini, gemini-openai');
+    });
+
+    it('should read the provider, model, key and base URL from the environment', () => {
+        const resolved = resolveServiceConfig({
+            env: {
+                LECTURE_NOTES_PROVIDER: 'gemini-openai',
+                LECTURE_NOTES_MODEL: 'gemini-1.5-flash',
+                LECTURE_NOTES_API_KEY: 'env-key',
+                LECTURE_NOTES_BASE_URL: 'https://proxy.example.com'
+            }
+        });
+
+        expect(resolved).toEqual({
+            provider: 'gemini-openai',
+            config: { apiKey: 'env-key', model: 'gemini-1.5-flash', baseUrl: 'https://proxy.example.com' }
+        });
+    });
+
+    it('should fall back to the provider key variables', () => {
+        expect(resolveServiceConfig({ provider: 'gemini', env: { GOOGLE_API_KEY: 'google' } }).config.apiKey)
+            .toBe('google');
+        expect(() => resolveServiceConfig({ provider: 'openai', env: {} }))
+            .toThrow('API key is required for provider "openai". Pass apiKey or set LECTURE_NOTES_API_KEY or OPENAI_API_KEY');
+    });
+
+    it('should apply profiles between explicit options and the environment', () => {
+        const env = { PHYSICS_KEY: 'physics-key', LECTURE_NOTES_PROVIDER: 'openai', LECTURE_NOTES_MODEL: 'gpt-4o-mini' };
+
+        expect(resolveServiceConfig({ profiles, env })).toEqual({
+            provider: 'gemini',
+            config: { apiKey: 'physics-key', model: 'gemini-1.5-pro', temperature: 0.2 }
+        });
+        expect(resolveServiceConfig({ profiles, profile: 'history', temperature: 0.9, env })).toEqual({
+            provider: 'openai',
+            config: { apiKey: 'history-key', model: 'gpt-4o', temperature: 0.9 }
+        });
+    });
+
+    it('should report a missing profile key variable', () => {
+        expect(() => resolveServiceConfig({ profiles, env: {} }))
+            .toThrow('Environment variable PHYSICS_KEY for profile "physics" is not set');
+    });
+
+    it('should load profiles from the config file', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-config-'));
+        const file = path.join(dir, 'lecture-notes.json');
+
+        try {
+            await fs.writeFile(file, JSON.stringify(profiles));
+            const service = createLectureService({
+                env: { LECTURE_NOTES_CONFIG: file, LECTURE_NOTES_PROFILE: 'history' }
+            });
+
+            expect(service).toBeInstanceOf(OpenAIService);
+            expect(() => createLectureService({ configFile: file, profile: 'biology', env: {} }))
+                .toThrow('Unknown profile "biology". Available profiles: physics, history');
+            expect(() => createLectureService({ configFile: path.join(dir, 'missing.json'), env: {} }))
+                .toThrow('Error reading provider config file');
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,219 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+import { parseQuizQuestions, planQuizRequests, splitQuizSources } from '../quiz/quiz.questions';
+import { toLatexExam, toMoodleGIFT, toMoodleXML } from '../quiz/quiz.export';
+import { OpenAIService } from '../services/openai.service';
+import { QUIZ_PROMPT } from '../prompts';
+import { Quiz } from '../types/quiz.types';
+import { emptyUsage } from '../utils/generation.utils';
+
+const notes = [
+    '# Eigenvalues',
+    '',
+    'A scalar $\\lambda$ is an eigenvalue of $A$ if $Av = \\lambda v$ for some $v \\neq 0$.',
+    '',
+    '# Determinants',
+    '',
+    'The determinant of a $2 \\times 2$ matrix is $ad - bc$.'
+].join('\n');
+
+const written = [
+    {
+        type: 'multiple-choice',
+        question: 'Which $\\lambda$ is an eigenvalue of $I_2$?',
+        difficulty: 'easy',
+        explanation: 'Every $v$ satisfies $Iv = v$.',
+        section: 1,
+        choices: [
+            { text: '$1$', correct: true },
+            { text: '$0$', correct: false, rationale: 'Confuses eigenvalues with the entries off the diagonal.' },
+            { text: '$2$', correct: false, rationale: 'Adds the diagonal entries, giving the trace.' }
+        ]
+    },
+    {
+        type: 'true-false',
+        question: 'Every matrix with $\\det A = 0$ has the eigenvalue $0$.',
+        difficulty: 'medium',
+        explanation: 'A singular matrix has a non-zero kernel.',
+        section: 2,
+        answer: true,
+        rationale: 'It is tempting to think a zero determinant means a zero matrix.'
+    },
+    {
+        type: 'short-answer',
+        question: 'What is $\\det A$ called when it is zero?',
+        difficulty: 'easy',
+        explanation: 'The matrix is then singular.',
+        section: 2,
+        answers: ['singular', 'non-invertible']
+    },
+    {
+        type: 'numeric',
+        question: 'Compute $\\det \\begin{pmatrix} 1 & 2 \\\\ 3 & 4 \\end{pmatrix}$ for a 50% discount.',
+        difficulty: 'hard',
+        explanation: '$1 \\cdot 4 - 2 \\cdot 3 = -2$',
+        section: 2,
+        answer: -2,
+        tolerance: 0,
+        unit: 'units'
+    }
+];
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+function quizOf(questions: object[]): Quiz {
+    const parsed = parseQuizQuestions(JSON.stringify(questions), ['Eigenvalues', 'Determinants']);
+    return { title: 'Linear Algebra: Week 3', questions: parsed.questions, sections: ['Eigenvalues', 'Determinants'], rejected: [], usage: emptyUsage() };
+}
+
+describe('parseQuizQuestions', () => {
+    it('should point valid questions at their sections', () => {
+        const { questions, rejected } = parseQuizQuestions(`\`\`\`json\n${JSON.stringify(written)}\n\`\`\``, ['Eigenvalues', 'Determinants']);
+
+        expect(rejected).toEqual([]);
+        expect(questions).toHaveLength(4);
+        expect(questions[1]).toEqual({
+            type: 'true-false',
+            question: written[1].question,
+            difficulty: 'medium',
+            explanation: written[1].explanation,
+            answer: true,
+            rationale: written[1].rationale,
+            source: { section: 2, title: 'Determinants' }
+        });
+    });
+
+    it('should reject questions that do not match the schema with the reasons', () => {
+        const invalid = [
+            { ...written[0], choices: [{ text: '$1$', correct: true }, { text: '$2$', correct: true }] },
+            { ...written[3], tolerance: -1, section: 3 },
+            { ...written[2], answers: [] },
+            { type: 'essay', question: 'Discuss.' }
+        ];
+
+        const { questions, rejected } = parseQuizQuestions(JSON.stringify(invalid), ['Eigenvalues', 'Determinants']);
+
+        expect(questions).toEqual([]);
+        expect(rejected.map(entry => entry.errors)).toEqual([
+            ['/choices must have exactly one correct choice'],
+            ['/tolerance must be >= 0'],
+            ['/answers must NOT have fewer than 1 items'],
+            ['type must be one of multiple-choice, true-false, short-answer, numeric']
+        ]);
+        expect(parseQuizQuestions(JSON.stringify([{ ...written[3], section: 3 }]), ['Eigenvalues', 'Determinants']).rejected[0].errors)
+            .toEqual(['/section must be at most 2']);
+        expect(parseQuizQuestions(JSON.stringify([{ ...written[0], choices: [{ text: '$1$', correct: true }, { text: '$0$', correct: false }] }]), ['A']).rejected[0].errors)
+            .toEqual(['/choices must give a rationale for every distractor']);
+    });
+});
+
+describe('planQuizRequests', () => {
+    it('should share the questions between requests by length', () => {
+        const sections = [
+            { title: 'A', content: 'a'.repeat(400) },
+            { title: 'B', content: 'b'.repeat(400) },
+            { title: 'C', content: 'c'.repeat(800) }
+        ];
+
+        const requests = planQuizRequests(sections, 5, 200);
+
+        expect(requests.map(request => request.sections.map(piece => piece.number))).toEqual([[1, 2], [3]]);
+        expect(requests.map(request => request.count)).toEqual([3, 2]);
+    });
+
+    it('should split transcripts without headings into parts', () => {
+        expect(splitQuizSources(notes, 1000).map(section => section.title)).toEqual(['Eigenvalues', 'Determinants']);
+        expect(splitQuizSources('So today we talk about eigenvalues.', 1000)).toEqual([
+            { title: 'Transcript', content: 'So today we talk about eigenvalues.' }
+        ]);
+    });
+});
+
+describe('quiz exports', () => {
+    const quiz = quizOf(written);
+
+    it('should write Moodle GIFT with escaped text and MathJax math', () => {
+        const gift = toMoodleGIFT(quiz);
+
+        expect(gift.startsWith('$CATEGORY: $course$/Linear Algebra: Week 3\n\n// Section 1: Eigenvalues (easy)\n')).toBe(true);
+        expect(gift).toContain('::Q1::[html]Which \\\\(\\\\lambda\\\\) is an eigenvalue of \\\\(I_2\\\\)?{\n\t=\\\\(1\\\\)\n\t~\\\\(0\\\\)#Confuses');
+        expect(gift).toContain('{TRUE#It is tempting to think a zero determinant means a zero matrix.####A singular matrix');
+        expect(gift).toContain('{=singular =non-invertible####The matrix is then singular.}');
+        expect(gift).toContain('\\\\end\\{pmatrix\\}\\\\) for a 50% discount. (in units){#-2:0####');
+    });
+
+    it('should write Moodle XML with units and tags', () => {
+        const xml = toMoodleXML(quiz);
+
+        expect(xml).toContain('<question type="multichoice">');
+        expect(xml).toContain('<answer fraction="0" format="html"><text><![CDATA[\\(0\\)]]></text><feedback format="html"><text><![CDATA[Confuses');
+        expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>true</text></answer>');
+        expect(xml).toContain('<answer fraction="100" format="moodle_auto_format"><text>-2</text><tolerance>0</tolerance></answer>');
+        expect(xml).toContain('<unit_name>units</unit_name>');
+        expect(xml).toContain('<tag><text>Determinants</text></tag>');
+    });
+
+    it('should write an exam-class document that prints answers only in the answer key', () => {
+        const exam = toLatexExam(quiz);
+        const key = toLatexExam(quiz, { answerKey: true, points: 2 });
+
+        expect(exam).toContain('\\documentclass[11pt,addpoints]{exam}');
+        expect(exam).toContain('\\noprintanswers');
+        expect(exam).toContain('{\\Large\\bfseries Linear Algebra: Week 3}');
+        expect(exam).toContain('\\question[1] Which $\\lambda$ is an eigenvalue of $I_2$?\n\\begin{choices}\n  \\CorrectChoice $1$\n  \\choice $0$');
+        expect(exam).toContain('for a 50\\% discount. (in units)');
+        expect(exam).toContain('\\textbf{$-2 \\pm 0$ units}');
+        expect(key).toContain('\\printanswers');
+        expect(key).toContain('\\question[2]');
+        expect(key).toContain('Linear Algebra: Week 3 --- Answer Key');
+    });
+});
+
+describe('generateQuiz', () => {
+    let service: OpenAIService;
+
+    beforeEach(() => {
+        mockCreate.mockReset();
+        service = new OpenAIService('test-api-key');
+    });
+
+    it('should ask for the requested questions on the numbered sections', async () => {
+        mockCreate.mockResolvedValueOnce(reply(JSON.stringify(written)));
+
+        const quiz = await service.generateQuiz(notes, { count: 3, types: ['multiple-choice', 'true-false', 'numeric'], difficulty: 'hard' });
+
+        expect(mockCreate.mock.calls[0][0].messages).toEqual([
+            { role: 'system', content: QUIZ_PROMPT },
+            {
+                role: 'user',
+                content: 'Write 3 questions of these types: multiple-choice, true-false, numeric.\nEvery question must be hard.\n\n' +
+                    '[[SECTION 1: Eigenvalues]]\n' + notes.split('\n\n# Determinants')[0] + '\n\n' +
+                    '[[SECTION 2: Determinants]]\n# Determinants\n\nThe determinant of a $2 \\times 2$ matrix is $ad - bc$.'
+            }
+        ]);
+        expect(quiz.title).toBe('Lecture Quiz');
+        expect(quiz.sections).toEqual(['Eigenvalues', 'Determinants']);
+        expect(quiz.questions.map(question => question.type)).toEqual(['multiple-choice', 'true-false', 'numeric']);
+        expect(quiz.rejected).toEqual([{ question: expect.objectContaining({ type: 'short-answer' }), errors: ['type short-answer was not requested'] }]);
+        expect(quiz.usage.totalTokens).toBe(15);
+    });
+
+    it('should validate its options', async () => {
+        await expect(service.generateQuiz(notes, { count: 0 })).rejects.toThrow('count must be a positive integer');
+        await expect(service.generateQuiz(notes, { types: [] })).rejects.toThrow('types must be a non-empty list');
+        expect(mockCreate).not.toHaveBeenCalled();
+    });
+});
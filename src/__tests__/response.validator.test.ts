@@ -0,0 +1,145 @@
+import {
+    ResponseValidator,
+    latexEnvironmentCheck,
+    mathDelimiterCheck,
+    codeBlockCheck,
+    bracketBalanceCheck,
+    truncationIndicatorCheck
+} from '../validation/response.validator';
+import { formatContinuationPrompt, CONTINUE_PARTIAL_RESPONSE } from '../prompts';
+import { CompletenessCheck } from '../types/validation.types';
+
+describe('latexEnvironmentCheck', () => {
+    const check = latexEnvironmentCheck();
+
+    it('should accept properly nested environments', () => {
+        expect(check.check('\\begin{theorem}\n\\begin{align}x\\end{align}\n\\end{theorem}')).toEqual([]);
+    });
+
+    it('should report unclosed environments innermost first', () => {
+        const issues = check.check('\\begin{theorem}\nText\n\\begin{proof}\nSo');
+
+        expect(issues.map(issue => issue.expected)).toEqual(['\\end{proof}', '\\end{theorem}']);
+        expect(issues[0]).toEqual({
+            check: 'latex-environments',
+            message: '\\begin{proof} on line 3 is not closed',
+            index: 21,
+            line: 3,
+            expected: '\\end{proof}'
+        });
+    });
+
+    it('should match environment names rather than counts', () => {
+        const issues = check.check('\\begin{theorem}\n\\begin{proof}\n\\end{theorem}\n\\end{lemma}');
+
+        expect(issues.map(issue => issue.message)).toEqual([
+            '\\begin{proof} is closed by \\end{theorem} on line 3 before its own \\end',
+            '\\end{lemma} has no matching \\begin{lemma}'
+        ]);
+    });
+
+    it('should ignore comments, code and verbatim bodies', () => {
+        const content = [
+            '% \\begin{figure}',
+            '`\\begin{table}`',
+            '\\begin{verbatim}',
+            '\\begin{itemize}',
+            '\\end{verbatim}'
+        ].join('\n');
+
+        expect(check.check(content)).toEqual([]);
+    });
+});
+
+describe('mathDelimiterCheck', () => {
+    const check = mathDelimiterCheck();
+
+    it('should accept closed inline and display math', () => {
+        expect(check.check('Let $x = 1$ and $$y = 2$$ and \\[z\\] and \\(w\\).')).toEqual([]);
+    });
+
+    it('should report unclosed display math', () => {
+        const [issue] = check.check('Intro\n\\[\n\\int_0^1 f(x)\\,dx');
+
+        expect(issue.expected).toBe('\\]');
+        expect(issue.line).toBe(2);
+    });
+
+    it('should report unclosed inline math in the last paragraph', () => {
+        expect(check.check('The value $\\frac{a}{b')).toEqual([expect.objectContaining({ expected: '$', index: 10 })]);
+    });
+
+    it('should treat prices and escaped dollars as text', () => {
+        expect(check.check('It costs $5 and \\$10.')).toEqual([]);
+        expect(check.check('A $variable left open.\n\nAnother paragraph.')).toEqual([]);
+    });
+});
+
+describe('codeBlockCheck', () => {
+    it('should report an unclosed fence', () => {
+        const issues = codeBlockCheck().check('Text\n```python\nprint(1)');
+
+        expect(issues).toEqual([expect.objectContaining({ line: 2, expected: '```' })]);
+    });
+});
+
+describe('bracketBalanceCheck', () => {
+    const check = bracketBalanceCheck();
+
+    it('should report unclosed JSON', () => {
+        const issues = check.check('{"items": [1, 2');
+
+        expect(issues.map(issue => issue.expected)).toEqual([']', '}']);
+    });
+
+    it('should ignore escaped braces and intervals in math', () => {
+        expect(check.check('The set $\\{x \\in [0, 1)\\}$ is bounded.')).toEqual([]);
+    });
+});
+
+describe('ResponseValidator', () => {
+    it('should build the enabled checks from the config', () => {
+        const validator = ResponseValidator.fromConfig({ checkCodeBlocks: true, customIndicators: ['[more]'] });
+
+        expect(validator.validate('\\begin{theorem}').complete).toBe(true);
+        expect(validator.validate('Content [more]').issues).toEqual([
+            expect.objectContaining({ check: 'truncation-indicator', message: 'Response ends with truncation indicator "[more]"' })
+        ]);
+    });
+
+    it('should run custom checks after the built-in ones', () => {
+        const endsWithPeriod: CompletenessCheck = {
+            name: 'final-period',
+            check: content => content.endsWith('.') ? [] : [{ check: 'final-period', message: 'No final period', index: content.length, line: 1 }]
+        };
+        const validator = ResponseValidator.fromConfig({ checkMathDelimiters: true, checks: [endsWithPeriod] });
+
+        const diagnostics = validator.validate('Open $x');
+
+        expect(diagnostics.complete).toBe(false);
+        expect(diagnostics.issues.map(issue => issue.check)).toEqual(['math-delimiters', 'final-period']);
+    });
+
+    it('should combine checks passed directly', () => {
+        const validator = new ResponseValidator([truncationIndicatorCheck(['...']), codeBlockCheck()]);
+
+        expect(validator.validate('```\ncode\n```').complete).toBe(true);
+    });
+});
+
+describe('formatContinuationPrompt', () => {
+    it('should list open constructs in the order they have to be closed', () => {
+        const { issues } = ResponseValidator.fromConfig({ checkLaTeXBalance: true, checkCodeBlocks: true })
+            .validate('\\begin{theorem}\n```python\nx = 1');
+
+        expect(formatContinuationPrompt(issues)).toBe(
+            `${CONTINUE_PARTIAL_RESPONSE}\nThese are still open and must be closed, in this order, once their content is finished:\n` +
+            '- ``` (Code block opened on line 2 is not closed)\n' +
+            '- \\end{theorem} (\\begin{theorem} on line 1 is not closed)'
+        );
+    });
+
+    it('should use the plain prompt when nothing specific is open', () => {
+        expect(formatContinuationPrompt([])).toBe(CONTINUE_PARTIAL_RESPONSE);
+    });
+});
@@ -110,6 +110,24 @@ describe('Retry Utils', () => {
             expect(fn2).toHaveBeenCalledTimes(1);
         });
 
+        it('should space out request starts without waiting for earlier requests to finish', async () => {
+            const delays: number[] = [];
+            global.setTimeout = ((fn: Function, timeout?: number) => {
+                delays.push(timeout ?? 0);
+                fn();
+                return 0;
+            }) as typeof global.setTimeout;
+            const hung = jest.fn(() => new Promise<string>(() => {}));
+            const fn = jest.fn().mockResolvedValue('second');
+
+            throttler.add(hung);
+            const result = await throttler.add(fn);
+
+            expect(result).toBe('second');
+            expect(hung).toHaveBeenCalledTimes(1);
+            expect(delays.some(delay => delay > 0)).toBe(true);
+        });
+
         it('should handle errors in queued requests', async () => {
             const error = new Error('test error');
             const fn = jest.fn().mockRejectedValue(error);
@@ -1,4 +1,15 @@
-import { formatLectureNotes, extractKeyPoints, generateMarkdown } from '../utils/text.utils';
+import {
+    formatLectureNotes,
+    extractKeyPoints,
+    generateMarkdown,
+    stripCodeFences,
+    splitDocumentSections,
+    assembleDocument,
+    chunkText,
+    stitchContinuation,
+    ContinuationStitcher
+} from '../utils/text.utils';
+import { TYPST_PREAMBLE } from '../prompts';
 
 describe('Text Utils', () => {
     describe('formatLectureNotes', () => {
@@ -48,5 +59,142 @@ describe('Text Utils', () => {
             const expected = 'Title\n\n* First point\n* Second point\n\nRegular text\n\n* Third point';
             expect(generateMarkdown(input)).toBe(expected);
         });
+
+        it('should repair math and report what it could not', () => {
+            const onMathIssues = jest.fn();
+
+            const markdown = generateMarkdown('Area $\\frac{1}{2$ and $\\foo$', { fixMath: true, onMathIssues });
+
+            expect(markdown).toBe('Area $\\frac{1}{2}$ and $\\foo$');
+            expect(onMathIssues).toHaveBeenCalledWith([expect.objectContaining({ message: 'Undefined control sequence: \\foo' })]);
+        });
+    });
+
+    describe('stripCodeFences', () => {
+        it('should unwrap a fenced document', () => {
+            expect(stripCodeFences('```latex\n\\section{A}\n```')).toBe('\\section{A}');
+            expect(stripCodeFences('plain text')).toBe('plain text');
+        });
+    });
+
+    describe('splitDocumentSections', () => {
+        it('should split a LaTeX scaffold on its top-level headings', () => {
+            const scaffold = `Here is the outline:
+\\section{Introduction}
+\\subsection{Motivation}
+\\section*{Conclusion}`;
+
+            expect(splitDocumentSections(scaffold, 'latex')).toEqual([
+                { title: 'Introduction', content: '\\section{Introduction}\n\\subsection{Motivation}' },
+                { title: 'Conclusion', content: '\\section*{Conclusion}' }
+            ]);
+        });
+
+        it('should use the shallowest Markdown heading level present', () => {
+            const scaffold = '## Introduction\n### Details\n## Conclusion';
+
+            expect(splitDocumentSections(scaffold, 'markdown').map(section => section.title))
+                .toEqual(['Introduction', 'Conclusion']);
+        });
+
+        it('should split a Typst scaffold and drop heading labels from titles', () => {
+            const scaffold = '= Introduction <intro>\n== Motivation\n= Conclusion';
+
+            expect(splitDocumentSections(scaffold, 'typst')).toEqual([
+                { title: 'Introduction', content: '= Introduction <intro>\n== Motivation' },
+                { title: 'Conclusion', content: '= Conclusion' }
+            ]);
+        });
+
+        it('should return no sections when there are no headings', () => {
+            expect(splitDocumentSections('just text', 'markdown')).toEqual([]);
+        });
+    });
+
+    describe('assembleDocument', () => {
+        it('should wrap LaTeX sections in a single document', () => {
+            const document = assembleDocument([
+                '\\section{A}\nFirst',
+                '\\documentclass{article}\n\\begin{document}\n\\section{B}\nSecond\n\\end{document}'
+            ], 'latex');
+
+            expect(document.match(/\\begin\{document\}/g)).toHaveLength(1);
+            expect(document).toContain('\\section{A}\nFirst\n\n\\section{B}\nSecond');
+        });
+
+        it('should put Typst sections below the shared preamble', () => {
+            const document = assembleDocument([
+                '= A\nFirst',
+                '```typst\n#set text(size: 12pt)\n#let theorem = none\n\n= B\nSecond\n```'
+            ], 'typst');
+
+            expect(document).toBe(`${TYPST_PREAMBLE}\n\n= A\nFirst\n\n= B\nSecond`);
+        });
+
+        it('should join Markdown sections', () => {
+            expect(assembleDocument(['# A', '# B'], 'markdown')).toBe('# A\n\n# B');
+        });
+    });
+
+    describe('chunkText', () => {
+        it('should keep short text in a single chunk', () => {
+            expect(chunkText('Short text', 100, 10)).toEqual(['Short text']);
+            expect(chunkText('   ', 100, 10)).toEqual([]);
+        });
+
+        it('should split long text on sentence boundaries with overlap', () => {
+            const text = 'First sentence here. Second sentence here. Third sentence here.';
+            const chunks = chunkText(text, 30, 10);
+
+            expect(chunks[0]).toBe('First sentence here.');
+            expect(chunks.every(chunk => chunk.length <= 30)).toBe(true);
+            expect(chunks[chunks.length - 1].endsWith('Third sentence here.')).toBe(true);
+        });
+    });
+
+    describe('stitchContinuation', () => {
+        it('should join on a new line when neither side has whitespace', () => {
+            expect(stitchContinuation('\\begin{theorem} Partial', '\\end{theorem}'))
+                .toBe('\\begin{theorem} Partial\n\\end{theorem}');
+            expect(stitchContinuation('', 'Start')).toBe('Start');
+        });
+
+        it('should drop repeated lines at the seam', () => {
+            const content = '\\section{Fourier Series}\nAny periodic function can be written as a sum of sines.\n';
+            const continuation = '  Any periodic function can be written as a sum of sines.\nThe coefficients are integrals.';
+
+            expect(stitchContinuation(content, continuation))
+                .toBe('\\section{Fourier Series}\nAny periodic function can be written as a sum of sines.\nThe coefficients are integrals.');
+        });
+
+        it('should join a restarted line without a separator', () => {
+            const content = 'The Fourier coefficients are given by the integr';
+            const continuation = 'coefficients are given by the integral over one period.';
+
+            expect(stitchContinuation(content, continuation))
+                .toBe('The Fourier coefficients are given by the integral over one period.');
+        });
+
+        it('should keep short matches, which may be legitimate', () => {
+            expect(stitchContinuation('\\end{itemize}\n', '\\end{itemize}\nDone'))
+                .toBe('\\end{itemize}\n\\end{itemize}\nDone');
+        });
+    });
+
+    describe('ContinuationStitcher', () => {
+        it('should hold back a repeated start and release the rest', () => {
+            const stitcher = new ContinuationStitcher('Intro\nEntropy always increases in an isolated system.');
+            const deltas = ['Entropy always ', 'increases in an isolated system.', '\nNext', ' topic']
+                .map(delta => stitcher.push(delta));
+
+            expect(deltas).toEqual(['', '', '\nNext', ' topic']);
+            expect(stitcher.flush()).toBe('');
+        });
+
+        it('should pass the first part straight through', () => {
+            const stitcher = new ContinuationStitcher('');
+            expect(stitcher.push('Hello')).toBe('Hello');
+            expect(stitcher.flush()).toBe('');
+        });
     });
-});
\ No newline at end of file
+});
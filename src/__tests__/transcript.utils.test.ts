@@ -0,0 +1,229 @@
+import {
+    detectTranscriptGaps,
+    markTranscriptGaps,
+    applyGapFills,
+    parseGapFills,
+    parseSRT,
+    parseVTT,
+    parseWhisperJSON,
+    parseTranscript,
+    transcriptToText,
+    formatTimestamp
+} from '../utils/transcript.utils';
+
+describe('Transcript Utils', () => {
+    describe('parseSRT', () => {
+        it('should parse cues with comma milliseconds and multi-line text', () => {
+            const srt = '1\r\n00:00:01,000 --> 00:00:04,500\r\nWelcome to\r\n<i>linear algebra</i>.\r\n\r\n2\r\n00:00:05,000 --> 00:00:07,250\r\nLet&apos;s begin.\r\n';
+
+            expect(parseSRT(srt)).toEqual({
+                segments: [
+                    { start: 1, end: 4.5, text: 'Welcome to linear algebra.' },
+                    { start: 5, end: 7.25, text: 'Let&apos;s begin.' }
+                ],
+                durationSeconds: 7.25
+            });
+        });
+    });
+
+    describe('parseVTT', () => {
+        it('should read speakers from voice tags', () => {
+            const vtt = [
+                'WEBVTT',
+                '',
+                'NOTE exported by the lecture-capture system',
+                '',
+                '3f2a-1',
+                '00:00:00.000 --> 00:00:03.200 align:start',
+                '<v Dr. Ada Lovelace>Today: the analytical engine.</v>',
+                '',
+                '00:03.200 --> 00:05.000',
+                '<v.student Sam>Is it programmable?</v>'
+            ].join('\n');
+
+            expect(parseVTT(vtt).segments).toEqual([
+                { start: 0, end: 3.2, speaker: 'Dr. Ada Lovelace', text: 'Today: the analytical engine.' },
+                { start: 3.2, end: 5, speaker: 'Sam', text: 'Is it programmable?' }
+            ]);
+        });
+
+        it('should read Zoom speaker prefixes', () => {
+            const vtt = 'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nMaria Garcia: Can everyone hear me?\n\n2\n00:00:02.000 --> 00:00:03.000\nGood, let us start.';
+
+            expect(parseVTT(vtt).segments).toEqual([
+                { start: 1, end: 2, speaker: 'Maria Garcia', text: 'Can everyone hear me?' },
+                { start: 2, end: 3, text: 'Good, let us start.' }
+            ]);
+        });
+
+        it('should drop lines repeated by rolling captions', () => {
+            const vtt = [
+                'WEBVTT',
+                '',
+                '00:00:00.000 --> 00:00:02.000',
+                'so today we<00:00:01.000><c> talk</c>',
+                '',
+                '00:00:02.000 --> 00:00:02.010',
+                'so today we talk',
+                '',
+                '00:00:02.010 --> 00:00:04.000',
+                'so today we talk',
+                'about entropy'
+            ].join('\n');
+
+            expect(parseVTT(vtt).segments.map(segment => segment.text)).toEqual(['so today we talk', 'about entropy']);
+        });
+
+        it('should require the WEBVTT header', () => {
+            expect(() => parseVTT('00:00:01.000 --> 00:00:02.000\nHello')).toThrow('WebVTT captions must start with "WEBVTT"');
+        });
+    });
+
+    describe('parseWhisperJSON', () => {
+        it('should parse verbose_json output', () => {
+            const json = JSON.stringify({
+                language: 'english',
+                duration: 12.5,
+                text: 'Hello. Welcome.',
+                segments: [
+                    { id: 0, start: 0, end: 2, text: ' Hello.' },
+                    { id: 1, start: 2, end: 4, text: ' Welcome.' }
+                ]
+            });
+
+            expect(parseWhisperJSON(json)).toEqual({
+                segments: [
+                    { start: 0, end: 2, text: 'Hello.' },
+                    { start: 2, end: 4, text: 'Welcome.' }
+                ],
+                language: 'english',
+                durationSeconds: 12.5
+            });
+        });
+
+        it('should reject JSON without segments or text', () => {
+            expect(() => parseWhisperJSON('{"foo": 1}')).toThrow('Whisper transcript has no segments');
+        });
+    });
+
+    describe('parseTranscript', () => {
+        it('should detect the format from the content', () => {
+            expect(parseTranscript('WEBVTT\n\n00:01.000 --> 00:02.000\nHi').segments[0].text).toBe('Hi');
+            expect(parseTranscript('1\n00:00:01,000 --> 00:00:02,000\nHi').segments[0].start).toBe(1);
+            expect(parseTranscript('[{"start": 0, "end": 1, "text": "Hi"}]').segments).toHaveLength(1);
+            expect(() => parseTranscript('just text')).toThrow('Could not detect the transcript format');
+        });
+    });
+
+    describe('transcriptToText', () => {
+        const transcript = {
+            segments: [
+                { start: 0, end: 3, speaker: 'Prof. Lee', text: 'Welcome back.' },
+                { start: 3725.4, end: 3730, text: 'Any questions?' }
+            ]
+        };
+
+        it('should render timestamps and speakers', () => {
+            expect(transcriptToText(transcript)).toBe('[00:00:00] Prof. Lee: Welcome back.\n[01:02:05] Any questions?');
+        });
+
+        it('should optionally leave out timestamps and speakers', () => {
+            expect(transcriptToText(transcript, { timestamps: false, speakers: false })).toBe('Welcome back.\nAny questions?');
+            expect(transcriptToText('Plain text')).toBe('Plain text');
+        });
+
+        it('should keep timestamps usable for gap detection', () => {
+            const text = transcriptToText({
+                segments: [
+                    { start: 0, end: 5, text: 'First topic.' },
+                    { start: 95, end: 100, text: 'Second topic.' }
+                ]
+            });
+
+            expect(detectTranscriptGaps(text).map(gap => gap.kind)).toEqual(['silence']);
+            expect(formatTimestamp(95)).toBe('00:01:35');
+        });
+    });
+
+    describe('detectTranscriptGaps', () => {
+        it('should find markers, cut-off sentences and silences in order', () => {
+            const transcript = [
+                '[00:00:05] Today we start with eigenvalues [inaudible] of a matrix.',
+                '[00:00:20] The characteristic polynomial is—',
+                '[00:02:10] So that gives us two roots.'
+            ].join('\n');
+
+            const gaps = detectTranscriptGaps(transcript);
+
+            expect(gaps.map(gap => gap.kind)).toEqual(['marker', 'cut', 'silence']);
+            expect(gaps[0].text).toBe('[inaudible]');
+            expect(transcript.slice(gaps[1].start, gaps[1].end)).toBe('—');
+            expect(gaps[2].durationSeconds).toBe(110);
+            expect(transcript.slice(gaps[2].start)).toMatch(/^\[00:02:10\]/);
+        });
+
+        it('should respect the silence threshold', () => {
+            const transcript = '[01:00] First point.\n[01:20] Second point.';
+
+            expect(detectTranscriptGaps(transcript)).toEqual([]);
+            expect(detectTranscriptGaps(transcript, { silenceThresholdSeconds: 10 })).toHaveLength(1);
+        });
+
+        it('should accept a timestamp or duration after a marker but not other text', () => {
+            expect(detectTranscriptGaps('First [inaudible 00:12:03] then (silence 5s) and [crosstalk].').map(gap => gap.text))
+                .toEqual(['[inaudible 00:12:03]', '(silence 5s)', '[crosstalk]']);
+            expect(detectTranscriptGaps('The (gaps between energy levels) matter, like (silence as music) (... and so on).')).toEqual([]);
+        });
+
+        it('should not report a complete transcript', () => {
+            expect(detectTranscriptGaps('A complete sentence.\nAnother one.')).toEqual([]);
+        });
+    });
+
+    describe('markTranscriptGaps', () => {
+        it('should replace each gap with a numbered placeholder', () => {
+            const transcript = 'We define [inaudible] as the limit and then we--\nNext topic.';
+            const gaps = detectTranscriptGaps(transcript);
+
+            expect(markTranscriptGaps(transcript, gaps))
+                .toBe('We define [[GAP 1]] as the limit and then we [[GAP 2]]\nNext topic.');
+        });
+    });
+
+    describe('applyGapFills', () => {
+        it('should insert fills and report their positions', () => {
+            const transcript = 'We define [inaudible] as the limit and then we--\n[00:10] Next.\n[05:00] Later.';
+            const gaps = detectTranscriptGaps(transcript);
+
+            const result = applyGapFills(transcript, gaps, ['the derivative', 'take the limit.', undefined]);
+
+            expect(result.transcript)
+                .toBe('We define the derivative as the limit and then we take the limit.\n[00:10] Next.\n[05:00] Later.');
+            expect(result.synthesized).toHaveLength(2);
+            for (const span of result.synthesized) {
+                expect(result.transcript.slice(span.start, span.end)).toBe(span.text);
+                expect(span.synthesized).toBe(true);
+            }
+        });
+
+        it('should insert silence fills as their own line', () => {
+            const transcript = '[00:10] First.\n[05:00] Later.';
+            const gaps = detectTranscriptGaps(transcript);
+
+            const result = applyGapFills(transcript, gaps, ['We then covered the proof.']);
+
+            expect(result.transcript).toBe('[00:10] First.\nWe then covered the proof.\n[05:00] Later.');
+        });
+    });
+
+    describe('parseGapFills', () => {
+        it('should read fills from a fenced JSON object', () => {
+            expect(parseGapFills('```json\n{"1": "first", "3": "third"}\n```', 3))
+                .toEqual(['first', undefined, 'third']);
+        });
+
+        it('should reject responses that are not JSON objects', () => {
+            expect(() => parseGapFills('Sorry, I cannot help.', 1)).toThrow('Gap fill response is not a JSON object');
+        });
+    });
+});
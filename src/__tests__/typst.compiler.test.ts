@@ -0,0 +1,194 @@
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+    OpenAI: jest.fn().mockImplementation(() => ({
+        chat: {
+            completions: {
+                create: mockCreate
+            }
+        }
+    }))
+}));
+
+// typst is replaced by printing a diagnostic for every #grad in the source, or writing a PDF when there is none
+const mockExecFile = jest.fn();
+
+jest.mock('child_process', () => ({
+    execFile: mockExecFile
+}));
+
+import { readFileSync, writeFileSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TypstCompiler } from '../typst/typst.compiler';
+import { OpenAIService } from '../services/openai.service';
+import { TYPST_PREAMBLE, TYPST_REPAIR_PROMPT } from '../prompts';
+import { FileProcessingError } from '../utils/error.utils';
+import { parseTypstDiagnostics } from '../utils/typst.utils';
+
+const document = [
+    '= Gradients',
+    '',
+    'The gradient $#grad f$ points uphill.'
+].join('\n');
+
+const reply = (content: string) => ({
+    choices: [{ message: { content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+});
+
+function fakeTypst(binary: string, args: string[], options: { cwd?: string }, callback: Function) {
+    if (args[0] === '--version') {
+        return callback(null, 'typst 0.12.0', '');
+    }
+
+    const source = readFileSync(path.join(options.cwd!, 'main.typ'), 'utf-8');
+    const line = source.split('\n').findIndex(text => text.includes('#grad')) + 1;
+    if (line > 0) {
+        const column = source.split('\n')[line - 1].indexOf('#grad') + 2;
+        callback(Object.assign(new Error('exit 1'), { code: 1 }), '', `main.typ:${line}:${column}: error: unknown variable: grad\n`);
+    } else {
+        writeFileSync(path.join(options.cwd!, 'main.pdf'), '%PDF-1.7');
+        callback(null, '', 'main.typ:1:1: warning: no text within stars\n');
+    }
+}
+
+describe('parseTypstDiagnostics', () => {
+    it('should read positions, other files and errors without a location', () => {
+        const output = [
+            'main.typ:4:12: error: unknown variable: grad',
+            'lib/boxes.typ:2:3: error: expected expression',
+            'main.typ:9:1: help: error occurred in this function call',
+            'error: failed to load file (access denied)',
+            './main.typ:1:1: warning: unknown font family: fira'
+        ].join('\n');
+
+        expect(parseTypstDiagnostics(output)).toEqual({
+            errors: [
+                { message: 'unknown variable: grad', line: 4, column: 12 },
+                { message: 'expected expression', line: 2, column: 3, file: 'lib/boxes.typ' },
+                { message: 'failed to load file (access denied)' }
+            ],
+            warnings: [{ message: 'unknown font family: fira', line: 1, column: 1 }]
+        });
+    });
+});
+
+describe('TypstCompiler', () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+        mockExecFile.mockReset();
+        mockExecFile.mockImplementation(fakeTypst);
+        outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'typst-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should keep the PDF and report warnings', async () => {
+        const result = await new TypstCompiler({ outputDir, jobName: 'notes' })
+            .compile(document.replace('#grad', 'nabla'));
+
+        expect(result.success).toBe(true);
+        expect(result.pdfPath).toBe(path.join(outputDir, 'notes.pdf'));
+        expect(result.warnings).toEqual([{ message: 'no text within stars', line: 1, column: 1 }]);
+    });
+
+    it('should run typst rooted in a temporary directory', async () => {
+        await new TypstCompiler({ binary: '/opt/typst', outputDir }).compile(document);
+
+        const [binary, args, options] = mockExecFile.mock.calls[0];
+        expect(binary).toBe('/opt/typst');
+        expect(args).toEqual(['compile', '--root', '.', '--diagnostic-format', 'short', 'main.typ', 'main.pdf']);
+        await expect(fs.stat(options.cwd)).rejects.toThrow();
+    });
+
+    it('should report errors instead of throwing when the document does not compile', async () => {
+        const result = await new TypstCompiler({ outputDir }).compile(document);
+
+        expect(result.success).toBe(false);
+        expect(result.pdfPath).toBeUndefined();
+        expect(result.errors).toEqual([{ message: 'unknown variable: grad', line: 3, column: 16 }]);
+    });
+
+    it('should explain a missing binary', async () => {
+        const missing = (binary: string, args: string[], options: object, callback: Function) => {
+            callback(Object.assign(new Error('spawn typst ENOENT'), { code: 'ENOENT' }), '', '');
+        };
+        mockExecFile.mockImplementation(missing);
+
+        await expect(new TypstCompiler().compile(document)).rejects.toThrow(FileProcessingError);
+        await expect(TypstCompiler.isAvailable()).resolves.toBe(false);
+    });
+});
+
+describe('typstCheck', () => {
+    let service: OpenAIService;
+    let outputDir: string;
+
+    beforeEach(async () => {
+        mockCreate.mockReset();
+        mockExecFile.mockReset();
+        mockExecFile.mockImplementation(fakeTypst);
+        service = new OpenAIService('test-api-key');
+        outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'typst-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(outputDir, { recursive: true, force: true });
+    });
+
+    it('should send the lines around an error back to the model and recompile', async () => {
+        mockCreate.mockResolvedValueOnce(reply('The gradient $nabla f$ points uphill.'));
+
+        const result = await service.typstCheck(document, { outputDir, contextLines: 0 });
+
+        expect(result.success).toBe(true);
+        expect(result.content).toBe(document.replace('#grad', 'nabla'));
+        expect(result.compilations).toBe(2);
+        expect(result.repairs).toBe(1);
+        expect(mockCreate.mock.calls[0][0].messages).toEqual([
+            { role: 'system', content: TYPST_REPAIR_PROMPT },
+            {
+                role: 'user',
+                content: 'Compiler errors:\n- Line 3, column 16: unknown variable: grad\n\n' +
+                    'Excerpt:\n3| The gradient $#grad f$ points uphill.'
+            }
+        ]);
+    });
+
+    it('should check built Typst notes when typst is installed', async () => {
+        mockCreate
+            .mockResolvedValueOnce(reply('= Introduction\n= Conclusion'))
+            .mockResolvedValueOnce(reply('= Introduction\nThe gradient $#grad f$ points uphill.'))
+            .mockResolvedValueOnce(reply('= Conclusion\nOutro'))
+            .mockResolvedValueOnce(reply('The gradient $nabla f$ points uphill.'));
+
+        const result = await service.buildLectureNotes('Test transcript', {
+            format: 'typst',
+            finalRefinement: false,
+            compileCheck: { outputDir, contextLines: 0 }
+        });
+
+        expect(result.draft.startsWith(TYPST_PREAMBLE)).toBe(true);
+        expect(result.compileCheck?.success).toBe(true);
+        expect(result.content).toContain('= Introduction\nThe gradient $nabla f$ points uphill.');
+    });
+
+    it('should skip the check when typst is not installed or it is turned off', async () => {
+        mockCreate.mockResolvedValue(reply('= Introduction\nThe gradient $#grad f$ points uphill.'));
+        mockExecFile.mockImplementation((binary: string, args: string[], options: object, callback: Function) => {
+            callback(Object.assign(new Error('spawn typst ENOENT'), { code: 'ENOENT' }), '', '');
+        });
+
+        const missing = await service.buildLectureNotes('Test transcript', { format: 'typst', finalRefinement: false });
+        mockExecFile.mockImplementation(fakeTypst);
+        const off = await service.buildLectureNotes('Test transcript', { format: 'typst', finalRefinement: false, compileCheck: false });
+
+        expect(missing.compileCheck).toBeUndefined();
+        expect(off.compileCheck).toBeUndefined();
+        expect(off.content).toContain('#grad');
+    });
+});
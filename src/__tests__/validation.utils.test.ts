@@ -38,6 +38,9 @@ describe('Validation Utils', () => {
         it('should validate lecture format', () => {
             expect(() => validate.validateFormat('latex')).not.toThrow();
             expect(() => validate.validateFormat('markdown')).not.toThrow();
+            expect(() => validate.validateFormat('html')).not.toThrow();
+            expect(() => validate.validateFormat('typst')).not.toThrow();
+            expect(() => validate.validateFormat('ipynb')).not.toThrow();
             expect(() => validate.validateFormat(undefined)).not.toThrow();
             expect(() => validate.validateFormat('invalid' as any)).toThrow(ValidationError);
         });
@@ -0,0 +1,196 @@
+import { AIService } from '../services/ai.service';
+import { CHAT_WITH_TEACHER_PROMPT, formatPrompt } from '../prompts';
+import { LectureNotes } from '../types/lecture.types';
+import {
+    ChatMessage,
+    LectureChatMode,
+    LectureChatReply,
+    LectureChatSessionOptions,
+    LectureChatSessionState,
+    LectureChatSource
+} from '../types/chat.types';
+import { TranscriptInput } from '../types/transcript.types';
+import { handleError, ValidationError } from '../utils/error.utils';
+import * as validate from '../utils/validation.utils';
+import { emptyUsage } from '../utils/generation.utils';
+import { transcriptToText } from '../utils/transcript.utils';
+import { estimateTokens } from '../utils/text.utils';
+
+const HELP_TEXT = `Available commands:
+- \`/mode1\` or \`/chat\`: Enter Post-Class Chatting mode.
+- \`/mode2\` or \`/interactive\`: Enter Interactive Lecture Mode.
+- \`/help\` or \`/commands\`: Display this list of commands.
+- \`/reset\` or \`/new_lecture\`: Clear the conversation and start over with the same lecture.`;
+
+const MODE_COMMANDS: Record<string, LectureChatMode> = {
+    '/mode1': 'chat',
+    '/chat': 'chat',
+    '/mode2': 'interactive',
+    '/interactive': 'interactive'
+};
+
+const MODE_GREETINGS: Record<LectureChatMode, string> = {
+    chat: 'Entering Post-Class Chatting mode. What would you like to discuss about the lecture?',
+    interactive: 'Entering Interactive Lecture Mode. What topic from the lecture would you like me to explain?'
+};
+
+/**
+ * Multi-turn "chat with the lecture" session built on CHAT_WITH_TEACHER_PROMPT. Slash
+ * commands are handled client-side; everything else is sent to the service together with
+ * as much of the conversation history as fits in the model's context budget.
+ */
+export class LectureChatSession {
+    private mode: LectureChatMode;
+    private history: ChatMessage[] = [];
+
+    constructor(
+        private readonly service: AIService,
+        private readonly lecture: string,
+        private readonly source: LectureChatSource = 'transcript',
+        private readonly options: LectureChatSessionOptions = {}
+    ) {
+        validate.validateContent(lecture);
+        this.mode = options.mode ?? 'chat';
+    }
+
+    static fromTranscript(
+        service: AIService,
+        transcript: TranscriptInput,
+        options?: LectureChatSessionOptions
+    ): LectureChatSession {
+        return new LectureChatSession(service, transcriptToText(transcript), 'transcript', options);
+    }
+
+    static fromNotes(
+        service: AIService,
+        notes: string | LectureNotes,
+        options?: LectureChatSessionOptions
+    ): LectureChatSession {
+        return new LectureChatSession(service, typeof notes === 'string' ? notes : notes.content, 'notes', options);
+    }
+
+    static fromJSON(service: AIService, state: string | LectureChatSessionState): LectureChatSession {
+        const parsed: LectureChatSessionState = typeof state === 'string' ? JSON.parse(state) : state;
+        if (parsed.version !== 1) {
+            throw new ValidationError(`Unsupported chat session version: ${parsed.version}`);
+        }
+
+        const session = new LectureChatSession(service, parsed.lecture, parsed.source, parsed.options);
+        session.mode = parsed.mode;
+        session.history = parsed.history.map(message => ({ ...message }));
+        return session;
+    }
+
+    getMode(): LectureChatMode {
+        return this.mode;
+    }
+
+    getHistory(): ChatMessage[] {
+        return this.history.map(message => ({ ...message }));
+    }
+
+    reset(): void {
+        this.history = [];
+        this.mode = this.options.mode ?? 'chat';
+    }
+
+    async send(input: string): Promise<LectureChatReply> {
+        try {
+            validate.validateContent(input);
+
+            const text = input.trim();
+            if (text.startsWith('/')) {
+                return this.runCommand(text);
+            }
+
+            return this.ask(text);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    toJSON(): LectureChatSessionState {
+        return {
+            version: 1,
+            source: this.source,
+            lecture: this.lecture,
+            mode: this.mode,
+            history: this.getHistory(),
+            options: { ...this.options }
+        };
+    }
+
+    private async runCommand(text: string): Promise<LectureChatReply> {
+        const [command, ...rest] = text.split(/\s+/);
+        const name = command.toLowerCase();
+        const argument = rest.join(' ');
+
+        if (name in MODE_COMMANDS) {
+            this.mode = MODE_COMMANDS[name];
+            // Keep the switch in the history so the model knows which mode it is in
+            this.history.push(
+                { role: 'user', content: command },
+                { role: 'assistant', content: MODE_GREETINGS[this.mode] }
+            );
+
+            return argument
+                ? { ...(await this.ask(argument)), command: name }
+                : this.localReply(MODE_GREETINGS[this.mode], name);
+        }
+
+        if (name === '/help' || name === '/commands') {
+            return this.localReply(HELP_TEXT, name);
+        }
+
+        if (name === '/reset' || name === '/new_lecture') {
+            this.reset();
+            return this.localReply('The conversation has been reset. Select a mode with `/chat` or `/interactive`.', name);
+        }
+
+        return this.localReply(`Unknown command: ${command}\n\n${HELP_TEXT}`, name);
+    }
+
+    private async ask(text: string): Promise<LectureChatReply> {
+        const question: ChatMessage = { role: 'user', content: text };
+        const result = await this.service.chatDetailed(this.buildMessages(question), {
+            temperature: this.options.temperature
+        });
+
+        this.history.push(question, { role: 'assistant', content: result.content });
+
+        return { content: result.content, mode: this.mode, usage: result.usage };
+    }
+
+    /**
+     * Builds the request from the system prompt, the newest history that fits in the
+     * context budget and the new question. Older turns are dropped in user/assistant pairs.
+     */
+    private buildMessages(question: ChatMessage): ChatMessage[] {
+        const system: ChatMessage = {
+            role: 'system',
+            content: formatPrompt(CHAT_WITH_TEACHER_PROMPT, { transcription: this.lecture })
+        };
+
+        const budget = this.options.maxContextTokens ?? this.service.getContextBudget();
+        let remaining = budget - estimateTokens(system.content) - estimateTokens(question.content);
+        if (remaining < 0) {
+            throw new ValidationError('The lecture and question exceed the model context budget');
+        }
+
+        let start = this.history.length;
+        while (start >= 2) {
+            const cost = estimateTokens(this.history[start - 2].content) + estimateTokens(this.history[start - 1].content);
+            if (cost > remaining) {
+                break;
+            }
+            remaining -= cost;
+            start -= 2;
+        }
+
+        return [system, ...this.history.slice(start), question];
+    }
+
+    private localReply(content: string, command: string): LectureChatReply {
+        return { content, mode: this.mode, command, usage: emptyUsage() };
+    }
+}
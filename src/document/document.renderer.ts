@@ -0,0 +1,196 @@
+import { LectureBlock, LectureDocument } from '../types/document.types';
+import { markdownInlineToLatex } from '../utils/latex.utils';
+
+const LATEX_PREAMBLE = `\\documentclass[11pt,a4paper]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{amsmath, amssymb, amsthm}
+\\usepackage{algorithm}
+\\usepackage{algpseudocode}
+\\usepackage{hyperref}
+
+\\theoremstyle{plain}
+\\newtheorem{theorem}{Theorem}[section]
+\\newtheorem{lemma}[theorem]{Lemma}
+\\newtheorem{proposition}[theorem]{Proposition}
+\\newtheorem{corollary}[theorem]{Corollary}
+\\theoremstyle{definition}
+\\newtheorem{definition}[theorem]{Definition}
+\\newtheorem{example}[theorem]{Example}
+\\theoremstyle{remark}
+\\newtheorem*{remark}{Remark}`;
+
+const STATEMENT_NAMES: Record<string, string> = {
+    theorem: 'Theorem',
+    lemma: 'Lemma',
+    proposition: 'Proposition',
+    corollary: 'Corollary',
+    definition: 'Definition',
+    example: 'Example'
+};
+
+/**
+ * Renders a LectureDocument as a standalone LaTeX document. Statements are numbered within
+ * their section by amsthm, sharing one counter; algorithms and figures are floats.
+ */
+export function renderDocumentLatex(document: LectureDocument): string {
+    const body = document.sections.map(section => [
+        `\\section{${markdownInlineToLatex(section.title)}}`,
+        ...section.blocks.map(latexBlock),
+        ...section.subsections.flatMap(subsection => [
+            `\\subsection{${markdownInlineToLatex(subsection.title)}}`,
+            ...subsection.blocks.map(latexBlock)
+        ])
+    ].join('\n\n'));
+
+    return [
+        LATEX_PREAMBLE,
+        '',
+        `\\title{${markdownInlineToLatex(document.title)}}`,
+        '\\date{}',
+        '',
+        '\\begin{document}',
+        '\\maketitle',
+        '',
+        body.join('\n\n'),
+        '',
+        '\\end{document}',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Renders a LectureDocument as Markdown with the same numbering as the LaTeX rendering:
+ * sections and statements are numbered per section, algorithms and figures through the
+ * document. Statements are written as `> **Theorem 1.2 (Title):**` blockquotes, the form the
+ * HTML renderer turns into coloured boxes.
+ */
+export function renderDocumentMarkdown(document: LectureDocument): string {
+    const floats = { algorithm: 0, figure: 0 };
+    const sections = document.sections.map((section, i) => {
+        let statements = 0;
+        const render = (block: LectureBlock) => markdownBlock(block, () => `${i + 1}.${++statements}`, floats);
+
+        return [
+            `## ${i + 1}. ${section.title}`,
+            ...section.blocks.map(render),
+            ...section.subsections.flatMap((subsection, j) => [
+                `### ${i + 1}.${j + 1} ${subsection.title}`,
+                ...subsection.blocks.map(render)
+            ])
+        ].join('\n\n');
+    });
+
+    return `${[`# ${document.title}`, ...sections].join('\n\n')}\n`;
+}
+
+/**
+ * Renders a LectureDocument to one of the formats it can be written in directly; html and
+ * ipynb are converted from the Markdown rendering.
+ */
+export function renderLectureDocument(document: LectureDocument, format: 'latex' | 'markdown'): string {
+    return format === 'latex' ? renderDocumentLatex(document) : renderDocumentMarkdown(document);
+}
+
+function latexBlock(block: LectureBlock): string {
+    const optionalTitle = (title?: string) => (title ? `[${markdownInlineToLatex(title)}]` : '');
+    const label = (prefix: string, name?: string) => (name ? `\\label{${prefix}:${labelName(name)}}` : '');
+
+    switch (block.type) {
+        case 'paragraph':
+            return markdownInlineToLatex(block.text);
+        case 'math':
+            return block.label
+                ? `\\begin{equation}${label('eq', block.label)}\n${block.tex}\n\\end{equation}`
+                : `\\[\n${block.tex}\n\\]`;
+        case 'list': {
+            const environment = block.ordered ? 'enumerate' : 'itemize';
+            return [`\\begin{${environment}}`, ...block.items.map(item => `  \\item ${markdownInlineToLatex(item)}`), `\\end{${environment}}`].join('\n');
+        }
+        case 'definition':
+            return `\\begin{definition}${optionalTitle(block.title)}\n${markdownInlineToLatex(block.text)}\n\\end{definition}`;
+        case 'theorem':
+            return [
+                `\\begin{${block.kind}}${optionalTitle(block.title)}${label('thm', block.label)}`,
+                markdownInlineToLatex(block.statement),
+                `\\end{${block.kind}}`,
+                ...(block.proof ? ['\\begin{proof}', markdownInlineToLatex(block.proof), '\\end{proof}'] : [])
+            ].join('\n');
+        case 'example':
+            return [
+                `\\begin{example}${optionalTitle(block.title)}`,
+                markdownInlineToLatex(block.text),
+                '\\end{example}',
+                ...(block.solution ? ['\\begin{proof}[Solution]', markdownInlineToLatex(block.solution), '\\end{proof}'] : [])
+            ].join('\n');
+        case 'remark':
+            return `\\begin{remark}\n${markdownInlineToLatex(block.text)}\n\\end{remark}`;
+        case 'algorithm':
+            return [
+                '\\begin{algorithm}[htbp]',
+                ...(block.title ? [`\\caption{${markdownInlineToLatex(block.title)}}`] : []),
+                '\\begin{algorithmic}[1]',
+                ...block.steps.map(step => `  \\State ${markdownInlineToLatex(step)}`),
+                '\\end{algorithmic}',
+                '\\end{algorithm}'
+            ].join('\n');
+        case 'code':
+            return `\\begin{verbatim}\n${block.code}\n\\end{verbatim}`;
+        case 'figure':
+            return [
+                '\\begin{figure}[htbp]',
+                '\\centering',
+                `\\fbox{\\parbox{0.8\\linewidth}{${markdownInlineToLatex(block.description)}}}`,
+                `\\caption{${markdownInlineToLatex(block.caption)}}`,
+                '\\end{figure}'
+            ].join('\n');
+    }
+}
+
+function markdownBlock(block: LectureBlock, nextStatement: () => string, floats: { algorithm: number; figure: number }): string {
+    const named = (name: string, title?: string) => `**${name}${title ? ` (${title})` : ''}:**`;
+
+    switch (block.type) {
+        case 'paragraph':
+            return block.text;
+        case 'math':
+            return `$$\n${block.tex}\n$$`;
+        case 'list':
+            return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${indent(item, block.ordered ? '   ' : '  ')}`).join('\n');
+        case 'definition':
+            return quote(`${named(`Definition ${nextStatement()}`, block.title)} ${block.text}`);
+        case 'theorem': {
+            const statement = quote(`${named(`${STATEMENT_NAMES[block.kind]} ${nextStatement()}`, block.title)} ${block.statement}`);
+            return block.proof ? `${statement}\n\n*Proof.* ${block.proof} $\\blacksquare$` : statement;
+        }
+        case 'example': {
+            const example = quote(`${named(`Example ${nextStatement()}`, block.title)} ${block.text}`);
+            return block.solution ? `${example}\n\n*Solution.* ${block.solution}` : example;
+        }
+        case 'remark':
+            return quote(`${named('Remark')} ${block.text}`);
+        case 'algorithm':
+            return [
+                `**Algorithm ${++floats.algorithm}${block.title ? `: ${block.title}` : ''}**`,
+                '',
+                ...block.steps.map((step, i) => `${i + 1}. ${indent(step, '   ')}`)
+            ].join('\n');
+        case 'code':
+            return `\`\`\`${block.language ?? ''}\n${block.code}\n\`\`\``;
+        case 'figure':
+            return quote(`**Figure ${++floats.figure}:** ${block.caption}\n\n${block.description}`);
+    }
+}
+
+function quote(text: string): string {
+    return text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+// Continuation lines of a list item are indented to its content
+function indent(text: string, prefix: string): string {
+    return text.split('\n').map((line, i) => (i === 0 || !line ? line : `${prefix}${line}`)).join('\n');
+}
+
+function labelName(label: string): string {
+    return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
@@ -0,0 +1,167 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { JsonResponseFormat } from '../types/chat.types';
+import { LectureBlock, LectureDocument, TheoremKind } from '../types/document.types';
+import { SDKError } from '../utils/error.utils';
+import { stripCodeFences } from '../utils/text.utils';
+
+const BLOCK_TYPES: LectureBlock['type'][] = [
+    'paragraph', 'math', 'list', 'definition', 'theorem', 'example', 'remark', 'algorithm', 'code', 'figure'
+];
+
+const THEOREM_KINDS: TheoremKind[] = ['theorem', 'lemma', 'proposition', 'corollary'];
+
+const nullable = (type: string, description: string) => ({ type: [type, 'null'], description });
+
+/*
+ * Both providers need a schema without unions, so a block is one flat object whose fields are
+ * read according to its type; parseLectureDocument turns it into the typed LectureBlock.
+ */
+const BLOCK_SCHEMA = {
+    type: 'object',
+    properties: {
+        type: { type: 'string', enum: BLOCK_TYPES },
+        text: {
+            type: 'string',
+            description: 'paragraph, definition, remark: the text; theorem: the statement; example: the example; ' +
+                'math: the TeX of the equation without delimiters; code: the code; figure: what the figure shows; algorithm: empty'
+        },
+        title: nullable('string', 'Optional name of a definition, theorem, example or algorithm; the caption of a figure'),
+        kind: { type: ['string', 'null'], enum: [...THEOREM_KINDS, null], description: 'theorem: which kind of statement' },
+        proof: nullable('string', 'theorem: its proof; example: its solution'),
+        items: { type: ['array', 'null'], items: { type: 'string' }, description: 'list: the items; algorithm: the steps' },
+        ordered: nullable('boolean', 'list: whether the items are numbered'),
+        language: nullable('string', 'code: the programming language'),
+        label: nullable('string', 'math, theorem: a short label to refer to it by')
+    },
+    required: ['type', 'text', 'title', 'kind', 'proof', 'items', 'ordered', 'language', 'label'],
+    additionalProperties: false
+};
+
+/**
+ * JSON schema of a LectureDocument as the model writes it, in the subset OpenAI's strict
+ * structured outputs and Gemini's responseSchema both accept.
+ */
+export const LECTURE_DOCUMENT_SCHEMA = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        sections: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    blocks: { type: 'array', items: BLOCK_SCHEMA },
+                    subsections: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                title: { type: 'string' },
+                                blocks: { type: 'array', items: BLOCK_SCHEMA }
+                            },
+                            required: ['title', 'blocks'],
+                            additionalProperties: false
+                        }
+                    }
+                },
+                required: ['title', 'blocks', 'subsections'],
+                additionalProperties: false
+            }
+        }
+    },
+    required: ['title', 'sections'],
+    additionalProperties: false
+};
+
+export const LECTURE_DOCUMENT_RESPONSE_FORMAT: JsonResponseFormat = {
+    name: 'lecture_document',
+    schema: LECTURE_DOCUMENT_SCHEMA
+};
+
+type WireBlock = {
+    type: LectureBlock['type'];
+    text: string;
+    title: string | null;
+    kind: TheoremKind | null;
+    proof: string | null;
+    items: string[] | null;
+    ordered: boolean | null;
+    language: string | null;
+    label: string | null;
+};
+
+let validateDocument: ValidateFunction | undefined;
+
+/**
+ * Parses a response written against LECTURE_DOCUMENT_SCHEMA into a LectureDocument, dropping
+ * the fields a block's type does not use.
+ */
+export function parseLectureDocument(content: string): LectureDocument {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stripCodeFences(content));
+    } catch {
+        throw new SDKError('Structured response is not valid JSON');
+    }
+
+    validateDocument ??= new Ajv({ allErrors: true, allowUnionTypes: true }).compile(LECTURE_DOCUMENT_SCHEMA);
+    if (!validateDocument(parsed)) {
+        const errors = (validateDocument.errors ?? []).map(error => `${error.instancePath || 'document'} ${error.message}`);
+        throw new SDKError(`Structured response does not match the lecture document schema: ${errors.join('; ')}`);
+    }
+
+    const document = parsed as {
+        title: string;
+        sections: Array<{ title: string; blocks: WireBlock[]; subsections: Array<{ title: string; blocks: WireBlock[] }> }>;
+    };
+    return {
+        title: document.title,
+        sections: document.sections.map(section => ({
+            title: section.title,
+            blocks: toBlocks(section.blocks),
+            subsections: section.subsections.map(subsection => ({ title: subsection.title, blocks: toBlocks(subsection.blocks) }))
+        }))
+    };
+}
+
+// Lists and algorithms without items are dropped: LaTeX rejects a list environment with no \item
+function toBlocks(blocks: WireBlock[]): LectureBlock[] {
+    return blocks
+        .filter(block => !((block.type === 'list' || block.type === 'algorithm') && !block.items?.length))
+        .map(toBlock);
+}
+
+function toBlock(block: WireBlock): LectureBlock {
+    const optional = <K extends string>(key: K, value: string | null) => (value ? { [key]: value } as Record<K, string> : {});
+
+    switch (block.type) {
+        case 'paragraph':
+            return { type: 'paragraph', text: block.text };
+        case 'math':
+            return { type: 'math', tex: block.text, ...optional('label', block.label) };
+        case 'list':
+            return { type: 'list', ordered: block.ordered ?? false, items: block.items ?? [] };
+        case 'definition':
+            return { type: 'definition', ...optional('title', block.title), text: block.text };
+        case 'theorem':
+            return {
+                type: 'theorem',
+                kind: block.kind ?? 'theorem',
+                ...optional('title', block.title),
+                statement: block.text,
+                ...optional('proof', block.proof),
+                ...optional('label', block.label)
+            };
+        case 'example':
+            return { type: 'example', ...optional('title', block.title), text: block.text, ...optional('solution', block.proof) };
+        case 'remark':
+            return { type: 'remark', text: block.text };
+        case 'algorithm':
+            return { type: 'algorithm', ...optional('title', block.title), steps: block.items ?? [] };
+        case 'code':
+            return { type: 'code', ...optional('language', block.language), code: block.text };
+        case 'figure':
+            return { type: 'figure', caption: block.title ?? '', description: block.text };
+    }
+}
@@ -0,0 +1,314 @@
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { AnkiExportOptions, Flashcard, FlashcardKind } from '../types/flashcard.types';
+import { SDKError } from '../utils/error.utils';
+import { stripCodeFences } from '../utils/text.utils';
+import { toMathJaxHTML } from '../validation/math.validator';
+
+export const DEFAULT_DECK_NAME = 'Lecture Notes';
+
+export const FLASHCARD_KINDS: FlashcardKind[] = ['definition', 'theorem', 'formula', 'cloze'];
+
+const CLOZE_MARKER = /\{\{c(\d+)::([\s\S]*?)(?:::[^}]*)?\}\}/g;
+
+// Openings that only phrase the front as a question, so "What is a basis?" and "Basis" are the same card
+const QUESTION_OPENINGS = /^(?:what (?:is|are)|define|state|give|write down|recall)(?: the| an?)?\s+/;
+
+/**
+ * Parses the model's JSON array of cards. Entries that are not cards, or cloze cards without a
+ * cloze marker, are dropped.
+ */
+export function parseFlashcards(content: string): Flashcard[] {
+    const json = stripCodeFences(content).match(/\[[\s\S]*\]/)?.[0];
+    let parsed: unknown;
+    try {
+        parsed = json ? JSON.parse(json) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+    if (!Array.isArray(parsed)) {
+        throw new SDKError('Flashcard response is not a JSON array');
+    }
+
+    return parsed.flatMap((entry): Flashcard[] => {
+        if (!entry || typeof entry !== 'object') {
+            return [];
+        }
+        const { kind, front, back, tags } = entry as Record<string, unknown>;
+        if (!FLASHCARD_KINDS.includes(kind as FlashcardKind) || typeof front !== 'string' || !front.trim()) {
+            return [];
+        }
+        if (kind === 'cloze' ? clozeNumbers(front).length === 0 : typeof back !== 'string' || !back.trim()) {
+            return [];
+        }
+
+        const card: Flashcard = { kind: kind as FlashcardKind, front: front.trim(), back: typeof back === 'string' ? back.trim() : '' };
+        const cardTags = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0) : [];
+        return [cardTags.length > 0 ? { ...card, tags: cardTags } : card];
+    });
+}
+
+/**
+ * Drops cards that ask the same thing as an earlier card of the same kind, comparing the fronts
+ * without case, markup, cloze markers, punctuation or question phrasing.
+ */
+export function dedupeFlashcards(cards: Flashcard[]): { cards: Flashcard[]; duplicates: number } {
+    const seen = new Set<string>();
+    const unique = cards.filter(card => {
+        const key = `${card.kind}:${normalizePrompt(card.front)}`;
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+    return { cards: unique, duplicates: cards.length - unique.length };
+}
+
+/**
+ * Writes the cards as a tab-separated file that Anki imports with File > Import. The header
+ * lines tell Anki which column holds the note type, deck and tags, so Basic and Cloze cards can
+ * share one file. Fields are HTML with math in MathJax delimiters.
+ */
+export function toAnkiTSV(cards: Flashcard[], options: AnkiExportOptions = {}): string {
+    const deckName = options.deckName ?? DEFAULT_DECK_NAME;
+    const header = ['#separator:tab', '#html:true', '#notetype column:1', '#deck column:2', '#tags column:5'];
+    const rows = cards.map(card => [
+        card.kind === 'cloze' ? 'Cloze' : 'Basic',
+        deckName,
+        toMathJaxHTML(card.front),
+        toMathJaxHTML(card.back),
+        ankiTags(card).join(' ')
+    ].map(tsvField).join('\t'));
+
+    return `${[...header, ...rows].join('\n')}\n`;
+}
+
+/**
+ * Packages the cards as an Anki deck (.apkg) that can be opened in Anki directly, using the
+ * built-in Basic and Cloze note types. The package is built locally; every card starts as new.
+ */
+export async function toAnkiPackage(cards: Flashcard[], options: AnkiExportOptions = {}): Promise<Buffer> {
+    const deckName = options.deckName ?? DEFAULT_DECK_NAME;
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database();
+    try {
+        writeCollection(db, cards, deckName, Date.now());
+
+        const zip = new JSZip();
+        zip.file('collection.anki2', db.export());
+        zip.file('media', '{}');
+        return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    } finally {
+        db.close();
+    }
+}
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+    sqlJs ??= initSqlJs();
+    return sqlJs;
+}
+
+// Schema of an Anki 2.1 collection (version 11), which every Anki release can import
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld text not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed ids, so that decks exported at different times share their note types in Anki
+const BASIC_MODEL_ID = 1607392319;
+const CLOZE_MODEL_ID = 1607392320;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+
+function writeCollection(db: Database, cards: Flashcard[], deckName: string, now: number): void {
+    const seconds = Math.floor(now / 1000);
+    // Derived from the name, so importing a new export of the same deck adds to it; 1 is the Default deck
+    const deckId = checksum(deckName) + 2;
+
+    db.exec(COLLECTION_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+        seconds,
+        now,
+        now,
+        JSON.stringify(collectionConfig(deckId)),
+        JSON.stringify(noteTypes(deckId, seconds)),
+        JSON.stringify({ 1: deck(1, 'Default', seconds), [deckId]: deck(deckId, deckName, seconds) }),
+        JSON.stringify({ 1: deckConfig() }),
+        '{}'
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+    let cardId = now;
+    try {
+        cards.forEach((card, i) => {
+            const noteId = now + i;
+            const fields = [toMathJaxHTML(card.front), toMathJaxHTML(card.back)];
+            const tags = ankiTags(card);
+            const sortField = stripHTML(fields[0]);
+
+            insertNote.run([
+                noteId,
+                noteGuid(deckName, card.kind, fields[0]),
+                card.kind === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+                seconds,
+                tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+                fields.join('\x1f'),
+                sortField,
+                checksum(sortField)
+            ]);
+
+            // A cloze note has one card per cloze number, a basic note has one card
+            const ords = card.kind === 'cloze' ? clozeNumbers(card.front).map(n => n - 1) : [0];
+            for (const ord of ords) {
+                insertCard.run([cardId++, noteId, deckId, ord, seconds, i + 1]);
+            }
+        });
+    } finally {
+        insertNote.free();
+        insertCard.free();
+    }
+}
+
+function collectionConfig(deckId: number): object {
+    return {
+        activeDecks: [deckId],
+        addToCur: true,
+        collapseTime: 1200,
+        curDeck: deckId,
+        curModel: String(BASIC_MODEL_ID),
+        dueCounts: true,
+        estTimes: true,
+        newBury: true,
+        newSpread: 0,
+        nextPos: 1,
+        sortBackwards: false,
+        sortType: 'noteFld',
+        timeLim: 0
+    };
+}
+
+function noteTypes(deckId: number, seconds: number): object {
+    const field = (name: string, ord: number) => ({ name, ord, font: 'Arial', size: 20, media: [], rtl: false, sticky: false });
+    const template = (qfmt: string, afmt: string) => ({ name: 'Card 1', ord: 0, qfmt, afmt, bqfmt: '', bafmt: '', did: null });
+    const common = {
+        css: CARD_CSS,
+        did: deckId,
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        mod: seconds,
+        sortf: 0,
+        tags: [],
+        usn: -1,
+        vers: []
+    };
+
+    return {
+        [BASIC_MODEL_ID]: {
+            ...common,
+            id: BASIC_MODEL_ID,
+            name: 'Basic',
+            type: 0,
+            flds: [field('Front', 0), field('Back', 1)],
+            tmpls: [template('{{Front}}', '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}')],
+            req: [[0, 'any', [0]]]
+        },
+        [CLOZE_MODEL_ID]: {
+            ...common,
+            id: CLOZE_MODEL_ID,
+            name: 'Cloze',
+            type: 1,
+            flds: [field('Text', 0), field('Back Extra', 1)],
+            tmpls: [template('{{cloze:Text}}', '{{cloze:Text}}<br>\n{{Back Extra}}')]
+        }
+    };
+}
+
+function deck(id: number, name: string, seconds: number): object {
+    return {
+        id,
+        name,
+        desc: '',
+        conf: 1,
+        dyn: 0,
+        collapsed: false,
+        extendNew: 10,
+        extendRev: 50,
+        mod: seconds,
+        usn: -1,
+        newToday: [0, 0],
+        revToday: [0, 0],
+        lrnToday: [0, 0],
+        timeToday: [0, 0]
+    };
+}
+
+function deckConfig(): object {
+    return {
+        id: 1,
+        name: 'Default',
+        autoplay: true,
+        maxTaken: 60,
+        mod: 0,
+        replayq: true,
+        timer: 0,
+        usn: 0,
+        new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+        rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+        lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+    };
+}
+
+// Anki separates tags with spaces, so spaces inside a tag become underscores
+function ankiTags(card: Flashcard): string[] {
+    return [...new Set([...(card.tags ?? []), card.kind].map(tag => tag.trim().replace(/\s+/g, '_')))];
+}
+
+function tsvField(field: string): string {
+    return /["\t]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+function clozeNumbers(text: string): number[] {
+    const numbers = [...text.matchAll(CLOZE_MARKER)].map(match => Number(match[1]));
+    return [...new Set(numbers)].filter(n => n > 0).sort((a, b) => a - b);
+}
+
+function normalizePrompt(text: string): string {
+    return text
+        .replace(CLOZE_MARKER, '$2')
+        .toLowerCase()
+        .replace(/[$*`]/g, '')
+        .replace(/[.,;:!?"'()]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(QUESTION_OPENINGS, '');
+}
+
+function stripHTML(html: string): string {
+    return html.replace(/<br>/g, ' ').replace(/<[^>]*>/g, '')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+// Anki's note checksum: the first 8 hex digits of the SHA-1 of the sort field
+function checksum(text: string): number {
+    return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16);
+}
+
+// Stable across exports, so re-importing an updated deck updates its notes instead of duplicating them
+function noteGuid(deckName: string, kind: FlashcardKind, front: string): string {
+    return createHash('sha1').update(`${deckName}\x1f${kind}\x1f${front}`).digest('base64').slice(0, 10);
+}
@@ -0,0 +1,280 @@
+import { LectureFormat } from '../types/lecture.types';
+import { GlossaryEntry, LatexGlossaryOptions, MarkdownGlossaryOptions } from '../types/glossary.types';
+import { SDKError, ValidationError } from '../utils/error.utils';
+import { headingAnchor, headingOf, splitDocumentSections, stripCodeFences } from '../utils/text.utils';
+import { markdownInlineToLatex } from '../utils/latex.utils';
+import { blank, maskCode, maskMath } from '../validation/math.spans';
+
+// Environments whose content is not prose, so terms in them are neither located nor indexed
+const LATEX_NON_PROSE = /\\begin\{(equation|align|alignat|gather|multline|eqnarray|displaymath|math|verbatim|lstlisting|minted|algorithmic|tikzpicture)(\*?)\}[\s\S]*?\\end\{\1\2\}/g;
+// Commands whose argument is a name rather than text
+const LATEX_NAME_ARGUMENTS = /\\(?:begin|end|label|ref|eqref|cref|Cref|autoref|pageref|cite|citep|citet|url|href|includegraphics|input|include|usepackage|documentclass|index|glsadd|gls|newglossaryentry)\*?(?:\[[^\]]*\])?\{[^{}]*\}/g;
+
+interface OutlineLine {
+    section: number;
+    heading: string;
+    /** Fragment linking to the heading, unique within the document */
+    anchor: string;
+}
+
+/**
+ * Reads the glossary entries in a model response: a JSON array of objects with a term, its
+ * definition and optionally its aliases. Entries without a term or a definition are dropped.
+ */
+export function parseGlossaryEntries(content: string): GlossaryEntry[] {
+    const json = stripCodeFences(content).match(/\[[\s\S]*\]/)?.[0];
+    let parsed: unknown;
+    try {
+        parsed = json ? JSON.parse(json) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+    if (!Array.isArray(parsed)) {
+        throw new SDKError('Glossary response is not a JSON array');
+    }
+
+    return parsed.flatMap((item): GlossaryEntry[] => {
+        if (!item || typeof item !== 'object') {
+            return [];
+        }
+        const { term, definition, aliases } = item as Record<string, unknown>;
+        if (typeof term !== 'string' || !term.trim() || typeof definition !== 'string' || !definition.trim()) {
+            return [];
+        }
+
+        const entry: GlossaryEntry = { term: term.trim(), definition: definition.trim() };
+        const names = Array.isArray(aliases)
+            ? aliases.filter((alias): alias is string => typeof alias === 'string' && alias.trim().length > 0).map(alias => alias.trim())
+            : [];
+        return [names.length > 0 ? { ...entry, aliases: names } : entry];
+    });
+}
+
+/**
+ * Merges entries for the same term, as written for different parts of the notes: the first
+ * definition is kept and the aliases are combined.
+ */
+export function mergeGlossaryEntries(entries: GlossaryEntry[]): GlossaryEntry[] {
+    const merged = new Map<string, GlossaryEntry>();
+    for (const entry of entries) {
+        const key = normalizeTerm(entry.term);
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, entry);
+            continue;
+        }
+        const aliases = [...(existing.aliases ?? []), ...(entry.aliases ?? [])]
+            .filter((alias, i, all) => normalizeTerm(alias) !== key && all.findIndex(other => normalizeTerm(other) === normalizeTerm(alias)) === i);
+        merged.set(key, aliases.length > 0 ? { ...existing, aliases } : existing);
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Finds where each term, or one of its aliases, first occurs in the notes. Math, code and
+ * LaTeX commands are skipped, and plurals count as occurrences. Entries that never occur are
+ * returned without a location.
+ */
+export function locateGlossaryTerms(notes: string, entries: GlossaryEntry[], format: LectureFormat = detectFormat(notes)): GlossaryEntry[] {
+    const masked = maskNotes(notes, format).split('\n');
+    const outline = outlineOf(notes.split('\n'), format);
+
+    return entries.map(({ location: _, ...entry }) => {
+        const line = masked.findIndex(text => termPattern(entry).test(text));
+        return line < 0
+            ? entry
+            : { ...entry, location: { section: outline[line].section, heading: outline[line].heading, line: line + 1 } };
+    });
+}
+
+/**
+ * Sorts entries alphabetically by term, ignoring case and accents.
+ */
+export function sortGlossaryEntries(entries: GlossaryEntry[]): GlossaryEntry[] {
+    return [...entries].sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * Adds a glossary and a back-of-book index to a complete LaTeX document. The entries are
+ * defined with the glossaries package, whose list records the page of each term's first
+ * occurrence and is sorted by LaTeX itself, so it only needs a second pass and no external
+ * tool. The paragraphs mentioning a term get an `\index{}` entry; the index is built by
+ * `makeindex`, which the latexmk engine runs.
+ */
+export function addLatexGlossary(document: string, entries: GlossaryEntry[], options: LatexGlossaryOptions = {}): string {
+    const begin = document.indexOf('\\begin{document}');
+    const end = document.lastIndexOf('\\end{document}');
+    if (begin < 0 || end < begin) {
+        throw new ValidationError('A glossary can only be added to a complete LaTeX document');
+    }
+
+    const index = options.index ?? true;
+    const keys = uniqueKeys(entries);
+    const lines = document.split('\n');
+    const masked = maskNotes(document, 'latex').split('\n');
+    const added = new Set<number>();
+    let indexed = new Set<number>();
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) {
+            indexed = new Set();
+            continue;
+        }
+        // Headings are moving arguments and end up in the table of contents
+        if (headingOf(lines[i].trim(), 'latex')) {
+            continue;
+        }
+
+        const insertions: Array<{ at: number; text: string }> = [];
+        entries.forEach((entry, e) => {
+            const match = termPattern(entry).exec(masked[i]);
+            if (!match || (added.has(e) && (!index || indexed.has(e)))) {
+                return;
+            }
+            let text = '';
+            if (!added.has(e)) {
+                text += `\\glsadd{${keys[e]}}`;
+                added.add(e);
+            }
+            if (index && !indexed.has(e)) {
+                text += indexEntry(entry.term);
+                indexed.add(e);
+            }
+            insertions.push({ at: match.index + match[0].length, text });
+        });
+
+        for (const { at, text } of insertions.sort((a, b) => b.at - a.at)) {
+            lines[i] = lines[i].slice(0, at) + text + lines[i].slice(at);
+        }
+    }
+
+    const definitions = entries.map((entry, e) =>
+        `\\newglossaryentry{${keys[e]}}{name={${markdownInlineToLatex(entry.term)}}, sort={${sortKey(entry.term)}}, description={${markdownInlineToLatex(entry.definition)}}}`
+    );
+    const preamble = [
+        ...(index ? ['\\usepackage{makeidx}', '\\makeindex'] : []),
+        '\\usepackage[toc]{glossaries}',
+        '\\makenoidxglossaries',
+        ...definitions
+    ].join('\n');
+    // Terms the document never uses are listed too, without a page
+    const unused = keys.filter((_, e) => !added.has(e)).map(key => `\\glsadd[format=glsignore]{${key}}`);
+    const lists = [...unused, '\\printnoidxglossaries', ...(index ? ['\\printindex'] : [])].join('\n');
+
+    const body = lines.join('\n');
+    const bodyBegin = body.indexOf('\\begin{document}');
+    const bodyEnd = body.lastIndexOf('\\end{document}');
+    return `${body.slice(0, bodyBegin)}${preamble}\n\n${body.slice(bodyBegin, bodyEnd)}${lists}\n\n${body.slice(bodyEnd)}`;
+}
+
+/**
+ * Appends a glossary section to Markdown notes, at the level of their sections. Each term links
+ * to the heading above its first occurrence.
+ */
+export function addMarkdownGlossary(markdown: string, entries: GlossaryEntry[], options: MarkdownGlossaryOptions = {}): string {
+    const notes = markdown.trimEnd();
+    const lines = notes.split('\n');
+    const masked = maskNotes(notes, 'markdown').split('\n');
+    const outline = outlineOf(lines, 'markdown');
+
+    const items = sortGlossaryEntries(entries).map(entry => {
+        const line = masked.findIndex(text => termPattern(entry).test(text));
+        const where = line >= 0 && outline[line].anchor ? ` ([${outline[line].heading}](#${outline[line].anchor}))` : '';
+        return `- **${entry.term}**: ${entry.definition}${where}`;
+    });
+
+    return `${notes}\n\n${'#'.repeat(sectionLevel(lines, 'markdown'))} ${options.title ?? 'Glossary'}\n\n${items.join('\n')}\n`;
+}
+
+function detectFormat(notes: string): LectureFormat {
+    return (['latex', 'typst'] as LectureFormat[]).find(format => splitDocumentSections(notes, format).length > 0) ?? 'markdown';
+}
+
+// Blanks out everything that is not prose while keeping offsets and line breaks
+function maskNotes(notes: string, format: LectureFormat): string {
+    if (format !== 'latex') {
+        return maskMath(maskCode(notes));
+    }
+
+    const begin = notes.indexOf('\\begin{document}');
+    const body = begin < 0 ? notes : blank(notes.slice(0, begin)) + notes.slice(begin);
+    return maskMath(body
+        .replace(/(^|[^\\])(%.*)$/gm, (_, before: string, comment: string) => before + blank(comment))
+        .replace(LATEX_NON_PROSE, blank)
+        .replace(LATEX_NAME_ARGUMENTS, blank))
+        .replace(/\\[a-zA-Z@]+\*?/g, blank);
+}
+
+/**
+ * The section and closest heading of every line. A single heading at the top level is the
+ * title of the document, so the level below it holds the sections.
+ */
+function outlineOf(lines: string[], format: LectureFormat): OutlineLine[] {
+    const level = sectionLevel(lines, format);
+    const anchors = new Map<string, number>();
+    let current: OutlineLine = { section: 0, heading: '', anchor: '' };
+
+    return lines.map(line => {
+        const heading = headingOf(line.trim(), format);
+        if (!heading) {
+            return current;
+        }
+
+        const base = headingAnchor(heading.title);
+        const repeats = anchors.get(base) ?? 0;
+        anchors.set(base, repeats + 1);
+        current = {
+            section: current.section + (heading.level === level ? 1 : 0),
+            heading: heading.title,
+            anchor: repeats > 0 ? `${base}-${repeats}` : base
+        };
+        return current;
+    });
+}
+
+function sectionLevel(lines: string[], format: LectureFormat): number {
+    const levels = lines.map(line => headingOf(line.trim(), format)?.level).filter((level): level is number => level !== undefined);
+    if (levels.length === 0) {
+        return format === 'latex' ? 1 : 2;
+    }
+    const top = Math.min(...levels);
+    const isTitle = levels.filter(level => level === top).length === 1 && levels.some(level => level > top);
+    return isTitle ? top + 1 : top;
+}
+
+// Matches the term or an alias as whole words, optionally in the plural
+function termPattern(entry: GlossaryEntry): RegExp {
+    const names = [entry.term, ...(entry.aliases ?? [])]
+        .sort((a, b) => b.length - a.length)
+        .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join('|')})(?:e?s)?(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+function normalizeTerm(term: string): string {
+    return term.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function uniqueKeys(entries: GlossaryEntry[]): string[] {
+    const used = new Set<string>();
+    return entries.map(entry => {
+        const base = normalizeTerm(entry.term).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'term';
+        let key = base;
+        for (let i = 2; used.has(key); i++) {
+            key = `${base}-${i}`;
+        }
+        used.add(key);
+        return key;
+    });
+}
+
+function sortKey(term: string): string {
+    return term.replace(/[$\\{}^_]/g, '').replace(/[,=]/g, ' ').trim();
+}
+
+// makeindex reads @, !, | and " as commands unless they are quoted with "
+function indexEntry(term: string): string {
+    const quote = (text: string) => text.replace(/["@!|]/g, '"$&');
+    const display = markdownInlineToLatex(term);
+    const sort = sortKey(term);
+    return `\\index{${display === sort ? quote(display) : `${quote(sort)}@${quote(display)}`}}`;
+}
@@ -0,0 +1,370 @@
+import katex from 'katex';
+import MarkdownIt from 'markdown-it';
+import { HTMLRenderOptions } from '../types/html.types';
+import { extractMathSpans } from '../validation/math.validator';
+import { headingAnchor } from '../utils/text.utils';
+
+// The boxed statements FINAL_REFINEMENT_PROMPT_MARKDOWN asks for, with the colour their tcolorbox gets in LaTeX
+const BOX_COLOURS: Record<string, string> = {
+    theorem: 'red',
+    lemma: 'red',
+    proposition: 'red',
+    corollary: 'red',
+    definition: 'green',
+    example: 'purple',
+    remark: 'gray',
+    note: 'gray',
+    algorithm: 'blue'
+};
+
+const BOX_TITLE = /^(Theorem|Lemma|Proposition|Corollary|Definition|Example|Remark|Note|Algorithm)(?:\s+(\d+(?:\.\d+)*))?\.?\s*(?:\(.*\))?\s*[:.]?$/i;
+const REFERENCE = /\b(Theorem|Lemma|Proposition|Corollary|Definition|Example|Remark|Algorithm|Section)\s+(\d+(?:\.\d+)*)\b/g;
+const NUMBERED_HEADING = /^(?:Section\s+)?(\d+(?:\.\d+)*)[.:]?\s/i;
+
+// Math is swapped for these markers before the Markdown is parsed, so that _ and * in TeX are not read as emphasis
+const MATH_MARKER = /\uE000(\d+)\uE001/g;
+
+// Backgrounds and frames are the mixes tcolorbox uses by default, <colour>!5!white and <colour>!75!black
+const STYLESHEET = `
+:root { color-scheme: light; --text: #1f2328; --muted: #59636e; --rule: #d1d9e0; --link: #0550ae; }
+* { box-sizing: border-box; }
+body { margin: 0; color: var(--text); background: #fff; font: 17px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Noto Sans", Helvetica, Arial, sans-serif; -webkit-text-size-adjust: 100%; }
+header, nav.toc, main { max-width: 46rem; margin: 0 auto; padding: 0 1rem; }
+header h1 { margin: 1.5rem 0 1rem; font-size: 1.9rem; line-height: 1.25; }
+h2, h3, h4, h5, h6 { line-height: 1.3; margin: 2rem 0 0.75rem; scroll-margin-top: 1rem; }
+a { color: var(--link); }
+nav.toc { margin-bottom: 1.5rem; }
+nav.toc details { border: 1px solid var(--rule); border-radius: 6px; padding: 0.5rem 1rem; }
+nav.toc summary { cursor: pointer; font-weight: 600; }
+nav.toc ul { margin: 0.25rem 0; padding-left: 1.25rem; }
+nav.toc a { text-decoration: none; }
+pre { overflow-x: auto; padding: 0.75rem 1rem; background: #f6f8fa; border-radius: 6px; font-size: 0.875rem; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+table { display: block; overflow-x: auto; border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid var(--rule); padding: 0.35rem 0.75rem; }
+blockquote { margin: 1rem 0; padding: 0 1rem; border-left: 4px solid var(--rule); color: var(--muted); }
+img { max-width: 100%; }
+math { font-size: 1.1em; }
+math[display="block"] { display: block; overflow-x: auto; overflow-y: hidden; margin: 1rem 0; }
+.katex-error { color: #cc0000; }
+.box { margin: 1.25rem 0; border: 1px solid var(--frame); border-radius: 6px; background: var(--back); overflow: hidden; scroll-margin-top: 1rem; }
+.box > .box-title { padding: 0.35rem 0.9rem; background: var(--frame); color: #fff; font-weight: 600; }
+.box > :not(.box-title) { margin-left: 0.9rem; margin-right: 0.9rem; }
+.box-red { --back: #fff2f2; --frame: #bf0000; }
+.box-green { --back: #f2fff2; --frame: #00bf00; }
+.box-purple { --back: #fcf2f5; --frame: #8f0030; }
+.box-gray { --back: #f9f9f9; --frame: #606060; }
+.box-blue { --back: #f2f2ff; --frame: #0000bf; }
+`;
+
+interface RenderedHeading {
+    level: number;
+    id: string;
+    /** Heading text with math as TeX, for the page title */
+    text: string;
+    /** Inline HTML of the heading, for the table of contents */
+    html: string;
+    /** Index of the heading_open token */
+    token: number;
+}
+
+interface RenderEnv {
+    math: Array<{ tex: string; displayMode: boolean }>;
+    headings: RenderedHeading[];
+    ids: Set<string>;
+    /** Anchor of every numbered statement and section, keyed like "theorem 2.1" */
+    references: Map<string, string>;
+}
+
+/**
+ * Renders Markdown notes as a standalone HTML page that needs no network access: math is
+ * rendered to MathML with KaTeX, headings get anchors and a table of contents, boxed
+ * statements (`> **Theorem:** ...`) are styled like their tcolorbox counterparts, and
+ * references such as "Theorem 2.1" or "Section 3" link to what they name.
+ */
+export function renderHTML(markdown: string, options: HTMLRenderOptions = {}): string {
+    const env: RenderEnv = { math: [], headings: [], ids: new Set(), references: new Map() };
+    const md = createParser();
+    const tokens = md.parse(replaceMath(markdown, env), env);
+
+    // A single level-1 heading is the title of the page rather than a section
+    const topHeadings = env.headings.filter(heading => heading.level === 1);
+    const titleHeading = topHeadings.length === 1 ? topHeadings[0] : undefined;
+    if (titleHeading) {
+        tokens.splice(titleHeading.token, 3);
+    }
+    const title = options.title ?? titleHeading?.text ?? 'Lecture Notes';
+    const titleHTML = options.title !== undefined || !titleHeading ? md.utils.escapeHtml(title) : titleHeading.html;
+    const titleId = titleHeading?.id ?? uniqueId('top', env);
+
+    const tocDepth = options.tocDepth ?? 3;
+    const entries = env.headings.filter(heading => heading !== titleHeading && heading.level <= tocDepth);
+    const toc = options.tableOfContents === false || entries.length === 0
+        ? ''
+        : `<nav class="toc" aria-label="Contents">\n<details open>\n<summary>Contents</summary>\n${tableOfContents(entries)}\n</details>\n</nav>\n`;
+
+    const page = [
+        '<!DOCTYPE html>',
+        `<html lang="${md.utils.escapeHtml(options.lang ?? 'en')}">`,
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${md.utils.escapeHtml(title)}</title>`,
+        `<style>${STYLESHEET}${options.css ?? ''}</style>`,
+        '</head>',
+        '<body>',
+        `<header>\n<h1 id="${titleId}">${titleHTML}</h1>\n</header>`,
+        `${toc}<main>\n${md.renderer.render(tokens, md.options, env)}</main>`,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+
+    return page.replace(MATH_MARKER, (_, index: string) => renderMath(env.math[Number(index)], options));
+}
+
+function createParser(): MarkdownIt {
+    // Raw HTML from the model is escaped rather than trusted
+    const md = new MarkdownIt({ html: false });
+    md.core.ruler.push('lecture_notes', state => {
+        const env = state.env as RenderEnv;
+        styleBoxes(state, env);
+        anchorHeadings(md, state, env);
+        linkReferences(state, env);
+    });
+    return md;
+}
+
+/**
+ * Replaces every math span with a marker and keeps its TeX and display mode for rendering.
+ */
+function replaceMath(markdown: string, env: RenderEnv): string {
+    const spans = extractMathSpans(markdown);
+    for (const span of spans) {
+        const lineStart = markdown.lastIndexOf('\n', span.start - 1) + 1;
+        // Display math inside a blockquote repeats the > on each of its lines
+        const quoted = /^[ \t]*>/.test(markdown.slice(lineStart, span.start));
+        env.math.push({ tex: quoted ? span.tex.replace(/\n[ \t]*>[ \t]?/g, '\n') : span.tex, displayMode: span.displayMode });
+    }
+
+    let source = markdown;
+    for (let i = spans.length - 1; i >= 0; i--) {
+        source = source.slice(0, spans[i].start) + `\uE000${i}\uE001` + source.slice(spans[i].end);
+    }
+    return source;
+}
+
+function renderMath({ tex, displayMode }: RenderEnv['math'][number], options: HTMLRenderOptions): string {
+    return katex.renderToString(tex, {
+        displayMode,
+        output: 'mathml',
+        throwOnError: false,
+        strict: 'ignore',
+        macros: { ...options.macros }
+    });
+}
+
+function mathSource(text: string, env: RenderEnv): string {
+    return text.replace(MATH_MARKER, (_, index: string) => env.math[Number(index)].tex.trim());
+}
+
+/**
+ * Turns blockquotes that open with a bold statement title, such as `**Theorem 2 (Rolle):**`,
+ * into coloured boxes with a title bar.
+ */
+function styleBoxes(state: MarkdownIt.StateCore, env: RenderEnv): void {
+    const { tokens } = state;
+    const counters: Record<string, number> = {};
+
+    for (let i = 0; i < tokens.length; i++) {
+        const open = tokens[i];
+        const inline = tokens[i + 2];
+        if (open.type !== 'blockquote_open' || tokens[i + 1]?.type !== 'paragraph_open' || !inline?.children) {
+            continue;
+        }
+
+        // The inline parser leaves an empty text token in front of a leading **
+        const start = inline.children.findIndex(child => child.type !== 'text' || child.content !== '');
+        const [strongOpen, text, strongClose] = inline.children.slice(start);
+        const match = strongOpen?.type === 'strong_open' && strongClose?.type === 'strong_close' && text?.type === 'text'
+            ? text.content.trim().match(BOX_TITLE)
+            : null;
+        if (!match) {
+            continue;
+        }
+
+        const kind = match[1].toLowerCase();
+        counters[kind] = (counters[kind] ?? 0) + 1;
+        const id = uniqueId(match[2] ? slugify(`${kind} ${match[2]}`) : `${kind}-${counters[kind]}`, env);
+        if (match[2]) {
+            env.references.set(`${kind} ${match[2]}`, id);
+        }
+
+        const close = tokens.slice(i + 1).find(token => token.type === 'blockquote_close' && token.level === open.level)!;
+        open.tag = 'div';
+        close.tag = 'div';
+        open.attrSet('class', `box box-${BOX_COLOURS[kind]}`);
+        open.attrSet('id', id);
+
+        const title = new state.Token('html_block', '', 0);
+        title.content = `<div class="box-title">${state.md.utils.escapeHtml(text.content.trim().replace(/\s*[:.]$/, ''))}</div>\n`;
+
+        // Drop the bold title and whatever separated it from the statement
+        inline.children.splice(0, start + 3);
+        const first = inline.children[0];
+        if (first?.type === 'text') {
+            first.content = first.content.replace(/^[:.]?\s*/, '');
+        }
+        while (inline.children.length > 0 && isBlank(inline.children[0])) {
+            inline.children.shift();
+        }
+
+        if (inline.children.length === 0) {
+            tokens.splice(i + 1, 3, title);
+        } else {
+            tokens.splice(i + 1, 0, title);
+        }
+    }
+}
+
+function isBlank(token: MarkdownIt.Token): boolean {
+    return token.type === 'softbreak' || token.type === 'hardbreak' || token.type === 'text' && token.content === '';
+}
+
+function anchorHeadings(md: MarkdownIt, state: MarkdownIt.StateCore, env: RenderEnv): void {
+    state.tokens.forEach((token, i) => {
+        const inline = state.tokens[i + 1];
+        if (token.type !== 'heading_open' || !inline?.children) {
+            return;
+        }
+
+        const text = mathSource(inline.children.map(child => child.content).join(''), env).trim();
+        const id = uniqueId(slugify(text), env);
+        token.attrSet('id', id);
+
+        const numbered = text.match(NUMBERED_HEADING);
+        if (numbered && !env.references.has(`section ${numbered[1]}`)) {
+            env.references.set(`section ${numbered[1]}`, id);
+        }
+
+        env.headings.push({
+            level: Number(token.tag.slice(1)),
+            id,
+            text,
+            html: md.renderer.renderInline(inline.children, md.options, env),
+            token: i
+        });
+    });
+}
+
+/**
+ * Links references to numbered statements and sections, and points `#fragment` links that
+ * use a heading's text or its GitHub-style anchor at the heading's anchor.
+ */
+function linkReferences(state: MarkdownIt.StateCore, env: RenderEnv): void {
+    state.tokens.forEach((token, i) => {
+        if (token.type !== 'inline' || !token.children || state.tokens[i - 1]?.type === 'heading_open') {
+            return;
+        }
+
+        let linkDepth = 0;
+        token.children = token.children.flatMap(child => {
+            if (child.type === 'link_open') {
+                linkDepth++;
+                const href = child.attrGet('href');
+                if (href?.startsWith('#') && !env.ids.has(href.slice(1))) {
+                    const fragment = safeDecode(href.slice(1));
+                    const id = env.ids.has(slugify(fragment))
+                        ? slugify(fragment)
+                        : env.headings.find(heading => headingAnchor(heading.text) === fragment)?.id;
+                    if (id) {
+                        child.attrSet('href', `#${id}`);
+                    }
+                }
+                return [child];
+            }
+            if (child.type === 'link_close') {
+                linkDepth--;
+                return [child];
+            }
+            return child.type === 'text' && linkDepth === 0 ? linkText(state, child, env) : [child];
+        });
+    });
+}
+
+function linkText(state: MarkdownIt.StateCore, text: MarkdownIt.Token, env: RenderEnv): MarkdownIt.Token[] {
+    const tokens: MarkdownIt.Token[] = [];
+    let last = 0;
+
+    const push = (type: string, tag: string, nesting: 1 | 0 | -1, content = '') => {
+        const token = new state.Token(type, tag, nesting);
+        token.content = content;
+        tokens.push(token);
+        return token;
+    };
+
+    for (const match of text.content.matchAll(REFERENCE)) {
+        const id = env.references.get(`${match[1].toLowerCase()} ${match[2]}`);
+        if (!id) {
+            continue;
+        }
+        if (match.index! > last) {
+            push('text', '', 0, text.content.slice(last, match.index));
+        }
+        push('link_open', 'a', 1).attrSet('href', `#${id}`);
+        push('text', '', 0, match[0]);
+        push('link_close', 'a', -1);
+        last = match.index! + match[0].length;
+    }
+
+    if (tokens.length === 0) {
+        return [text];
+    }
+    if (last < text.content.length) {
+        push('text', '', 0, text.content.slice(last));
+    }
+    return tokens;
+}
+
+function tableOfContents(headings: RenderedHeading[]): string {
+    const base = Math.min(...headings.map(heading => heading.level));
+    let html = '';
+    let depth = 0;
+
+    for (const heading of headings) {
+        const level = heading.level - base + 1;
+        html += level > depth
+            ? '<ul>\n<li>'.repeat(level - depth)
+            : '</li>\n</ul>\n'.repeat(depth - level) + '</li>\n<li>';
+        html += `<a href="#${heading.id}">${heading.html}</a>`;
+        depth = level;
+    }
+
+    return html + '</li>\n</ul>'.repeat(depth);
+}
+
+function slugify(text: string): string {
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'section';
+}
+
+function uniqueId(base: string, env: RenderEnv): string {
+    let id = base;
+    for (let i = 2; env.ids.has(id); i++) {
+        id = `${base}-${i}`;
+    }
+    env.ids.add(id);
+    return id;
+}
+
+function safeDecode(fragment: string): string {
+    try {
+        return decodeURIComponent(fragment);
+    } catch {
+        return fragment;
+    }
+}
@@ -2,5 +2,44 @@ export * from './services/ai.service';
 export * from './services/openai.service';
 export * from './services/gemini.service';
 export * from './services/gemini-openai.service';
+export * from './services/provider.registry';
+export * from './services/fallback.service';
+export * from './chat/lecture-chat.session';
+export * from './retrieval/course.index';
+export * from './retrieval/embedding.providers';
+export * from './media/media.sources';
+export * from './validation/response.validator';
+export * from './validation/math.validator';
+export * from './latex/latex.compiler';
+export * from './typst/typst.compiler';
+export * from './html/html.renderer';
+export * from './notebook/notebook.renderer';
+export * from './flashcards/flashcard.deck';
+export * from './quiz/quiz.questions';
+export * from './quiz/quiz.export';
+export * from './document/lecture.document';
+export * from './document/document.renderer';
+export * from './glossary/glossary';
 export * from './types/lecture.types';
-export * from './utils/text.utils';
\ No newline at end of file
+export * from './types/chat.types';
+export * from './types/retrieval.types';
+export * from './types/transcript.types';
+export * from './types/media.types';
+export * from './types/provider.types';
+export * from './types/validation.types';
+export * from './types/latex.types';
+export * from './types/typst.types';
+export * from './types/html.types';
+export * from './types/notebook.types';
+export * from './types/flashcard.types';
+export * from './types/quiz.types';
+export * from './types/document.types';
+export * from './types/glossary.types';
+export * from './utils/text.utils';
+export * from './utils/pdf.utils';
+export * from './utils/image.utils';
+export * from './utils/transcript.utils';
+export * from './utils/audio.utils';
+export * from './utils/latex.utils';
+export * from './utils/typst.utils';
+export * from './utils/schema.utils';
\ No newline at end of file
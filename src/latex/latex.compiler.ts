@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LatexCompileResult, LatexCompilerOptions, LatexEngine } from '../types/latex.types';
+import { FileProcessingError, ValidationError } from '../utils/error.utils';
+import { PDFOutput, runCompiler } from '../utils/compiler.utils';
+import { parseLatexLog } from '../utils/latex.utils';
+
+const SOURCE_FILE = 'main.tex';
+
+const ENGINE_ARGS: Record<LatexEngine, string[]> = {
+    pdflatex: ['-interaction=nonstopmode', '-file-line-error', '-no-shell-escape'],
+    // latexmk reruns the engine until cross-references and the glossary settle, and runs makeindex
+    latexmk: ['-pdf', '-interaction=nonstopmode', '-file-line-error', '-no-shell-escape'],
+    tectonic: ['--keep-logs', '--chatter', 'minimal', '--untrusted']
+};
+
+/**
+ * Compiles LaTeX documents with a locally installed engine, which must be installed separately.
+ * Every compilation runs in a fresh temporary directory with shell escape disabled and kpathsea
+ * restricted to reading and writing files below it; only the PDF is kept.
+ */
+export class LatexCompiler {
+    private readonly options: Required<Omit<LatexCompilerOptions, 'outputDir'>> & Pick<LatexCompilerOptions, 'outputDir'>;
+    private readonly output: PDFOutput;
+
+    constructor(options: LatexCompilerOptions = {}) {
+        const engine = options.engine ?? 'pdflatex';
+        if (!(engine in ENGINE_ARGS)) {
+            throw new ValidationError(`Unsupported LaTeX engine: ${engine}`);
+        }
+
+        this.options = {
+            engine,
+            binary: options.binary ?? engine,
+            timeoutMs: options.timeoutMs ?? 60000,
+            outputDir: options.outputDir,
+            jobName: options.jobName ?? 'lecture-notes',
+            extraArgs: options.extraArgs ?? []
+        };
+        this.output = new PDFOutput(options.outputDir);
+    }
+
+    async compile(source: string): Promise<LatexCompileResult> {
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'latex-'));
+        try {
+            await fs.writeFile(path.join(workDir, SOURCE_FILE), source, 'utf-8');
+            const output = await this.run(workDir);
+
+            const log = await fs.readFile(path.join(workDir, 'main.log'), 'utf-8').catch(() => {
+                throw new FileProcessingError(`${this.options.engine} did not write a log: ${output}`);
+            });
+            const { errors, warnings } = parseLatexLog(log, SOURCE_FILE);
+            const pdfPath = await this.output.keep(path.join(workDir, 'main.pdf'), this.options.jobName);
+
+            return {
+                success: errors.length === 0 && pdfPath !== undefined,
+                ...(pdfPath ? { pdfPath } : {}),
+                errors,
+                warnings,
+                log
+            };
+        } finally {
+            await fs.rm(workDir, { recursive: true, force: true });
+        }
+    }
+
+    // Paranoid kpathsea settings keep the engine from reading or writing outside the working directory
+    private run(workDir: string): Promise<string> {
+        const { engine, binary, timeoutMs, extraArgs } = this.options;
+        return runCompiler({
+            binary,
+            args: [...ENGINE_ARGS[engine], ...extraArgs, SOURCE_FILE],
+            cwd: workDir,
+            timeoutMs,
+            env: { ...process.env, openin_any: 'p', openout_any: 'p', shell_escape: 'f' },
+            tool: engine,
+            installHint: 'install a TeX distribution'
+        });
+    }
+}
@@ -0,0 +1,207 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    CaptionTrack,
+    LocalMediaEntry,
+    MediaInfo,
+    MediaSource,
+    YtDlpMediaSourceOptions
+} from '../types/media.types';
+import { TranscriptFileFormat } from '../types/transcript.types';
+import { FileProcessingError, ValidationError } from '../utils/error.utils';
+import { detectTranscriptFormat } from '../utils/transcript.utils';
+
+interface YtDlpTrack {
+    ext: string;
+    url: string;
+}
+
+interface YtDlpInfo {
+    id: string;
+    title: string;
+    webpage_url?: string;
+    duration?: number;
+    subtitles?: Record<string, YtDlpTrack[]>;
+    automatic_captions?: Record<string, YtDlpTrack[]>;
+}
+
+const CAPTION_FORMATS: TranscriptFileFormat[] = ['vtt', 'srt'];
+
+/**
+ * Media source backed by the yt-dlp command-line tool, which must be installed separately.
+ * Video metadata is fetched once per URL and reused for the caption lookup.
+ */
+export class YtDlpMediaSource implements MediaSource {
+    private readonly options: Required<YtDlpMediaSourceOptions>;
+    private readonly info = new Map<string, Promise<YtDlpInfo>>();
+
+    constructor(options: YtDlpMediaSourceOptions = {}) {
+        this.options = {
+            binary: options.binary ?? 'yt-dlp',
+            includeAutomaticCaptions: options.includeAutomaticCaptions ?? true,
+            extraArgs: options.extraArgs ?? []
+        };
+    }
+
+    async getInfo(url: string): Promise<MediaInfo> {
+        const info = await this.loadInfo(url);
+        return {
+            id: info.id,
+            title: info.title,
+            url: info.webpage_url ?? url,
+            durationSeconds: info.duration
+        };
+    }
+
+    async getCaptions(url: string, languages: string[]): Promise<CaptionTrack | undefined> {
+        const info = await this.loadInfo(url);
+        const candidates: Array<[Record<string, YtDlpTrack[]> | undefined, boolean]> = [
+            [info.subtitles, false],
+            [this.options.includeAutomaticCaptions ? info.automatic_captions : undefined, true]
+        ];
+
+        for (const [tracks, automatic] of candidates) {
+            const match = pickTrack(tracks ?? {}, languages);
+            if (match) {
+                const response = await fetch(match.track.url);
+                if (!response.ok) {
+                    throw new FileProcessingError(`Failed to download captions: HTTP ${response.status}`);
+                }
+                return {
+                    language: match.language,
+                    format: match.track.ext as TranscriptFileFormat,
+                    content: await response.text(),
+                    automatic
+                };
+            }
+        }
+
+        return undefined;
+    }
+
+    async downloadAudio(url: string, outputDir: string): Promise<string> {
+        const output = await this.run([
+            '--no-playlist',
+            '--extract-audio',
+            '--audio-format', 'mp3',
+            '--output', path.join(outputDir, '%(id)s.%(ext)s'),
+            '--print', 'after_move:filepath',
+            url
+        ]);
+
+        const filePath = output.trim().split('\n').pop();
+        if (!filePath) {
+            throw new FileProcessingError('yt-dlp did not report the downloaded audio file');
+        }
+        return filePath;
+    }
+
+    private loadInfo(url: string): Promise<YtDlpInfo> {
+        let info = this.info.get(url);
+        if (!info) {
+            info = this.run(['--dump-single-json', '--no-playlist', '--skip-download', url])
+                .then(output => JSON.parse(output) as YtDlpInfo);
+            info.catch(() => this.info.delete(url));
+            this.info.set(url, info);
+        }
+        return info;
+    }
+
+    private run(args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(
+                this.options.binary,
+                ['--no-warnings', ...this.options.extraArgs, ...args],
+                { maxBuffer: 64 * 1024 * 1024 },
+                (error, stdout, stderr) => {
+                    if (error) {
+                        reject(new FileProcessingError(`yt-dlp failed: ${stderr || error.message}`, error));
+                    } else {
+                        resolve(stdout);
+                    }
+                }
+            );
+        });
+    }
+}
+
+/**
+ * Media source that serves registered URLs from local files, for tests and for
+ * recordings that were downloaded ahead of time.
+ */
+export class LocalMediaSource implements MediaSource {
+    constructor(private readonly entries: Record<string, LocalMediaEntry>) {}
+
+    async getInfo(url: string): Promise<MediaInfo> {
+        const entry = this.entry(url);
+        return {
+            id: entry.id ?? url,
+            title: entry.title,
+            url,
+            durationSeconds: entry.durationSeconds
+        };
+    }
+
+    async getCaptions(url: string, languages: string[]): Promise<CaptionTrack | undefined> {
+        const captions = this.entry(url).captions;
+        if (!captions || (captions.language && !languages.some(language => matchesLanguage(captions.language!, language)))) {
+            return undefined;
+        }
+
+        const content = captions.content ?? (captions.path ? await fs.readFile(captions.path, 'utf-8') : undefined);
+        if (!content) {
+            throw new ValidationError(`Captions for ${url} need a path or content`);
+        }
+
+        return {
+            language: captions.language ?? languages[0],
+            format: captions.format ?? detectTranscriptFormat(content),
+            content
+        };
+    }
+
+    async downloadAudio(url: string, outputDir: string): Promise<string> {
+        const { audioPath } = this.entry(url);
+        if (!audioPath) {
+            throw new FileProcessingError(`No audio registered for ${url}`);
+        }
+
+        const target = path.join(outputDir, path.basename(audioPath));
+        await fs.copyFile(audioPath, target);
+        return target;
+    }
+
+    private entry(url: string): LocalMediaEntry {
+        const entry = this.entries[url];
+        if (!entry) {
+            throw new ValidationError(`No local media registered for ${url}`);
+        }
+        return entry;
+    }
+}
+
+function pickTrack(
+    tracks: Record<string, YtDlpTrack[]>,
+    languages: string[]
+): { language: string; track: YtDlpTrack } | undefined {
+    for (const language of languages) {
+        for (const [code, formats] of Object.entries(tracks)) {
+            if (!matchesLanguage(code, language)) {
+                continue;
+            }
+            for (const ext of CAPTION_FORMATS) {
+                const track = formats.find(format => format.ext === ext);
+                if (track) {
+                    return { language: code, track };
+                }
+            }
+        }
+    }
+    return undefined;
+}
+
+// 'en' matches regional variants such as 'en-GB'
+function matchesLanguage(code: string, language: string): boolean {
+    return code === language || code.startsWith(`${language}-`);
+}
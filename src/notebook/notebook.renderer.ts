@@ -0,0 +1,180 @@
+import MarkdownIt from 'markdown-it';
+import { Notebook, NotebookCell, NotebookKernel, NotebookRenderOptions } from '../types/notebook.types';
+
+// Headings of the sections whose exercises get an empty cell for the answer
+const EXERCISE_HEADING = /\b(exercises?|problem sets?|practice problems|homework)\b/i;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+    py: 'python',
+    python3: 'python',
+    ipython: 'python',
+    js: 'javascript',
+    ts: 'typescript',
+    'c++': 'cpp',
+    jl: 'julia',
+    sh: 'bash',
+    shell: 'bash'
+};
+
+// Blocks that become code cells but are not code a kernel runs, so they do not decide the kernel
+const NON_CODE_LANGUAGES = ['text', 'plaintext', 'pseudocode', 'algorithm', 'output', 'console', 'math', 'latex', 'tex'];
+
+// Jupyter renders these inside Markdown cells
+const MARKDOWN_FENCES = ['mermaid'];
+
+const KERNELS: Record<string, NotebookKernel> = {
+    python: { name: 'python3', displayName: 'Python 3' },
+    r: { name: 'ir', displayName: 'R' },
+    julia: { name: 'julia', displayName: 'Julia' },
+    cpp: { name: 'xcpp17', displayName: 'C++17' },
+    javascript: { name: 'javascript', displayName: 'JavaScript (Node.js)' }
+};
+
+/**
+ * Turns Markdown notes into an nbformat v4 notebook. Prose and math become Markdown cells,
+ * starting a new one at every heading, fenced code and algorithms become code cells with
+ * their language in the cell metadata, and every exercise of an exercises section is followed
+ * by an empty code cell for the answer. Returns the notebook as JSON.
+ */
+export function renderNotebook(markdown: string, options: NotebookRenderOptions = {}): string {
+    const lines = markdown.split('\n');
+    const tokens = new MarkdownIt().parse(markdown, {});
+    const language = normalizeLanguage(options.language ?? '') || kernelLanguage(tokens);
+    const kernel = options.kernel ?? KERNELS[language] ?? { name: language, displayName: language };
+
+    const cells: NotebookCell[] = [];
+    const nextId = () => `cell-${cells.length + 1}`;
+    let prose: string[] = [];
+    // Level of the exercises heading while inside its section
+    let exerciseLevel: number | undefined;
+    // What still needs an answer cell: the exercises section itself, or the exercise under a subheading
+    let unanswered: 'none' | 'section' | 'exercise' = 'none';
+
+    const flush = () => {
+        if (prose.length > 0) {
+            cells.push(markdownCell(prose.join('\n\n'), nextId()));
+            prose = [];
+        }
+    };
+    const answer = () => {
+        flush();
+        cells.push(codeCell('', language, nextId(), ['exercise']));
+        unanswered = 'none';
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.level !== 0 || token.nesting === -1 || !token.map) {
+            continue;
+        }
+        const source = blockSource(lines, token.map);
+
+        if (token.type === 'heading_open') {
+            const level = Number(token.tag.slice(1));
+            if (exerciseLevel !== undefined && level <= exerciseLevel) {
+                if (unanswered !== 'none') {
+                    answer();
+                }
+                exerciseLevel = undefined;
+            } else if (unanswered === 'exercise') {
+                answer();
+            }
+            flush();
+
+            if (exerciseLevel === undefined && EXERCISE_HEADING.test(tokens[i + 1].content)) {
+                exerciseLevel = level;
+                unanswered = 'section';
+            } else if (exerciseLevel !== undefined) {
+                unanswered = 'exercise';
+            }
+            prose.push(source);
+            continue;
+        }
+
+        if (token.type === 'fence') {
+            const info = token.info.trim().split(/\s+/)[0].toLowerCase();
+            if (MARKDOWN_FENCES.includes(info)) {
+                prose.push(source);
+                continue;
+            }
+            flush();
+            cells.push(codeCell(token.content.replace(/\n$/, ''), normalizeLanguage(info) || 'text', nextId()));
+            continue;
+        }
+
+        if (exerciseLevel !== undefined && (token.type === 'ordered_list_open' || token.type === 'bullet_list_open')) {
+            flush();
+            const close = tokens.findIndex((other, j) => j > i && other.level === 0 && other.type === token.type.replace('_open', '_close'));
+            for (const item of tokens.slice(i + 1, close)) {
+                if (item.type === 'list_item_open' && item.level === 1 && item.map) {
+                    cells.push(markdownCell(blockSource(lines, item.map), nextId()));
+                    answer();
+                }
+            }
+            i = close;
+            continue;
+        }
+
+        prose.push(source);
+    }
+
+    if (unanswered !== 'none') {
+        answer();
+    }
+    flush();
+
+    const notebook: Notebook = {
+        cells,
+        metadata: {
+            kernelspec: { display_name: kernel.displayName, language, name: kernel.name },
+            language_info: { name: language }
+        },
+        nbformat: 4,
+        nbformat_minor: 5
+    };
+    return `${JSON.stringify(notebook, null, 1)}\n`;
+}
+
+/**
+ * The most common language among the code blocks that a kernel could run, 'python' when
+ * there are none.
+ */
+function kernelLanguage(tokens: MarkdownIt.Token[]): string {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+        const language = token.type === 'fence' ? normalizeLanguage(token.info.trim().split(/\s+/)[0]) : '';
+        if (language && !NON_CODE_LANGUAGES.includes(language) && !MARKDOWN_FENCES.includes(language)) {
+            counts.set(language, (counts.get(language) ?? 0) + 1);
+        }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'python';
+}
+
+function normalizeLanguage(language: string): string {
+    const name = language.toLowerCase();
+    return LANGUAGE_ALIASES[name] ?? name;
+}
+
+function blockSource(lines: string[], [start, end]: [number, number]): string {
+    return lines.slice(start, end).join('\n').replace(/^\n+/, '').trimEnd();
+}
+
+function markdownCell(source: string, id: string): NotebookCell {
+    return { cell_type: 'markdown', id, metadata: {}, source: sourceLines(source) };
+}
+
+function codeCell(source: string, language: string, id: string, tags?: string[]): NotebookCell {
+    return {
+        cell_type: 'code',
+        execution_count: null,
+        id,
+        metadata: { language, ...(tags ? { tags } : {}) },
+        outputs: [],
+        source: sourceLines(source)
+    };
+}
+
+// nbformat stores a cell's source as its lines, each but the last ending with a newline
+function sourceLines(source: string): string[] {
+    return source === '' ? [] : source.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\n` : line));
+}
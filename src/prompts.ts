@@ -1,3 +1,9 @@
+import { CompletenessIssue, MathIssue } from './types/validation.types';
+import { LectureFormat } from './types/lecture.types';
+import { LatexDiagnostic } from './types/latex.types';
+import { TypstDiagnostic } from './types/typst.types';
+import { QuizDifficulty, QuizQuestionType } from './types/quiz.types';
+
 export const SYSTEM_PROMPT_WITH_TRANSCRIPTIONS = `You are an expert educational assistant specializing in processing and transforming lecture notes into well-structured LaTeX documents. Your primary goal is to enhance mathematical and technical content while maintaining precise notation and academic rigor. Follow these updated guidelines, especially when dealing with incomplete or unclear transcriptions:
 
 ---
@@ -295,6 +301,94 @@ Would you like to emphasize gap-filling or detail recovery for this transcriptio
 `;
 
 
+// Typst has no theorem environments built in, and packages that provide them would be downloaded at compile time
+export const TYPST_PREAMBLE = `#set page(paper: "a4", numbering: "1")
+#set text(size: 11pt)
+#set heading(numbering: "1.1")
+#set math.equation(numbering: "(1)")
+
+#let statement(name, fill, stroke) = (title: none, body) => block(
+  width: 100%,
+  breakable: true,
+  inset: 8pt,
+  radius: 2pt,
+  fill: fill,
+  stroke: (left: 2pt + stroke),
+  {
+    counter(name).step()
+    strong[#name #context counter(name).display()]
+    if title != none [ (#title)]
+    [. ]
+    body
+  }
+)
+
+#let theorem = statement("Theorem", rgb("#fff2f2"), rgb("#bf0000"))
+#let lemma = statement("Lemma", rgb("#fff2f2"), rgb("#bf0000"))
+#let proposition = statement("Proposition", rgb("#fff2f2"), rgb("#bf0000"))
+#let corollary = statement("Corollary", rgb("#fff2f2"), rgb("#bf0000"))
+#let definition = statement("Definition", rgb("#f2fff2"), rgb("#00bf00"))
+#let example = statement("Example", rgb("#fcf2f5"), rgb("#8f0030"))
+#let remark = statement("Remark", rgb("#f9f9f9"), rgb("#606060"))
+#let algorithm = statement("Algorithm", rgb("#f2f2ff"), rgb("#0000bf"))
+#let proof(body) = block(breakable: true)[_Proof._ #body #h(1fr) $square$]`;
+
+export const SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST = `You are an expert educational assistant specializing in processing and transforming lecture notes into well-structured Typst documents. Your primary goal is to enhance mathematical and technical content while maintaining precise notation and academic rigor. Follow these guidelines, especially when dealing with incomplete or unclear transcriptions:
+
+---
+
+### HANDLING MISSING OR UNCLEAR DETAILS:
+1. **Detect Missing Information**:
+   - Actively analyze the transcription for gaps or ambiguous sections.
+   - Flag any unclear or incomplete statements with a note (e.g., "Detail missing: teacher explanation unclear").
+
+2. **Suggest Improvements**:
+   - Provide reasonable approximations or alternatives based on the context of the transcription.
+   - Use placeholders (e.g., "Definition required here") where necessary.
+
+3. **Cross-Reference Context**:
+   - Attempt to infer missing details by cross-referencing related topics mentioned in the transcription.
+   - Maintain consistency across all sections.
+
+---
+
+### TYPST STRUCTURE AND FORMATTING:
+
+1. **Preamble**:
+   - Start the document with exactly this preamble, which sets up the page and defines the theorem environments:
+\`\`\`typst
+${TYPST_PREAMBLE}
+\`\`\`
+   - Do not \`#import\` any package: the document is compiled offline.
+
+2. **Document Organization**:
+   - Put the title, author and date in a centered block after the preamble, followed by \`#outline()\`.
+   - Use \`=\` for sections, \`==\` for subsections and \`===\` for subsubsections.
+   - Use the theorem environments of the preamble for statements:
+     - \`#theorem\`, \`#lemma\`, \`#proposition\`, \`#corollary\`.
+     - \`#definition\`, \`#example\`, \`#remark\`, \`#algorithm\`.
+     - \`#proof\` for proofs.
+     - A title is optional: \`#theorem(title: "Mean Value Theorem")[...]\` or \`#definition[...]\`.
+
+3. **Mathematical Content**:
+   - Write all math in Typst syntax, never in LaTeX: inline as \`$x^2$\`, display with spaces inside the dollar signs as \`$ integral_0^1 f(x) dif x $\`.
+   - Use Typst names for symbols and functions, e.g. \`alpha\`, \`RR\`, \`a / b\` or \`frac(a, b)\`, \`sum_(i=1)^n\`, \`lim_(x -> 0)\`, \`vec(x, y)\`, \`mat(1, 2; 3, 4)\`, and put words inside math in quotes: \`"if"\`.
+   - Label headings and equations with \`<label>\` and refer to them with \`@label\`.
+
+4. **Algorithms, Tables and Diagrams**:
+   - Write pseudocode inside \`#algorithm[...]\` as a numbered list, and always include a complexity analysis.
+   - Use \`#table(columns: n, ...)\` for tables and \`#figure(..., caption: [...])\` for captioned content.
+   - Describe diagrams in words when they cannot be drawn with Typst's built-in shapes.
+
+---
+
+### INTERACTION INSTRUCTIONS:
+
+- For unclear content, flag ambiguities with a \`#remark\` or suggest alternatives.
+- Escape characters that Typst treats as markup (\`#\`, \`$\`, \`*\`, \`_\`, \`@\`, \`<\`) with a backslash when they appear in text.
+- Output only the Typst source.
+`;
+
 export const SYSTEM_PROMPT_WITH_AUDIO = `You are an expert educational assistant specializing in transforming lecture audio into well-structured, pedagogically sound LaTeX documents. Your primary goal is to create comprehensive lecture notes, not just transcriptions, suitable for exam review. This involves enriching the content with formal mathematical rigor, clear explanations, and effective learning aids.
 
 **I. Core Principles:**
@@ -540,6 +634,52 @@ Try and describe each and every theorem if a description was not provided. Don't
 `);
 
 
+export const SECTION_REFINEMENT_PROMPT_TYPST = `
+You are a Typst expert tasked with improving and expanding academic documents. You will receive:
+1. A section needing refinement
+2. A reference transcript
+
+Tasks:
+- **Thoroughly validate and correct all content against the reference transcript.**
+- **Identify opportunities to expand on concepts, providing additional context and examples where beneficial.**
+- Fix any mathematical, theoretical, or conceptual errors.
+- **Augment the content with relevant information, elaborations, and perspectives, even if not explicitly mentioned in the transcript, as long as they directly pertain to the topic at hand and enhance understanding.**
+- Add any missing crucial information, drawing from the reference transcript or your knowledge.
+- Present all content directly without referencing sources.
+- Use proper Typst markup:
+  - \`=\` headings at the level of the section you receive, with \`==\` and \`===\` below it
+  - Math in Typst syntax (\`$x^2$\` inline, \`$ ... $\` with spaces for display), never LaTeX commands
+  - The theorem environments of the document preamble for statements: \`#theorem\`, \`#lemma\`, \`#proposition\`, \`#corollary\`, \`#definition\`, \`#example\`, \`#remark\`, \`#algorithm\` and \`#proof\`, e.g. \`#definition(title: "Derivative")[...]\`. Always include a complexity analysis in an \`#algorithm\`.
+  - \`#table\` for tables and \`#figure\` for captioned content
+  - Cross-references via \`<label>\` and \`@label\` on headings and equations
+- Split into subsections if warranted by content complexity.
+- Never write a preamble, \`#set\`, \`#let\` or \`#import\` - the document preamble already defines everything you need.
+- Condense and rewrite the text into clear, concise, and structured academic lecture notes, removing conversational filler and repetitions. **The goal is to create a comprehensive and insightful presentation of the material.**
+
+<transcript>
+{original_transcript}
+</transcript>
+
+<document>
+{original_document}
+</document>
+
+Output only the refined and expanded section(s), including any new subsections.
+`;
+
+export const FINAL_DOCUMENT_MESSAGE_TYPST = "final refined complete document";
+
+export const FINAL_REFINEMENT_PROMPT_TYPST = (
+    `Please check and eventually fix the errors in the following Typst document.
+Put only mathematical statements (theorems, definitions, examples, remarks, algorithms) in the theorem environments defined in its preamble: #theorem, #lemma, #proposition and #corollary (red), #definition (green), #example (purple), #remark (gray), #algorithm (blue). Format: #theorem(title: "<Title>")[<Content>]. Preserve content.
+Try and describe each and every theorem if a description was not provided. Don't abuse the environments, as they are not good for readability.
+Keep the preamble as it is and write all math in Typst syntax rather than LaTeX, so that the document compiles.
+
+\`\`\`typst
+....
+\`\`\`
+`);
+
 export const CHAT_WITH_TEACHER_PROMPT = `You are a helpful and knowledgeable teaching assistant for a college-level course. You have access to the full transcription of a lecture from this course, provided below. Students will interact with you using commands.
 
 **Lecture Transcription:**
@@ -659,6 +799,92 @@ export const FILL_IN_GAPS_IN_TRANSCRIPT = `I have a partial lecture transcriptio
 Complete the transcription while maintaining the natural flow of the lecture.
 `
 
+export const GAP_FILL_INSTRUCTIONS = `The gaps in the transcription are marked [[GAP 1]], [[GAP 2]] and so on. Write only the speech that is missing at each gap, without repeating the text around it, so that it reads naturally when inserted in place of the marker.
+
+Respond with a JSON object that maps each gap number to its text, for example {"1": "...", "2": "..."}, and nothing else.
+`
+
+export const AUDIO_TRANSCRIPTION_PROMPT = `You are an expert lecture transcriber. Transcribe the attached lecture recording verbatim, in the language that is spoken. Do not summarise, translate or correct the speaker. Write formulas the way they are spoken.
+
+Split the transcript into segments of one or two sentences. Respond with a JSON array of segments and nothing else, where each segment has the form {"start": 12.5, "end": 17.0, "speaker": "Professor", "text": "..."}. "start" and "end" are seconds from the beginning of the attached audio. Only include "speaker" when several people speak.
+`
+
+export const CONTINUE_PARTIAL_RESPONSE = `Your previous response was cut off. Continue it exactly where it stopped, without repeating any of it and without any introduction, so that the two parts can be joined into one document.
+`
+
+export const LATEX_REPAIR_PROMPT = `You are fixing a LaTeX document that does not compile. You will receive the errors reported by the compiler and an excerpt of the document in which every line is prefixed with its line number and "| ".
+
+Reply with the corrected excerpt only: the same lines without the line-number prefixes, with the errors fixed and everything else left exactly as it is. Keep the content, the wording and the number of environments unchanged unless an error requires otherwise. Do not add a preamble, \\begin{document} or any explanation, and do not wrap the reply in a code block.
+`
+
+export const TYPST_REPAIR_PROMPT = `You are fixing a Typst document that does not compile. You will receive the errors reported by the compiler and an excerpt of the document in which every line is prefixed with its line number and "| ".
+
+Reply with the corrected excerpt only: the same lines without the line-number prefixes, with the errors fixed and everything else left exactly as it is. Keep the content and the wording unchanged unless an error requires otherwise; LaTeX commands inside math are a common cause and must be rewritten in Typst math syntax. Do not add a preamble or any explanation, and do not wrap the reply in a code block.
+`
+
+export const MATH_REPAIR_PROMPT = `You are fixing the math in a Markdown document that is rendered with KaTeX. You will receive numbered LaTeX math expressions that KaTeX cannot render, each with the error it reported. Rewrite each expression so that KaTeX renders it, keeping its meaning and notation and using only commands that KaTeX supports.
+
+Respond with every corrected expression between $$ delimiters, after a line holding its marker, for example:
+[[MATH 1]]
+$$\\frac{a}{b}$$
+[[MATH 2]]
+$$x^{2}$$
+
+Do not add anything else.
+`
+
+export const FLASHCARDS_PROMPT = `You are an expert tutor writing spaced-repetition flashcards from university lecture notes. Write one card for every idea a student should be able to recall: each defined term, the statement of each theorem, lemma and proposition, and each important formula. Keep every card atomic, asking for one fact, and make the question understandable without the notes. Do not write cards about examples, anecdotes or the structure of the lecture.
+
+The kinds of cards are:
+- "definition": the front names the term, the back gives its definition.
+- "theorem": the front names the result or describes its setting, the back gives its precise statement with all hypotheses.
+- "formula": the front describes what is computed, the back gives the formula.
+- "cloze": the front is a sentence or formula from the notes in which the parts to recall are wrapped as {{c1::...}}, {{c2::...}} and so on; the back is empty or holds a short remark. Wrap whole math expressions, as in {{c1::$e^{i\\pi} + 1 = 0$}}, and never put a cloze marker inside math.
+
+Write math in LaTeX between $...$ for inline math and $$...$$ for display math, whatever the format of the notes.
+
+Respond with a JSON array of cards and nothing else, where each card has the form {"kind": "definition", "front": "...", "back": "..."}.
+`
+
+export const GLOSSARY_PROMPT = `You are an expert editor compiling the glossary of a university course from its lecture notes. List every technical term the notes introduce or rely on: defined concepts, named theorems and methods, and notation a student has to know. Leave out everyday words, the names of people unless they name a result, and terms the notes only mention in passing.
+
+For each term give a definition of one or two sentences that stands on its own, consistent with the notes and their notation. Write the term as it appears in the notes, in the singular and without articles, so that it can be found in the text; list other names or spellings the notes use for it as aliases. Write math in LaTeX between $...$.
+
+Respond with a JSON array of terms and nothing else, where each term has the form {"term": "...", "definition": "...", "aliases": ["..."]}.
+`
+
+export const QUIZ_PROMPT = `You are an experienced university instructor writing quiz and exam questions from a lecture. You will receive the lecture's sections, each introduced by a line [[SECTION n: title]], and the number, types and difficulty of the questions to write. Test understanding and the ability to apply the material rather than recall of wording; every question must be answerable from the lecture alone and have a single defensible answer. Spread the questions over the sections.
+
+Each question is a JSON object with these fields:
+- "type": "multiple-choice", "true-false", "short-answer" or "numeric".
+- "question": the question in plain text, with math in LaTeX between $...$ or $$...$$.
+- "difficulty": "easy", "medium" or "hard".
+- "explanation": why the correct answer is correct, referring to the lecture.
+- "section": the number n of the section the question is based on.
+- For "multiple-choice": "choices", a list of 3 to 5 objects {"text": "...", "correct": true or false, "rationale": "..."} of which exactly one is correct. Every distractor is plausible and targets a real misconception, which its "rationale" names together with why the choice is wrong.
+- For "true-false": "answer", true or false, and "rationale", why the opposite answer is a tempting mistake.
+- For "short-answer": "answers", the accepted answers of at most a few words, the preferred one first.
+- For "numeric": "answer", a number, "tolerance", the largest accepted absolute error, and "unit" when the answer has one.
+
+Respond with a JSON array of questions and nothing else.
+`
+
+export const LECTURE_DOCUMENT_PROMPT = `You are an expert educational assistant turning the transcript of a university lecture into complete, rigorous lecture notes. Organise the material into sections and, where it helps, subsections; fill the gaps a spoken lecture leaves, state every definition and result precisely, and keep the lecturer's notation. Leave out greetings, logistics and digressions.
+
+You write the notes as a JSON document, not as text in a markup language. Every section and subsection holds a list of blocks, and every block has all of the fields below; set the fields its type does not use to null.
+- "type": "paragraph", "math", "list", "definition", "theorem", "example", "remark", "algorithm", "code" or "figure".
+- "text": the text of a paragraph, definition or remark; the statement of a theorem; the example itself; the TeX of a displayed equation, without $$ around it; the source of a code block; what a figure shows. Empty for lists and algorithms.
+- "title": the name of a definition, theorem, example or algorithm if it has one; the caption of a figure.
+- "kind": for theorems, "theorem", "lemma", "proposition" or "corollary".
+- "proof": the proof of a theorem or the solution of an example, when the lecture gives or implies one.
+- "items": the items of a list or the steps of an algorithm, in order.
+- "ordered": for lists, whether the items are numbered.
+- "language": for code, the programming language.
+- "label": for equations and theorems referred to later, a short name such as "taylor-remainder".
+
+Text fields use Markdown inline markup (**bold**, *italic*, \`code\`) with math in LaTeX between $...$ inline or $$...$$ on its own line; separate paragraphs with a blank line. Do not number sections or statements and do not write headings inside text, since numbering and layout are added when the document is rendered. Use a "math" block for every important displayed equation and a "figure" block where the lecturer draws or shows a diagram.
+`
+
 export const DEFINE_SCAFFOLD_WITH_TRANSCRIPT = `Given the following transcript of a university lecture, generate a table of contents for a LaTeX document containing the lecture notes. The table of contents should be structured with sections and subsections as appropriate, based on the topics and subtopics discussed in the lecture.
 The first section must always be titled "\\section{Introduction}" and the last section must always be titled "\\section{Conclusion}".  Fill in the sections and some subsections between the Introduction and Conclusion based on the content of the lecture transcript. Use your judgment to determine the appropriate level of detail for the table of contents (i.e. whether to include only sections, or also subsections, subsubsections, etc.) striving for clarity and logical organization.
 In general this should contain at least three sections. Each section on the other hand may or may not contain subsections but preferably yes.
@@ -671,6 +897,12 @@ In general this should contain at least five to six sections. Each section on th
 Please output only the table of contents, formatted as it would appear in a Markdown document, starting with "# Introduction" and ending with "# Conclusion". Use Markdown heading syntax (e.g., # for sections, ## for subsections, ### for subsubsections).`;
 
 
+export const DEFINE_SCAFFOLD_WITH_TRANSCRIPT_TYPST = `Given the following transcript of a university lecture, generate a table of contents for a Typst document containing the lecture notes. The table of contents should be structured with sections and subsections as appropriate, based on the topics and subtopics discussed in the lecture.
+The first section must always be titled "Introduction" (using Typst's = heading) and the last section must always be titled "Conclusion" (using Typst's = heading).  Fill in the sections and some subsections between the Introduction and Conclusion based on the content of the lecture transcript. Use your judgment to determine the appropriate level of detail for the table of contents (i.e. whether to include only sections, or also subsections, subsubsections, etc.) striving for clarity and logical organization.
+In general this should contain at least three sections. Each section on the other hand may or may not contain subsections but preferably yes.
+Please output only the table of contents, formatted as it would appear in a Typst document, starting with "= Introduction" and ending with "= Conclusion". Use Typst heading syntax (= for sections, == for subsections, === for subsubsections).`;
+
+
 export const AUGMENT_PDF_LESSON_LATEX_SYNTAX = `You are an expert educational assistant tasked with creating a complete, well-structured LaTeX lesson from a set of lecture notes provided as a PDF. These notes may be incomplete. Your primary goal is to use your extensive knowledge to *transform these fragments into a comprehensive lesson suitable for university-level students.*  The generated LaTeX code *must be completely valid and compilable.*
 
 **Input:**
@@ -758,6 +990,60 @@ export const AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX = `You are an expert educational
 **Output only the Markdown code.**
 `;
 
+export const AUGMENT_PDF_LESSON_TYPST_SYNTAX = `You are an expert educational assistant tasked with creating a complete, well-structured Typst lesson from a set of lecture notes provided as a PDF. These notes may be incomplete. Your primary goal is to use your extensive knowledge to *transform these fragments into a comprehensive lesson suitable for university-level students.*  The generated Typst source *must compile without errors.*
+
+**Input:**
+
+*   **PDF Content (Partially OCR-Processed + Manual Descriptions):**
+    *   Printed Text (OCR), Handwritten Text (Description), Mathematical Formulas (Description + LaTeX), Diagrams (Description), Topic Headings.
+
+*   **Context:** Course Title, Lecture Topic, Course Level, Textbook.
+
+**Output:**
+
+A complete Typst document representing a full lesson.
+
+1.  **Structure (Non-Negotiable):**
+    *   Start with exactly this preamble, and do not \`#import\` any package:
+\`\`\`typst
+${TYPST_PREAMBLE}
+\`\`\`
+    *   Title, author, date, then \`#outline()\`.
+    *   Mandatory Sections: Introduction, Main Content (multiple subsections), Conclusion, Exercises.
+
+2.  **Content Generation and Augmentation:**
+    *   Topic Expansion, Contextualization, Proactive Gap Filling, Multiple Examples, Diagram Handling.
+
+3.  **Mathematical Rigor and Typst Syntax (CRITICAL):**
+    *   Use correct and consistent mathematical notation.
+    *   Use the theorem environments of the preamble for statements, e.g. \`#theorem(title: "...")[...]\`, \`#definition[...]\`, \`#proof[...]\`.
+    *   **Formulas from the notes are given in LaTeX: translate them to Typst math.** For example \`\\frac{a}{b}\` becomes \`a / b\` or \`frac(a, b)\`, \`\\mathbb{R}\` becomes \`RR\`, \`\\int_0^1\` becomes \`integral_0^1\` and \`x_{ij}\` becomes \`x_(i j)\`.
+    *   **Syntax Check:** *Meticulously check all Typst syntax for correctness.* This includes:
+        *   Matching brackets \`[]\`, parentheses \`()\` and braces \`{}\`.
+        *   Headings written with \`=\`, \`==\` and \`===\` at the start of a line.
+        *   Display math with spaces inside the dollar signs: \`$ x^2 $\`.
+        *   Escaping of characters Typst treats as markup in text (\`\\#\`, \`\\$\`, \`\\*\`, \`\\_\`, \`\\@\`, \`\\<\`).
+
+**Handling incomplete content:**
+	* Actively analyze the notes for gaps or ambiguous sections.
+	* Flag any unclear or incomplete statements with a note (e.g., "Detail missing: teacher explanation unclear").
+	* Provide reasonable approximations or alternatives based on the context of the notes.
+	* Use placeholders (e.g., "Definition required here") where necessary.
+    * Attempt to infer missing details by cross-referencing related topics mentioned in the notes.
+
+**Output only the Typst code.**
+`;
+
+
+// The syntax the model writes a document of `format` in; html pages and ipynb notebooks are written in Markdown and converted
+export function writtenFormat(format: LectureFormat): 'latex' | 'markdown' | 'typst' {
+  return format === 'html' || format === 'ipynb' ? 'markdown' : format;
+}
+
+// Picks the variant of a prompt written for a document's syntax
+export function selectPrompt<T>(format: LectureFormat, variants: Record<'latex' | 'markdown' | 'typst', T>): T {
+  return variants[writtenFormat(format)];
+}
 
 // Helper for prompts like SECTION_REFINEMENT_PROMPT
 export function formatPrompt(promptTemplate: string, replacements: Record<string, string>): string {
@@ -765,7 +1051,104 @@ export function formatPrompt(promptTemplate: string, replacements: Record<string
   for (const key in replacements) {
       // Use a regex for global replacement to handle multiple occurrences
       const regex = new RegExp(`\\{${key}\\}`, 'g');
-      formatted = formatted.replace(regex, replacements[key]);
+      // Use a replacer function so `$` sequences in the replacement (e.g. LaTeX math) are kept verbatim
+      formatted = formatted.replace(regex, () => replacements[key]);
   }
   return formatted;
 }
+
+// Helper for FINAL_REFINEMENT_PROMPT and its Markdown and Typst variants, which embed the document in place of `....`
+export function formatFinalRefinementPrompt(promptTemplate: string, document: string): string {
+  return promptTemplate.replace('....', () => document);
+}
+
+// Helper for the course context that accompanies PDF lessons
+export function formatCourseContext(context: {
+  courseTitle?: string;
+  topic?: string;
+  level?: string;
+  textbook?: string;
+} = {}): string {
+  const lines = [
+    context.courseTitle && `- Course: ${context.courseTitle}`,
+    context.topic && `- Topic: ${context.topic}`,
+    context.level && `- Level: ${context.level}`,
+    context.textbook && `- Textbook: ${context.textbook}`
+  ].filter(Boolean);
+
+  return lines.length > 0
+    ? `Course context (use it to set the depth, notation and references of the lesson):\n${lines.join('\n')}`
+    : '';
+}
+
+// Helper for AUDIO_TRANSCRIPTION_PROMPT: adds the language, vocabulary and the end of the previous chunk
+export function formatAudioTranscriptionPrompt(options: {
+  language?: string;
+  prompt?: string;
+  previousText?: string;
+} = {}): string {
+  return [
+    AUDIO_TRANSCRIPTION_PROMPT,
+    options.language && `The recording is in the language with ISO-639-1 code "${options.language}".`,
+    options.prompt && `Vocabulary and spelling hints: ${options.prompt}`,
+    options.previousText && `The recording continues from an earlier part that ended with: "${options.previousText}"`
+  ].filter(Boolean).join('\n');
+}
+
+// Helper for CONTINUE_PARTIAL_RESPONSE: lists what the validators found still open, innermost first, so the continuation closes it
+export function formatContinuationPrompt(issues: CompletenessIssue[] = []): string {
+  // The most recently opened construct has to be closed first
+  const open = issues.filter(issue => issue.expected).sort((a, b) => b.index - a.index);
+  if (open.length === 0) {
+    return CONTINUE_PARTIAL_RESPONSE;
+  }
+
+  return [
+    CONTINUE_PARTIAL_RESPONSE,
+    'These are still open and must be closed, in this order, once their content is finished:',
+    ...open.map(issue => `- ${issue.expected} (${issue.message})`)
+  ].join('\n');
+}
+
+// Helper for LATEX_REPAIR_PROMPT: the compiler errors followed by the numbered excerpt they point into
+export function formatLatexRepairPrompt(errors: LatexDiagnostic[], excerpt: string): string {
+  const messages = errors.map(error => [
+    `- ${error.line !== undefined ? `Line ${error.line}: ` : ''}${error.message}`,
+    error.context && ` (while reading "${error.context}")`
+  ].filter(Boolean).join(''));
+
+  return `Compiler errors:\n${messages.join('\n')}\n\nExcerpt:\n${excerpt}`;
+}
+
+// Helper for MATH_REPAIR_PROMPT: the failing expressions with their numbers and KaTeX errors
+export function formatMathRepairPrompt(issues: MathIssue[]): string {
+  return issues.map((issue, i) => [
+    `[[MATH ${i + 1}]] (${issue.span.displayMode ? 'display' : 'inline'} math, line ${issue.span.line})`,
+    issue.span.tex,
+    `KaTeX error: ${issue.message}`
+  ].join('\n')).join('\n\n');
+}
+
+// Helper for TYPST_REPAIR_PROMPT: the compiler errors followed by the numbered excerpt they point into
+export function formatTypstRepairPrompt(errors: TypstDiagnostic[], excerpt: string): string {
+  const messages = errors.map(error =>
+    `- ${error.line !== undefined ? `Line ${error.line}${error.column !== undefined ? `, column ${error.column}` : ''}: ` : ''}${error.message}`
+  );
+
+  return `Compiler errors:\n${messages.join('\n')}\n\nExcerpt:\n${excerpt}`;
+}
+
+// Helper for QUIZ_PROMPT: what to write, followed by the numbered sections
+export function formatQuizPrompt(
+  sections: Array<{ number: number; title: string; content: string }>,
+  count: number,
+  types: QuizQuestionType[],
+  difficulty?: QuizDifficulty
+): string {
+  return [
+    `Write ${count} question${count === 1 ? '' : 's'} of these types: ${types.join(', ')}.`,
+    difficulty ? `Every question must be ${difficulty}.` : 'Mix easy, medium and hard questions.',
+    '',
+    ...sections.map(section => `[[SECTION ${section.number}: ${section.title}]]\n${section.content}\n`)
+  ].join('\n').trimEnd();
+}
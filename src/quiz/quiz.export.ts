@@ -0,0 +1,219 @@
+import { LatexExamOptions, Quiz, QuizQuestion } from '../types/quiz.types';
+import { markdownInlineToLatex } from '../utils/latex.utils';
+import { toMathJaxHTML } from '../validation/math.validator';
+
+/**
+ * Writes the quiz in Moodle's GIFT format, under a question category named after the quiz.
+ * Text is HTML with math in MathJax delimiters; the section and difficulty of each question
+ * are noted in a comment above it.
+ */
+export function toMoodleGIFT(quiz: Quiz): string {
+    const blocks = quiz.questions.map((question, i) => {
+        const text = `::Q${i + 1}::[html]${giftText(questionText(question))}`;
+        const general = `####${giftText(question.explanation)}`;
+        let answers: string;
+        switch (question.type) {
+            case 'multiple-choice':
+                answers = question.choices
+                    .map(choice => `\t${choice.correct ? '=' : '~'}${giftText(choice.text)}${choice.rationale ? `#${giftText(choice.rationale)}` : ''}`)
+                    .join('\n');
+                answers = `\n${answers}\n\t${general}\n`;
+                break;
+            case 'true-false':
+                // The first feedback is shown for the wrong answer
+                answers = `${question.answer ? 'TRUE' : 'FALSE'}${question.rationale ? `#${giftText(question.rationale)}` : ''}${general}`;
+                break;
+            case 'short-answer':
+                answers = `${question.answers.map(answer => `=${giftText(answer)}`).join(' ')}${general}`;
+                break;
+            case 'numeric':
+                answers = `#${question.answer}:${question.tolerance}${general}`;
+                break;
+        }
+
+        return `${sourceComment(question, '//')}\n${text}{${answers}}`;
+    });
+
+    return `${[`$CATEGORY: $course$/${quiz.title}`, ...blocks].join('\n\n')}\n`;
+}
+
+/**
+ * Writes the quiz in Moodle XML, which keeps what GIFT cannot: units of numeric answers and
+ * tags for the difficulty and source section of every question.
+ */
+export function toMoodleXML(quiz: Quiz): string {
+    const questions = quiz.questions.map((question, i) => {
+        const lines = [
+            `  <question type="${MOODLE_TYPES[question.type]}">`,
+            `    <name><text>${escapeXML(`Q${i + 1}. ${question.source.title}`)}</text></name>`,
+            `    <questiontext format="html"><text>${cdata(toMathJaxHTML(question.question))}</text></questiontext>`,
+            `    <generalfeedback format="html"><text>${cdata(toMathJaxHTML(question.explanation))}</text></generalfeedback>`,
+            '    <defaultgrade>1</defaultgrade>'
+        ];
+
+        switch (question.type) {
+            case 'multiple-choice':
+                lines.push('    <single>true</single>', '    <shuffleanswers>true</shuffleanswers>', '    <answernumbering>abc</answernumbering>');
+                lines.push(...question.choices.map(choice => xmlAnswer(choice.correct, toMathJaxHTML(choice.text), choice.rationale)));
+                break;
+            case 'true-false':
+                lines.push(
+                    xmlAnswer(question.answer, 'true', question.answer ? undefined : question.rationale, 'moodle_auto_format'),
+                    xmlAnswer(!question.answer, 'false', question.answer ? question.rationale : undefined, 'moodle_auto_format')
+                );
+                break;
+            case 'short-answer':
+                lines.push('    <usecase>0</usecase>', ...question.answers.map(answer => xmlAnswer(true, answer, undefined, 'moodle_auto_format')));
+                break;
+            case 'numeric':
+                lines.push(xmlAnswer(true, String(question.answer), undefined, 'moodle_auto_format', `<tolerance>${question.tolerance}</tolerance>`));
+                if (question.unit) {
+                    lines.push(
+                        `    <units><unit><multiplier>1</multiplier><unit_name>${escapeXML(question.unit)}</unit_name></unit></units>`,
+                        '    <unitgradingtype>0</unitgradingtype>',
+                        '    <showunits>2</showunits>',
+                        '    <unitsleft>0</unitsleft>'
+                    );
+                }
+                break;
+        }
+
+        lines.push(
+            '    <tags>',
+            `      <tag><text>${question.difficulty}</text></tag>`,
+            `      <tag><text>${escapeXML(question.source.title)}</text></tag>`,
+            '    </tags>',
+            '  </question>'
+        );
+        return lines.join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<quiz>',
+        '  <question type="category">',
+        `    <category><text>${escapeXML(`$course$/${quiz.title}`)}</text></category>`,
+        '  </question>',
+        ...questions,
+        '</quiz>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Writes the quiz as a LaTeX document of the `exam` class. Answers, explanations and the
+ * rationale of every distractor sit in `solution` environments, which are printed only in the
+ * answer key; otherwise they leave room to answer short-answer and numeric questions.
+ */
+export function toLatexExam(quiz: Quiz, options: LatexExamOptions = {}): string {
+    const points = options.points ?? 1;
+    const questions = quiz.questions.map(question => {
+        const lines = [sourceComment(question, '%'), `\\question[${points}] ${markdownInlineToLatex(questionText(question))}`];
+
+        switch (question.type) {
+            case 'multiple-choice':
+                lines.push(
+                    '\\begin{choices}',
+                    ...question.choices.map(choice => `  \\${choice.correct ? 'CorrectChoice' : 'choice'} ${markdownInlineToLatex(choice.text)}`),
+                    '\\end{choices}',
+                    '\\begin{solution}',
+                    markdownInlineToLatex(question.explanation),
+                    '\\begin{itemize}',
+                    ...question.choices
+                        .filter(choice => !choice.correct && choice.rationale)
+                        .map(choice => `  \\item ${markdownInlineToLatex(choice.text)}: ${markdownInlineToLatex(choice.rationale!)}`),
+                    '\\end{itemize}',
+                    '\\end{solution}'
+                );
+                break;
+            case 'true-false':
+                lines.push(
+                    '\\begin{oneparchoices}',
+                    `  \\${question.answer ? 'CorrectChoice' : 'choice'} True`,
+                    `  \\${question.answer ? 'choice' : 'CorrectChoice'} False`,
+                    '\\end{oneparchoices}',
+                    '\\begin{solution}',
+                    [question.explanation, question.rationale].filter(Boolean).map(text => markdownInlineToLatex(text!)).join('\n\n'),
+                    '\\end{solution}'
+                );
+                break;
+            case 'short-answer':
+                lines.push(
+                    '\\begin{solution}[4em]',
+                    `\\textbf{${markdownInlineToLatex(question.answers[0])}}. ${markdownInlineToLatex(question.explanation)}`,
+                    '\\end{solution}'
+                );
+                break;
+            case 'numeric':
+                lines.push(
+                    '\\begin{solution}[4em]',
+                    `\\textbf{$${question.answer} \\pm ${question.tolerance}$${question.unit ? ` ${markdownInlineToLatex(question.unit)}` : ''}}. ${markdownInlineToLatex(question.explanation)}`,
+                    '\\end{solution}'
+                );
+                break;
+        }
+        return lines.join('\n');
+    });
+
+    return [
+        '\\documentclass[11pt,addpoints]{exam}',
+        '\\usepackage[utf8]{inputenc}',
+        '\\usepackage[T1]{fontenc}',
+        '\\usepackage{amsmath,amssymb}',
+        '',
+        options.answerKey ? '\\printanswers' : '\\noprintanswers',
+        '',
+        '\\begin{document}',
+        '',
+        '\\begin{center}',
+        `{\\Large\\bfseries ${markdownInlineToLatex(quiz.title)}${options.answerKey ? ' --- Answer Key' : ''}}`,
+        '\\end{center}',
+        '',
+        '\\begin{questions}',
+        '',
+        questions.join('\n\n'),
+        '',
+        '\\end{questions}',
+        '',
+        '\\end{document}',
+        ''
+    ].join('\n');
+}
+
+const MOODLE_TYPES: Record<QuizQuestion['type'], string> = {
+    'multiple-choice': 'multichoice',
+    'true-false': 'truefalse',
+    'short-answer': 'shortanswer',
+    numeric: 'numerical'
+};
+
+// GIFT numeric questions have no units, so the unit is asked for in the question
+function questionText(question: QuizQuestion): string {
+    return question.type === 'numeric' && question.unit ? `${question.question} (in ${question.unit})` : question.question;
+}
+
+function sourceComment(question: QuizQuestion, marker: string): string {
+    return `${marker} Section ${question.source.section}: ${question.source.title} (${question.difficulty})`;
+}
+
+function giftText(text: string): string {
+    return toMathJaxHTML(text).replace(/[\\~=#{}:]/g, '\\$&');
+}
+
+function xmlAnswer(correct: boolean, text: string, feedback?: string, format = 'html', extra = ''): string {
+    return [
+        `    <answer fraction="${correct ? 100 : 0}" format="${format}">`,
+        `<text>${format === 'html' ? cdata(text) : escapeXML(text)}</text>`,
+        extra,
+        feedback ? `<feedback format="html"><text>${cdata(toMathJaxHTML(feedback))}</text></feedback>` : '',
+        '</answer>'
+    ].join('');
+}
+
+function cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function escapeXML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,192 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { DocumentSection, LectureFormat } from '../types/lecture.types';
+import { QuizQuestion, QuizQuestionType, RejectedQuizQuestion } from '../types/quiz.types';
+import { SDKError } from '../utils/error.utils';
+import { chunkText, estimateTokens, splitDocumentSections, stripCodeFences } from '../utils/text.utils';
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['multiple-choice', 'true-false', 'short-answer', 'numeric'];
+
+const BASE_PROPERTIES = {
+    type: { enum: QUIZ_QUESTION_TYPES },
+    question: { type: 'string', minLength: 1 },
+    difficulty: { enum: ['easy', 'medium', 'hard'] },
+    explanation: { type: 'string', minLength: 1 },
+    section: { type: 'integer', minimum: 1 }
+};
+
+function questionSchema(type: QuizQuestionType, properties: Record<string, object>, required: string[]): object {
+    return {
+        type: 'object',
+        properties: { ...BASE_PROPERTIES, type: { const: type }, ...properties },
+        required: ['type', 'question', 'difficulty', 'explanation', 'section', ...required],
+        additionalProperties: false
+    };
+}
+
+/**
+ * JSON schemas of the questions the model writes, by question type. `section` is the number of
+ * the section the question was written from, as numbered in the request.
+ */
+export const QUIZ_QUESTION_SCHEMAS: Record<QuizQuestionType, object> = {
+    'multiple-choice': questionSchema('multiple-choice', {
+        choices: {
+            type: 'array',
+            minItems: 2,
+            maxItems: 6,
+            items: {
+                type: 'object',
+                properties: {
+                    text: { type: 'string', minLength: 1 },
+                    correct: { type: 'boolean' },
+                    rationale: { type: 'string' }
+                },
+                required: ['text', 'correct'],
+                additionalProperties: false
+            }
+        }
+    }, ['choices']),
+    'true-false': questionSchema('true-false', {
+        answer: { type: 'boolean' },
+        rationale: { type: 'string' }
+    }, ['answer']),
+    'short-answer': questionSchema('short-answer', {
+        answers: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+    }, ['answers']),
+    numeric: questionSchema('numeric', {
+        answer: { type: 'number' },
+        tolerance: { type: 'number', minimum: 0 },
+        unit: { type: 'string' }
+    }, ['answer', 'tolerance'])
+};
+
+export const QUIZ_QUESTION_SCHEMA = { oneOf: QUIZ_QUESTION_TYPES.map(type => QUIZ_QUESTION_SCHEMAS[type]) };
+
+let validators: Record<QuizQuestionType, ValidateFunction> | undefined;
+
+function validatorFor(type: QuizQuestionType): ValidateFunction {
+    if (!validators) {
+        const ajv = new Ajv({ allErrors: true });
+        validators = Object.fromEntries(
+            QUIZ_QUESTION_TYPES.map(name => [name, ajv.compile(QUIZ_QUESTION_SCHEMAS[name])])
+        ) as Record<QuizQuestionType, ValidateFunction>;
+    }
+    return validators[type];
+}
+
+/**
+ * Parses the model's JSON array of questions and checks each against its schema, and that
+ * multiple-choice questions have exactly one correct choice with a rationale for every
+ * distractor. Questions that fail are returned in `rejected` with the reasons.
+ */
+export function parseQuizQuestions(
+    content: string,
+    sections: string[]
+): { questions: QuizQuestion[]; rejected: RejectedQuizQuestion[] } {
+    const json = stripCodeFences(content).match(/\[[\s\S]*\]/)?.[0];
+    let parsed: unknown;
+    try {
+        parsed = json ? JSON.parse(json) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+    if (!Array.isArray(parsed)) {
+        throw new SDKError('Quiz response is not a JSON array');
+    }
+
+    const questions: QuizQuestion[] = [];
+    const rejected: RejectedQuizQuestion[] = [];
+    for (const question of parsed) {
+        const errors = checkQuestion(question, sections.length);
+        if (errors.length > 0) {
+            rejected.push({ question, errors });
+            continue;
+        }
+
+        const { section, ...rest } = question as Omit<QuizQuestion, 'source'> & { section: number };
+        questions.push({ ...rest, source: { section, title: sections[section - 1] } } as QuizQuestion);
+    }
+    return { questions, rejected };
+}
+
+/**
+ * Splits the input into the sections questions point back to: the top-level sections of notes,
+ * or parts of at most `maxTokens` for a transcript without headings. Without a format, LaTeX,
+ * Typst and Markdown headings are tried in turn.
+ */
+export function splitQuizSources(input: string, maxTokens: number, format?: LectureFormat): DocumentSection[] {
+    for (const candidate of format ? [format] : ['latex', 'typst', 'markdown'] as LectureFormat[]) {
+        const sections = splitDocumentSections(input, candidate);
+        if (sections.length > 0) {
+            return sections;
+        }
+    }
+
+    const parts = chunkText(input, maxTokens * 4, 0);
+    return parts.map((content, i) => ({ title: parts.length > 1 ? `Transcript part ${i + 1}` : 'Transcript', content }));
+}
+
+/**
+ * Groups numbered sections into requests of at most `maxTokens` and shares `count` questions
+ * between them by length. A section longer than `maxTokens` is sent in several parts under its
+ * own number.
+ */
+export function planQuizRequests(
+    sections: DocumentSection[],
+    count: number,
+    maxTokens: number
+): Array<{ sections: Array<{ number: number; section: DocumentSection }>; count: number }> {
+    const pieces = sections.flatMap((section, i) =>
+        estimateTokens(section.content) <= maxTokens
+            ? [{ number: i + 1, section }]
+            : chunkText(section.content, maxTokens * 4, 0).map(content => ({ number: i + 1, section: { ...section, content } }))
+    );
+
+    const groups: Array<typeof pieces> = [];
+    let tokens = 0;
+    for (const piece of pieces) {
+        const size = estimateTokens(piece.section.content);
+        if (groups.length === 0 || tokens + size > maxTokens) {
+            groups.push([]);
+            tokens = 0;
+        }
+        groups[groups.length - 1].push(piece);
+        tokens += size;
+    }
+
+    // Rounding the running totals keeps the shares summing to `count`
+    const total = pieces.reduce((sum, piece) => sum + estimateTokens(piece.section.content), 0) || 1;
+    let covered = 0;
+    return groups.map(group => {
+        const before = Math.round(count * covered / total);
+        covered += group.reduce((sum, piece) => sum + estimateTokens(piece.section.content), 0);
+        return { sections: group, count: Math.round(count * covered / total) - before };
+    }).filter(request => request.count > 0);
+}
+
+function checkQuestion(question: unknown, sectionCount: number): string[] {
+    const type = (question as { type?: unknown } | null)?.type;
+    if (!QUIZ_QUESTION_TYPES.includes(type as QuizQuestionType)) {
+        return [`type must be one of ${QUIZ_QUESTION_TYPES.join(', ')}`];
+    }
+
+    const validate = validatorFor(type as QuizQuestionType);
+    if (!validate(question)) {
+        return (validate.errors ?? []).map(error => `${error.instancePath || 'question'} ${error.message}`);
+    }
+
+    const errors: string[] = [];
+    const { section } = question as { section: number };
+    if (section > sectionCount) {
+        errors.push(`/section must be at most ${sectionCount}`);
+    }
+    if (type === 'multiple-choice') {
+        const { choices } = question as { choices: Array<{ correct: boolean; rationale?: string }> };
+        if (choices.filter(choice => choice.correct).length !== 1) {
+            errors.push('/choices must have exactly one correct choice');
+        }
+        if (choices.some(choice => !choice.correct && !choice.rationale?.trim())) {
+            errors.push('/choices must give a rationale for every distractor');
+        }
+    }
+    return errors;
+}
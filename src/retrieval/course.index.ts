@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AIService } from '../services/ai.service';
+import { CHAT_WITH_COURSE_PROMPT, formatPrompt } from '../prompts';
+import {
+    CourseAnswer,
+    CourseChunk,
+    CourseIndexData,
+    CourseIndexOptions,
+    CourseLecture,
+    CourseQuestionOptions,
+    CourseSearchResult,
+    EmbeddingProvider
+} from '../types/retrieval.types';
+import { handleError, ValidationError } from '../utils/error.utils';
+import * as validate from '../utils/validation.utils';
+import { chunkText, splitDocumentSections } from '../utils/text.utils';
+
+const DEFAULT_OPTIONS: Required<CourseIndexOptions> = {
+    chunkSize: 1500,
+    chunkOverlap: 200
+};
+
+/**
+ * Retrieval index over the transcripts and notes of many lectures. Chunks are embedded
+ * with a pluggable EmbeddingProvider and questions are answered with CHAT_WITH_COURSE_PROMPT
+ * from the best matching passages, which are returned as sources.
+ */
+export class CourseIndex {
+    private chunks: CourseChunk[] = [];
+    private readonly options: Required<CourseIndexOptions>;
+
+    constructor(private readonly provider: EmbeddingProvider, options: CourseIndexOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        if (this.options.chunkOverlap >= this.options.chunkSize) {
+            throw new ValidationError('chunkOverlap must be smaller than chunkSize');
+        }
+    }
+
+    static fromJSON(provider: EmbeddingProvider, data: string | CourseIndexData): CourseIndex {
+        const parsed: CourseIndexData = typeof data === 'string' ? JSON.parse(data) : data;
+        if (parsed.version !== 1) {
+            throw new ValidationError(`Unsupported course index version: ${parsed.version}`);
+        }
+        if (parsed.provider !== provider.id) {
+            throw new ValidationError(
+                `Course index was built with embedding provider "${parsed.provider}", not "${provider.id}"`
+            );
+        }
+
+        const index = new CourseIndex(provider, parsed.options);
+        index.chunks = parsed.chunks;
+        return index;
+    }
+
+    static async load(filePath: string, provider: EmbeddingProvider): Promise<CourseIndex> {
+        try {
+            validate.validateFilePath(filePath);
+            return CourseIndex.fromJSON(provider, await fs.readFile(filePath, 'utf-8'));
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    get size(): number {
+        return this.chunks.length;
+    }
+
+    lectures(): Array<{ id: string; title: string }> {
+        const seen = new Map<string, string>();
+        for (const chunk of this.chunks) {
+            seen.set(chunk.lectureId, chunk.lectureTitle);
+        }
+        return [...seen].map(([id, title]) => ({ id, title }));
+    }
+
+    /**
+     * Chunks and embeds a lecture. Adding a lecture with an existing id replaces it.
+     */
+    async addLecture(lecture: CourseLecture): Promise<void> {
+        try {
+            validate.validateContent(lecture.id);
+            if (!lecture.transcript && !lecture.notes) {
+                throw new ValidationError('lecture transcript or notes are required');
+            }
+
+            const pending: Omit<CourseChunk, 'embedding'>[] = [];
+
+            if (lecture.notes) {
+                const format = lecture.format ?? 'markdown';
+                const sections = splitDocumentSections(lecture.notes, format);
+                const parts = sections.length > 0 ? sections : [{ title: lecture.title, content: lecture.notes }];
+
+                for (const section of parts) {
+                    for (const text of chunkText(section.content, this.options.chunkSize, this.options.chunkOverlap)) {
+                        pending.push(this.chunkOf(lecture, section.title, 'notes', text));
+                    }
+                }
+            }
+
+            if (lecture.transcript) {
+                const texts = chunkText(lecture.transcript, this.options.chunkSize, this.options.chunkOverlap);
+                texts.forEach((text, i) => {
+                    pending.push(this.chunkOf(lecture, `Transcript part ${i + 1}`, 'transcript', text));
+                });
+            }
+
+            const embeddings = await this.provider.embed(pending.map(chunk => chunk.text));
+
+            this.removeLecture(lecture.id);
+            this.chunks.push(...pending.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })));
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    removeLecture(lectureId: string): void {
+        this.chunks = this.chunks.filter(chunk => chunk.lectureId !== lectureId);
+    }
+
+    async search(query: string, topK: number = 5): Promise<CourseSearchResult[]> {
+        try {
+            validate.validateContent(query);
+
+            const [embedding] = await this.provider.embed([query]);
+            return this.chunks
+                .map(({ embedding: chunkEmbedding, ...chunk }) => ({
+                    ...chunk,
+                    score: cosineSimilarity(embedding, chunkEmbedding)
+                }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, topK);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Answers a question from the passages most similar to it. Passages are numbered in the
+     * prompt so the answer can cite them, and are returned in the same order as `sources`.
+     */
+    async ask(service: AIService, question: string, options: CourseQuestionOptions = {}): Promise<CourseAnswer> {
+        try {
+            validate.validateContent(question);
+            if (this.chunks.length === 0) {
+                throw new ValidationError('Course index is empty');
+            }
+
+            const sources = await this.search(question, options.topK ?? 5);
+            const context = sources
+                .map((source, i) => `[${i + 1}] ${source.lectureTitle} — ${source.section}\n${source.text}`)
+                .join('\n\n');
+
+            const result = await service.chatDetailed([
+                {
+                    role: 'system',
+                    content: formatPrompt(CHAT_WITH_COURSE_PROMPT, { context }) +
+                        '\nCite the passages you use by their number, e.g. [1], and name the lecture they come from.'
+                },
+                {
+                    role: 'user',
+                    content: `Question: ${question}`
+                }
+            ], { temperature: options.temperature });
+
+            return { answer: result.content, sources, usage: result.usage };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    toJSON(): CourseIndexData {
+        return {
+            version: 1,
+            provider: this.provider.id,
+            options: this.options,
+            chunks: this.chunks
+        };
+    }
+
+    async save(filePath: string): Promise<void> {
+        try {
+            validate.validateFilePath(filePath);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, JSON.stringify(this.toJSON()));
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    private chunkOf(
+        lecture: CourseLecture,
+        section: string,
+        kind: CourseChunk['kind'],
+        text: string
+    ): Omit<CourseChunk, 'embedding'> {
+        return { lectureId: lecture.id, lectureTitle: lecture.title, section, kind, text };
+    }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
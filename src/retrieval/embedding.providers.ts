@@ -0,0 +1,98 @@
+import { OpenAI } from 'openai';
+import { EmbeddingProvider, OpenAIEmbeddingConfig } from '../types/retrieval.types';
+import { handleError, OpenAIError } from '../utils/error.utils';
+import * as validate from '../utils/validation.utils';
+import { withRetry, throttler } from '../utils/retry.utils';
+
+/**
+ * Embeds text with the OpenAI embeddings endpoint (or any OpenAI-compatible `baseUrl`).
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private client: OpenAI;
+    private readonly model: string;
+    private readonly batchSize: number;
+
+    constructor(config: string | OpenAIEmbeddingConfig) {
+        try {
+            const options = typeof config === 'string' ? { apiKey: config } : config;
+            validate.validateConfig(options.apiKey);
+
+            this.model = options.model ?? 'text-embedding-3-small';
+            this.batchSize = options.batchSize ?? 100;
+            this.id = `openai:${this.model}`;
+            this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl });
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        try {
+            const embeddings: number[][] = [];
+
+            for (let i = 0; i < texts.length; i += this.batchSize) {
+                const batch = texts.slice(i, i + this.batchSize);
+                const response = await throttler.add(() =>
+                    withRetry(() =>
+                        this.client.embeddings.create({
+                            model: this.model,
+                            input: batch
+                        })
+                    )
+                );
+
+                if (response.data.length !== batch.length) {
+                    throw new OpenAIError('Embedding response does not match the number of inputs');
+                }
+
+                embeddings.push(...[...response.data]
+                    .sort((a, b) => a.index - b.index)
+                    .map(item => item.embedding));
+            }
+
+            return embeddings;
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+}
+
+/**
+ * Deterministic feature-hashing embedder. It needs no network access, so it is suited to
+ * offline use and tests; retrieval quality is that of a bag-of-words model.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+
+    constructor(private readonly dimensions: number = 512) {
+        this.id = `hashing:${dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        for (const token of tokens) {
+            const hash = fnv1a(token);
+            const sign = hash & 1 ? 1 : -1;
+            vector[(hash >>> 1) % this.dimensions] += sign;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+}
+
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
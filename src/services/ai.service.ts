@@ -1,19 +1,117 @@
-import { LectureNotes, LectureFormat, ServiceConfig } from '../types/lecture.types';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    LectureNotes,
+    LectureFormat,
+    ServiceConfig,
+    BuildLectureNotesOptions,
+    LectureNotesBuild,
+    RefinedSection,
+    GenerationResult,
+    PDFProcessingOptions,
+    ImageSource,
+    FileData,
+    AudioTranscriptionOptions,
+    TokenUsage
+} from '../types/lecture.types';
+import { ChatMessage, ChatOptions } from '../types/chat.types';
+import {
+    AudioTranscript,
+    TranscriptInput,
+    RepairTranscriptOptions,
+    TranscriptRepair,
+    TranscriptSourceMaterial
+} from '../types/transcript.types';
+import { MediaProcessingOptions } from '../types/media.types';
+import { MathRepairResult, MathValidationOptions, ResponseDiagnostics } from '../types/validation.types';
+import { CompileCheckOptions, CompileCheckResult } from '../types/latex.types';
+import { TypstCheckOptions, TypstCheckResult } from '../types/typst.types';
+import { FlashcardDeck, FlashcardOptions } from '../types/flashcard.types';
+import { Quiz, QuizOptions, QuizQuestion, RejectedQuizQuestion } from '../types/quiz.types';
+import { LectureDocumentOptions, LectureDocumentResult } from '../types/document.types';
+import { Glossary, GlossaryOptions } from '../types/glossary.types';
+import { handleError, ValidationError, FileProcessingError } from '../utils/error.utils';
+import * as validate from '../utils/validation.utils';
+import { splitDocumentSections, assembleDocument, stripCodeFences, estimateTokens, chunkText } from '../utils/text.utils';
+import { sumUsage, mergeGenerationResults, emptyUsage, toLectureNotes } from '../utils/generation.utils';
+import { extractPDFPages, formatPDFPages, chunkPDFPages } from '../utils/pdf.utils';
+import {
+    detectTranscriptGaps,
+    markTranscriptGaps,
+    applyGapFills,
+    parseGapFills,
+    parseTranscript,
+    transcriptToText
+} from '../utils/transcript.utils';
+import { YtDlpMediaSource } from '../media/media.sources';
+import { ResponseValidator } from '../validation/response.validator';
+import { applyMathRepairs, fixMath, parseMathRepairs } from '../validation/math.validator';
+import { LatexCompiler } from '../latex/latex.compiler';
+import { TypstCompiler } from '../typst/typst.compiler';
+import { renderHTML } from '../html/html.renderer';
+import { renderNotebook } from '../notebook/notebook.renderer';
+import { dedupeFlashcards, parseFlashcards, DEFAULT_DECK_NAME, FLASHCARD_KINDS } from '../flashcards/flashcard.deck';
+import { parseQuizQuestions, planQuizRequests, splitQuizSources, QUIZ_QUESTION_TYPES } from '../quiz/quiz.questions';
+import { parseLectureDocument, LECTURE_DOCUMENT_RESPONSE_FORMAT } from '../document/lecture.document';
+import { renderLectureDocument } from '../document/document.renderer';
+import {
+    addLatexGlossary,
+    addMarkdownGlossary,
+    locateGlossaryTerms,
+    mergeGlossaryEntries,
+    parseGlossaryEntries,
+    sortGlossaryEntries
+} from '../glossary/glossary';
+import { numberLines, replaceLines } from '../utils/latex.utils';
+import {
+    formatCourseContext,
+    formatLatexRepairPrompt,
+    formatMathRepairPrompt,
+    formatQuizPrompt,
+    formatTypstRepairPrompt,
+    LECTURE_DOCUMENT_PROMPT,
+    FILL_IN_GAPS_IN_TRANSCRIPT,
+    FLASHCARDS_PROMPT,
+    GLOSSARY_PROMPT,
+    GAP_FILL_INSTRUCTIONS,
+    LATEX_REPAIR_PROMPT,
+    MATH_REPAIR_PROMPT,
+    QUIZ_PROMPT,
+    TYPST_REPAIR_PROMPT,
+    writtenFormat
+} from '../prompts';
+
+interface RepairExcerpt<D> {
+    start: number;
+    end: number;
+    errors: D[];
+}
+
+type ResolvedServiceConfig = Required<Omit<ServiceConfig, 'baseUrl' | 'mediaSource'>> &
+    Pick<ServiceConfig, 'baseUrl' | 'mediaSource'>;
 
 export abstract class AIService {
-    protected config: Required<Omit<ServiceConfig, 'baseUrl'>> & Pick<ServiceConfig, 'baseUrl'>;
-    
-    constructor(config: string | ServiceConfig) {
-        const defaultConfig: Required<Omit<ServiceConfig, 'baseUrl'>> & Pick<ServiceConfig, 'baseUrl'> = {
-            model: "default",
+    protected config: ResolvedServiceConfig;
+    private readonly responseValidator: ResponseValidator;
+
+    /**
+     * @param defaultModel Model used when the config does not name one; set by each provider
+     */
+    constructor(config: string | ServiceConfig, defaultModel: string = "default") {
+        const defaultConfig: ResolvedServiceConfig = {
+            model: defaultModel,
             temperature: 0.4,
             maxTokens: 8192,
             baseUrl: undefined,
+            mediaSource: undefined,
             maxAttempts: 3,
+            contextWindow: 128000,
             responseValidation: {
                 checkLaTeXBalance: true,
                 checkCodeBlocks: true,
                 checkJsonBalance: true,
+                checkMathDelimiters: true,
                 customIndicators: [
                     '...',
                     '[continued]',
@@ -28,21 +126,675 @@ export abstract class AIService {
         this.config = typeof config === 'string' 
             ? defaultConfig 
             : { ...defaultConfig, ...config };
+        this.responseValidator = ResponseValidator.fromConfig(this.config.responseValidation);
     }
 
     abstract generateLectureNotes(topic: string, context?: string): Promise<LectureNotes>;
-    abstract generateFromTranscript(transcript: string, format?: LectureFormat): Promise<string>;
-    abstract generateFromAudio(audioTranscript: string): Promise<string>;
-    abstract refineSection(section: string, transcript: string, format?: LectureFormat): Promise<string>;
-    abstract generateScaffold(transcript: string, format?: LectureFormat): Promise<string>;
-    abstract augmentFromPDF(pdfContent: string, format?: LectureFormat): Promise<string>;
-    abstract processAudioFile(options: AudioTranscriptionOptions): Promise<string>;
-    abstract processYouTubeURL(url: string, format?: LectureFormat): Promise<LectureNotes>;
-
-    protected abstract isResponseComplete(content: string): boolean;
+    abstract generateFromTranscriptDetailed(transcript: string, format?: LectureFormat): Promise<GenerationResult>;
+    abstract generateFromAudioDetailed(audioTranscript: string): Promise<GenerationResult>;
+    abstract refineSectionDetailed(section: string, transcript: string, format?: LectureFormat): Promise<GenerationResult>;
+    abstract generateScaffoldDetailed(transcript: string, format?: LectureFormat): Promise<GenerationResult>;
+    abstract augmentFromPDFDetailed(pdfContent: string, format?: LectureFormat): Promise<GenerationResult>;
+    abstract refineDocumentDetailed(document: string, format?: LectureFormat): Promise<GenerationResult>;
+    abstract chatDetailed(messages: ChatMessage[], options?: ChatOptions): Promise<GenerationResult>;
+    abstract transcribeHandwrittenNotesDetailed(images: ImageSource[]): Promise<GenerationResult>;
+    abstract streamFromTranscript(transcript: string, format?: LectureFormat): AsyncIterable<string>;
+    abstract processAudioFile(options: AudioTranscriptionOptions): Promise<AudioTranscript>;
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+        return (await this.chatDetailed(messages, options)).content;
+    }
+
+    /**
+     * Number of input tokens a request can use: the context window minus the room
+     * reserved for the completion.
+     */
+    getContextBudget(): number {
+        return Math.max(this.config.contextWindow - this.config.maxTokens, 0);
+    }
+
+    async generateFromTranscript(transcript: TranscriptInput, format?: LectureFormat): Promise<string> {
+        return (await this.generateFromTranscriptDetailed(transcriptToText(transcript), format)).content;
+    }
+
+    async generateFromAudio(audioTranscript: string): Promise<string> {
+        return (await this.generateFromAudioDetailed(audioTranscript)).content;
+    }
+
+    async refineSection(section: string, transcript: TranscriptInput, format?: LectureFormat): Promise<string> {
+        return (await this.refineSectionDetailed(section, transcriptToText(transcript), format)).content;
+    }
+
+    async generateScaffold(transcript: TranscriptInput, format?: LectureFormat): Promise<string> {
+        return (await this.generateScaffoldDetailed(transcriptToText(transcript), format)).content;
+    }
+
+    async augmentFromPDF(pdfContent: string, format?: LectureFormat): Promise<string> {
+        return (await this.augmentFromPDFDetailed(pdfContent, format)).content;
+    }
+
+    async refineDocument(document: string, format?: LectureFormat): Promise<string> {
+        return (await this.refineDocumentDetailed(document, format)).content;
+    }
+
+    /**
+     * Turns photos of handwritten notes or a whiteboard, in page order, into a lecture-style
+     * transcript that can be passed to generateFromTranscript.
+     */
+    async transcribeHandwrittenNotes(images: ImageSource[]): Promise<string> {
+        return (await this.transcribeHandwrittenNotesDetailed(images)).content;
+    }
+
+    /**
+     * Fills the gaps in a transcript (`[inaudible]` markers, silences between timestamps and
+     * cut-off sentences) from the lecture's source material with FILL_IN_GAPS_IN_TRANSCRIPT.
+     * Source material can be text or files uploaded to services that accept them. The inserted
+     * spans are returned marked as synthesized so notes built from the transcript can flag them.
+     */
+    async repairTranscript(
+        transcript: string,
+        sourceMaterial: TranscriptSourceMaterial | TranscriptSourceMaterial[],
+        options: RepairTranscriptOptions = {}
+    ): Promise<TranscriptRepair> {
+        try {
+            validate.validateTranscript(transcript);
+
+            const sources = Array.isArray(sourceMaterial) ? sourceMaterial : [sourceMaterial];
+            const texts = sources.filter((source): source is string => typeof source === 'string' && source.trim().length > 0);
+            const files = sources.filter((source): source is FileData => typeof source !== 'string');
+            if (texts.length === 0 && files.length === 0) {
+                throw new ValidationError('sourceMaterial is required');
+            }
+
+            const gaps = detectTranscriptGaps(transcript, options);
+            if (gaps.length === 0) {
+                return { transcript, gaps, synthesized: [], usage: emptyUsage() };
+            }
+
+            const result = await this.chatDetailed([
+                {
+                    role: 'system',
+                    content: `${FILL_IN_GAPS_IN_TRANSCRIPT}\n${GAP_FILL_INSTRUCTIONS}`
+                },
+                {
+                    role: 'user',
+                    content: [
+                        texts.length > 0 ? `Source material:\n${texts.join('\n\n')}` : 'The source material is attached.',
+                        `Transcription:\n${markTranscriptGaps(transcript, gaps)}`
+                    ].join('\n\n')
+                }
+            ], {
+                temperature: options.temperature,
+                files: files.length > 0 ? files : undefined
+            });
+
+            const repaired = applyGapFills(transcript, gaps, parseGapFills(result.content, gaps.length));
+            return { ...repaired, gaps, usage: result.usage };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async augmentFromPDFFile(options: PDFProcessingOptions): Promise<string> {
+        return (await this.augmentFromPDFFileDetailed(options)).content;
+    }
+
+    /**
+     * Extracts the PDF's text locally page by page and augments it into a lesson, passing the
+     * course context along. PDFs that do not fit in the context budget are processed in
+     * page-aligned parts whose outputs are assembled into one document.
+     */
+    async augmentFromPDFFileDetailed(options: PDFProcessingOptions): Promise<GenerationResult> {
+        try {
+            const format = options.format ?? 'latex';
+            // Parts of an html or ipynb document are written as Markdown and converted once assembled
+            const partFormat = writtenFormat(format);
+            validate.validatePDFPath(options.pdfPath);
+            validate.validateFormat(format);
+
+            const pages = await extractPDFPages(options.pdfPath);
+            if (!pages.some(page => page.text.trim().length > 0)) {
+                throw new FileProcessingError('PDF contains no extractable text; scanned PDFs need OCR first');
+            }
+
+            const context = formatCourseContext(options.additionalContext);
+            // Leave half of the budget for the system prompt and instructions
+            const maxTokens = options.maxChunkTokens ?? Math.floor(this.getContextBudget() / 2);
+            const chunks = chunkPDFPages(pages, Math.max(maxTokens - estimateTokens(context), 1));
+
+            const results: GenerationResult[] = [];
+            for (const [i, chunk] of chunks.entries()) {
+                const part = chunks.length > 1
+                    ? `This is part ${i + 1} of ${chunks.length} of the notes (pages ${chunk[0].pageNumber}-${chunk[chunk.length - 1].pageNumber}). Cover only the material in this part.`
+                    : '';
+                const content = [context, part, formatPDFPages(chunk)].filter(Boolean).join('\n\n');
+                results.push(await this.augmentFromPDFDetailed(content, partFormat));
+            }
+
+            const content = results.length === 1
+                ? results[0].content
+                : assembleDocument(results.map(result => stripCodeFences(result.content)), partFormat);
+
+            return this.formatResult(mergeGenerationResults(results, content), format);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Generates notes for a video. When the media source has captions in one of the requested
+     * languages they are used as the transcript; otherwise the audio is downloaded and
+     * transcribed with processAudioFile. The notes are titled after the video.
+     */
+    async processYouTubeURL(
+        url: string,
+        format: LectureFormat = 'latex',
+        options: MediaProcessingOptions = {}
+    ): Promise<LectureNotes> {
+        try {
+            validate.validateYouTubeURL(url);
+            validate.validateFormat(format);
+
+            const source = this.config.mediaSource ?? new YtDlpMediaSource();
+            const info = await source.getInfo(url);
+            const captions = options.useCaptions === false
+                ? undefined
+                : await source.getCaptions?.(url, options.languages ?? ['en']);
+
+            let transcript: string;
+            if (captions) {
+                transcript = transcriptToText(parseTranscript(captions.content, captions.format));
+            } else {
+                const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-'));
+                try {
+                    const audioPath = await source.downloadAudio(url, tempDir);
+                    transcript = transcriptToText(await this.processAudioFile({ ...options.transcription, audioPath }));
+                } finally {
+                    await fs.rm(tempDir, { recursive: true, force: true });
+                }
+            }
+
+            const result = await this.generateFromTranscriptDetailed(transcript, format);
+            return toLectureNotes(info.title, result);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Runs the full pipeline: scaffold the transcript, refine every top-level section of the
+     * scaffold against the transcript, assemble the refined sections into one document and
+     * give it a final refinement pass. Intermediate outputs are returned alongside the result.
+     */
+    async buildLectureNotes(input: TranscriptInput, options: BuildLectureNotesOptions = {}): Promise<LectureNotesBuild> {
+        try {
+            const format = options.format ?? 'latex';
+            const transcript = transcriptToText(input);
+            validate.validateTranscript(transcript);
+            validate.validateFormat(format);
+            if (options.compileCheck && format !== 'latex' && format !== 'typst') {
+                throw new ValidationError('compileCheck requires the latex or typst format');
+            }
+            if (options.glossary && format === 'typst') {
+                throw new ValidationError('glossary is not available for the typst format');
+            }
+
+            // An html or ipynb document is written as Markdown and converted at the end
+            const sourceFormat = writtenFormat(format);
+            const scaffold = await this.generateScaffoldDetailed(transcript, sourceFormat);
+            const outline = splitDocumentSections(scaffold.content, sourceFormat);
+            if (outline.length === 0) {
+                throw new ValidationError('Generated scaffold does not contain any section headings');
+            }
+
+            const sections: RefinedSection[] = [];
+            for (const section of outline) {
+                const refined = await this.refineSectionDetailed(section.content, transcript, sourceFormat);
+                sections.push({
+                    title: section.title,
+                    outline: section.content,
+                    content: stripCodeFences(refined.content),
+                    usage: refined.usage
+                });
+            }
+
+            const draft = assembleDocument(sections.map(section => section.content), sourceFormat);
+            const final = options.finalRefinement === false
+                ? undefined
+                : await this.refineDocumentDetailed(draft, sourceFormat);
+            const refined = final ? stripCodeFences(final.content) : draft;
+            const glossary = options.glossary
+                ? await this.generateGlossary(refined, { ...(typeof options.glossary === 'object' ? options.glossary : {}), format: sourceFormat })
+                : undefined;
+            const notes = !glossary
+                ? refined
+                : sourceFormat === 'latex' ? addLatexGlossary(refined, glossary.entries) : addMarkdownGlossary(refined, glossary.entries);
+            const content = convertMarkdown(notes, format, options);
+            const compiled = await this.checkBuild(content, format, options.compileCheck);
+
+            return {
+                format,
+                scaffold: scaffold.content,
+                sections,
+                draft,
+                content: compiled ? compiled.content : content,
+                usage: sumUsage(
+                    scaffold.usage,
+                    ...sections.map(section => section.usage),
+                    ...(final ? [final.usage] : []),
+                    ...(glossary ? [glossary.usage] : []),
+                    ...(compiled ? [compiled.usage] : [])
+                ),
+                ...(compiled ? { compileCheck: compiled } : {}),
+                ...(glossary ? { glossary } : {})
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Runs the compile check buildLectureNotes was asked for. Typst documents are checked
+     * unless the check is turned off, as long as the typst CLI is installed.
+     */
+    private async checkBuild(
+        content: string,
+        format: LectureFormat,
+        check: BuildLectureNotesOptions['compileCheck']
+    ): Promise<CompileCheckResult | TypstCheckResult | undefined> {
+        const options = typeof check === 'object' ? check : {};
+        if (format === 'latex' && check) {
+            return this.compileCheck(content, options as CompileCheckOptions);
+        }
+        if (format === 'typst' && check !== false
+            && (check || await TypstCompiler.isAvailable((options as TypstCheckOptions).binary))) {
+            return this.typstCheck(content, options as TypstCheckOptions);
+        }
+        return undefined;
+    }
+
+    /**
+     * Compiles a LaTeX document with a local TeX engine and, while it fails, sends the lines
+     * around each error back to the model for a repair, for up to `maxRepairs` rounds.
+     */
+    async compileCheck(document: string, options: CompileCheckOptions = {}): Promise<CompileCheckResult> {
+        try {
+            validate.validateContent(document);
+
+            const compiler = new LatexCompiler(options);
+            return await this.repairUntilCompiled(
+                document,
+                source => compiler.compile(source),
+                LATEX_REPAIR_PROMPT,
+                formatLatexRepairPrompt,
+                options
+            );
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Compiles a Typst document with the typst CLI and has the model repair the lines around
+     * each error, like compileCheck does for LaTeX.
+     */
+    async typstCheck(document: string, options: TypstCheckOptions = {}): Promise<TypstCheckResult> {
+        try {
+            validate.validateContent(document);
+
+            const compiler = new TypstCompiler(options);
+            return await this.repairUntilCompiled(
+                document,
+                source => compiler.compile(source),
+                TYPST_REPAIR_PROMPT,
+                formatTypstRepairPrompt,
+                options
+            );
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    private async repairUntilCompiled<D extends { line?: number; file?: string }>(
+        document: string,
+        compile: (source: string) => Promise<{ success: boolean; pdfPath?: string; errors: D[]; warnings: D[] }>,
+        systemPrompt: string,
+        formatRepairPrompt: (errors: D[], excerpt: string) => string,
+        options: { maxRepairs?: number; contextLines?: number }
+    ): Promise<CompileCheckResult<D>> {
+        const maxRepairs = options.maxRepairs ?? 3;
+        const usage: TokenUsage[] = [];
+        let content = stripCodeFences(document);
+        let result = await compile(content);
+        let repairs = 0;
+
+        while (!result.success && repairs < maxRepairs) {
+            const excerpts = this.repairExcerpts(content, result.errors, options.contextLines ?? 5);
+            if (excerpts.length === 0) {
+                // None of the errors point into the document, so there is nothing to send
+                break;
+            }
+
+            // Bottom up, so that the line numbers of the excerpts above stay valid
+            for (const excerpt of excerpts.reverse()) {
+                const repair = await this.chatDetailed([
+                    { role: 'system', content: systemPrompt },
+                    {
+                        role: 'user',
+                        content: formatRepairPrompt(excerpt.errors, numberLines(content, excerpt.start, excerpt.end))
+                    }
+                ]);
+                usage.push(repair.usage);
+                content = replaceLines(content, excerpt.start, excerpt.end, stripCodeFences(repair.content));
+            }
+
+            repairs++;
+            result = await compile(content);
+        }
+
+        return {
+            content,
+            success: result.success,
+            ...(result.pdfPath ? { pdfPath: result.pdfPath } : {}),
+            errors: result.errors,
+            warnings: result.warnings,
+            compilations: repairs + 1,
+            repairs,
+            usage: sumUsage(...usage)
+        };
+    }
+
+    /**
+     * Turns the errors that point into the document into line ranges to repair, merging ranges
+     * that overlap. A range is widened until it passes the response checks by itself, because
+     * the model's reply is validated like any response and would otherwise look truncated.
+     */
+    private repairExcerpts<D extends { line?: number; file?: string }>(document: string, errors: D[], contextLines: number): RepairExcerpt<D>[] {
+        const lines = document.split('\n');
+        const step = Math.max(contextLines, 1);
+
+        const ranges = errors
+            .filter(error => error.line !== undefined && !error.file)
+            .map(error => {
+                const line = Math.min(error.line!, lines.length);
+                let start = Math.max(line - contextLines, 1);
+                let end = Math.min(line + contextLines, lines.length);
+                let diagnostics = this.diagnoseResponse(lines.slice(start - 1, end).join('\n'));
+
+                while (!diagnostics.complete && (start > 1 || end < lines.length)) {
+                    // Something left open is closed further down; something closed was opened further up
+                    const unclosed = diagnostics.issues.some(issue => issue.expected);
+                    const unopened = diagnostics.issues.some(issue => !issue.expected);
+                    if (unopened || end === lines.length) {
+                        start = Math.max(start - step, 1);
+                    }
+                    if (unclosed || start === 1) {
+                        end = Math.min(end + step, lines.length);
+                    }
+                    diagnostics = this.diagnoseResponse(lines.slice(start - 1, end).join('\n'));
+                }
+                return { start, end, errors: [error] };
+            })
+            .sort((a, b) => a.start - b.start);
+
+        const excerpts: RepairExcerpt<D>[] = [];
+        for (const range of ranges) {
+            const previous = excerpts[excerpts.length - 1];
+            if (previous && range.start <= previous.end) {
+                previous.end = Math.max(previous.end, range.end);
+                previous.errors.push(...range.errors);
+            } else {
+                excerpts.push(range);
+            }
+        }
+        return excerpts;
+    }
+
+    /**
+     * Checks every math span of a Markdown document with KaTeX, repairs what a rule can fix and
+     * asks the model to rewrite the rest in a single request. Rewrites that KaTeX still rejects
+     * are not applied and stay in `issues`.
+     */
+    async repairMath(markdown: string, options: MathValidationOptions = {}): Promise<MathRepairResult> {
+        try {
+            validate.validateContent(markdown);
+
+            const fixed = fixMath(markdown, options);
+            if (fixed.issues.length === 0) {
+                return { ...fixed, usage: emptyUsage() };
+            }
+
+            const result = await this.chatDetailed([
+                { role: 'system', content: MATH_REPAIR_PROMPT },
+                { role: 'user', content: formatMathRepairPrompt(fixed.issues) }
+            ]);
+            const corrections = parseMathRepairs(result.content, fixed.issues.length);
+            const repaired = applyMathRepairs(fixed.content, fixed.issues, corrections, options);
+
+            return { ...repaired, repairs: [...fixed.repairs, ...repaired.repairs], usage: result.usage };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Asks the model for flashcards covering the definitions, theorems and formulas of finished
+     * notes, in any format. Long notes are sent in parts; cards that repeat an earlier one are
+     * dropped. Export the deck with toAnkiTSV or toAnkiPackage.
+     */
+    async generateFlashcards(notes: string, options: FlashcardOptions = {}): Promise<FlashcardDeck> {
+        try {
+            validate.validateContent(notes);
+            if (options.maxCards !== undefined && (!Number.isInteger(options.maxCards) || options.maxCards < 1)) {
+                throw new ValidationError('maxCards must be a positive integer');
+            }
+            const kinds = options.kinds ?? FLASHCARD_KINDS;
+            if (kinds.length === 0 || kinds.some(kind => !FLASHCARD_KINDS.includes(kind))) {
+                throw new ValidationError(`kinds must be a non-empty list of ${FLASHCARD_KINDS.join(', ')}`);
+            }
+
+            const maxTokens = options.maxChunkTokens ?? Math.floor(this.getContextBudget() / 2);
+            const results: GenerationResult[] = [];
+            for (const chunk of chunkText(notes, maxTokens * 4, 0)) {
+                results.push(await this.chatDetailed([
+                    { role: 'system', content: FLASHCARDS_PROMPT },
+                    { role: 'user', content: `Kinds of cards to write: ${kinds.join(', ')}\n\nNotes:\n${chunk}` }
+                ], { temperature: options.temperature }));
+            }
+
+            const generated = results
+                .flatMap(result => parseFlashcards(result.content))
+                .filter(card => kinds.includes(card.kind))
+                .map(card => options.tags?.length ? { ...card, tags: [...(card.tags ?? []), ...options.tags] } : card);
+            const { cards, duplicates } = dedupeFlashcards(generated);
+
+            return {
+                name: options.deckName ?? DEFAULT_DECK_NAME,
+                cards: cards.slice(0, options.maxCards),
+                duplicates,
+                usage: sumUsage(...results.map(result => result.usage))
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Asks the model for the technical terms of finished notes with short definitions, and finds
+     * where each one first occurs. Long notes are sent in parts and the terms merged. Add the
+     * glossary to the notes with addLatexGlossary or addMarkdownGlossary.
+     */
+    async generateGlossary(notes: string, options: GlossaryOptions = {}): Promise<Glossary> {
+        try {
+            validate.validateContent(notes);
+            if (options.maxTerms !== undefined && (!Number.isInteger(options.maxTerms) || options.maxTerms < 1)) {
+                throw new ValidationError('maxTerms must be a positive integer');
+            }
+            if (options.format) {
+                validate.validateFormat(options.format);
+            }
+
+            const maxTokens = options.maxChunkTokens ?? Math.floor(this.getContextBudget() / 2);
+            const results: GenerationResult[] = [];
+            for (const chunk of chunkText(notes, maxTokens * 4, 0)) {
+                results.push(await this.chatDetailed([
+                    { role: 'system', content: GLOSSARY_PROMPT },
+                    { role: 'user', content: `Notes:\n${chunk}` }
+                ], { temperature: options.temperature }));
+            }
+
+            const entries = locateGlossaryTerms(
+                notes,
+                mergeGlossaryEntries(results.flatMap(result => parseGlossaryEntries(result.content))),
+                options.format && writtenFormat(options.format)
+            );
+            // Terms the notes never use verbatim are the first to go
+            const kept = options.maxTerms === undefined
+                ? entries
+                : [...entries]
+                    .sort((a, b) => (a.location?.line ?? Infinity) - (b.location?.line ?? Infinity))
+                    .slice(0, options.maxTerms);
+
+            return {
+                entries: sortGlossaryEntries(kept),
+                usage: sumUsage(...results.map(result => result.usage))
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Asks the model for quiz questions with answer keys on finished notes or a transcript.
+     * Every question is checked against its JSON schema and points back to the section it was
+     * written from; questions that fail are reported in `rejected`. Input that does not fit in
+     * one request is sent in parts, which share the questions by length.
+     */
+    async generateQuiz(notesOrTranscript: TranscriptInput, options: QuizOptions = {}): Promise<Quiz> {
+        try {
+            const input = transcriptToText(notesOrTranscript);
+            validate.validateContent(input);
+            const count = options.count ?? 10;
+            if (!Number.isInteger(count) || count < 1) {
+                throw new ValidationError('count must be a positive integer');
+            }
+            const types = options.types ?? QUIZ_QUESTION_TYPES;
+            if (types.length === 0 || types.some(type => !QUIZ_QUESTION_TYPES.includes(type))) {
+                throw new ValidationError(`types must be a non-empty list of ${QUIZ_QUESTION_TYPES.join(', ')}`);
+            }
+            if (options.format) {
+                validate.validateFormat(options.format);
+            }
+
+            const maxTokens = options.maxChunkTokens ?? Math.floor(this.getContextBudget() / 2);
+            const sections = splitQuizSources(input, maxTokens, options.format);
+            const titles = sections.map(section => section.title);
+            const results: GenerationResult[] = [];
+            const questions: QuizQuestion[] = [];
+            const rejected: RejectedQuizQuestion[] = [];
+
+            for (const request of planQuizRequests(sections, count, maxTokens)) {
+                const result = await this.chatDetailed([
+                    { role: 'system', content: QUIZ_PROMPT },
+                    {
+                        role: 'user',
+                        content: formatQuizPrompt(
+                            request.sections.map(({ number, section }) => ({ number, ...section })),
+                            request.count,
+                            types,
+                            options.difficulty
+                        )
+                    }
+                ], { temperature: options.temperature });
+                results.push(result);
+
+                const parsed = parseQuizQuestions(result.content, titles);
+                questions.push(...parsed.questions.filter(question => types.includes(question.type)).slice(0, request.count));
+                rejected.push(
+                    ...parsed.rejected,
+                    ...parsed.questions
+                        .filter(question => !types.includes(question.type))
+                        .map(question => ({ question, errors: [`type ${question.type} was not requested`] }))
+                );
+            }
+
+            return {
+                title: options.title ?? 'Lecture Quiz',
+                questions,
+                sections: titles,
+                rejected,
+                usage: sumUsage(...results.map(result => result.usage))
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Generates notes as a LectureDocument instead of markup: the model answers with JSON
+     * constrained to LECTURE_DOCUMENT_SCHEMA, and `content` is rendered from the document by
+     * the SDK, so the layout is the same whichever provider wrote it.
+     */
+    async generateLectureDocument(transcript: TranscriptInput, options: LectureDocumentOptions = {}): Promise<LectureDocumentResult> {
+        try {
+            const text = transcriptToText(transcript);
+            validate.validateTranscript(text);
+            const format = options.format ?? 'latex';
+            validate.validateFormat(format);
+            const written = writtenFormat(format);
+            if (written === 'typst') {
+                throw new ValidationError('Structured lecture documents cannot be rendered to typst');
+            }
+
+            const result = await this.chatDetailed([
+                { role: 'system', content: LECTURE_DOCUMENT_PROMPT },
+                { role: 'user', content: text }
+            ], { temperature: options.temperature, responseFormat: LECTURE_DOCUMENT_RESPONSE_FORMAT });
+            const document = parseLectureDocument(result.content);
+
+            return {
+                ...this.formatResult({ ...result, content: renderLectureDocument(document, written) }, format, options),
+                document
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Converts a result written in Markdown into the html or ipynb format when one of them was
+     * requested; other formats are returned unchanged.
+     */
+    protected formatResult(
+        result: GenerationResult,
+        format: LectureFormat,
+        options: Pick<BuildLectureNotesOptions, 'html' | 'notebook'> = {}
+    ): GenerationResult {
+        return writtenFormat(format) === format
+            ? result
+            : { ...result, content: convertMarkdown(stripCodeFences(result.content), format, options) };
+    }
+
+    /**
+     * Runs the checks configured in `responseValidation` and reports which ones failed and where.
+     */
+    protected diagnoseResponse(content: string): ResponseDiagnostics {
+        return this.responseValidator.validate(content);
+    }
+
+    protected isResponseComplete(content: string): boolean {
+        return this.diagnoseResponse(content).complete;
+    }
 }
 
-interface AudioTranscriptionOptions {
-    audioPath: string;
-    chunkDuration?: number;
-}
\ No newline at end of file
+// html and ipynb documents are written in Markdown and converted once complete
+function convertMarkdown(markdown: string, format: LectureFormat, options: Pick<BuildLectureNotesOptions, 'html' | 'notebook'>): string {
+    switch (format) {
+        case 'html':
+            return renderHTML(markdown, options.html);
+        case 'ipynb':
+            return renderNotebook(markdown, options.notebook);
+        default:
+            return markdown;
+    }
+}
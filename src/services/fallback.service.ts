@@ -0,0 +1,252 @@
+import {
+    LectureNotes,
+    LectureFormat,
+    GenerationResult,
+    ImageSource,
+    AudioTranscriptionOptions,
+    PartialGeneration
+} from '../types/lecture.types';
+import { ChatMessage, ChatOptions } from '../types/chat.types';
+import { AudioTranscript } from '../types/transcript.types';
+import { FallbackProvider, FallbackServiceOptions } from '../types/provider.types';
+import { formatContinuationPrompt } from '../prompts';
+import {
+    handleError,
+    NetworkError,
+    RateLimitError,
+    SDKError,
+    TimeoutError,
+    ValidationError
+} from '../utils/error.utils';
+import { mergeGenerationResults } from '../utils/generation.utils';
+import { stitchContinuation } from '../utils/text.utils';
+import { AIService } from './ai.service';
+
+const DEFAULT_ERROR_TYPES = [RateLimitError, NetworkError, TimeoutError];
+const DEFAULT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Routes every operation to an ordered list of services, moving on to the next one when a
+ * call fails with an error matched by the fallback rules. When a provider fails part-way
+ * through a response, the next provider is asked to continue it rather than start over.
+ * The provider that produced the final output is reported in `GenerationResult.provider`.
+ */
+export class FallbackService extends AIService {
+    private readonly providers: FallbackProvider[];
+
+    constructor(
+        providers: Array<AIService | FallbackProvider>,
+        private readonly options: FallbackServiceOptions = {}
+    ) {
+        // The wrapped services hold the credentials and model settings
+        super({ apiKey: '', mediaSource: options.mediaSource });
+        try {
+            if (providers.length === 0) {
+                throw new ValidationError('At least one provider is required');
+            }
+
+            this.providers = providers.map(provider =>
+                provider instanceof AIService ? { name: provider.constructor.name, service: provider } : provider
+            );
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * The smallest budget of the wrapped services, so that requests fit whichever one runs them.
+     */
+    getContextBudget(): number {
+        return Math.min(...this.providers.map(({ service }) => service.getContextBudget()));
+    }
+
+    async generateLectureNotes(topic: string, context?: string): Promise<LectureNotes> {
+        try {
+            const { value, provider, failures } = await this.withFallback(service =>
+                service.generateLectureNotes(topic, context)
+            );
+            return {
+                ...value,
+                metadata: { ...value.metadata, provider, warnings: [...failures, ...value.metadata.warnings] }
+            };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async generateFromTranscriptDetailed(transcript: string, format?: LectureFormat): Promise<GenerationResult> {
+        return this.generate(service => service.generateFromTranscriptDetailed(transcript, format), { format });
+    }
+
+    async generateFromAudioDetailed(audioTranscript: string): Promise<GenerationResult> {
+        return this.generate(service => service.generateFromAudioDetailed(audioTranscript));
+    }
+
+    async refineSectionDetailed(section: string, transcript: string, format?: LectureFormat): Promise<GenerationResult> {
+        return this.generate(service => service.refineSectionDetailed(section, transcript, format));
+    }
+
+    async generateScaffoldDetailed(transcript: string, format?: LectureFormat): Promise<GenerationResult> {
+        return this.generate(service => service.generateScaffoldDetailed(transcript, format));
+    }
+
+    async augmentFromPDFDetailed(pdfContent: string, format?: LectureFormat): Promise<GenerationResult> {
+        return this.generate(service => service.augmentFromPDFDetailed(pdfContent, format), { format });
+    }
+
+    async refineDocumentDetailed(document: string, format?: LectureFormat): Promise<GenerationResult> {
+        return this.generate(service => service.refineDocumentDetailed(document, format), { format });
+    }
+
+    async chatDetailed(messages: ChatMessage[], options?: ChatOptions): Promise<GenerationResult> {
+        return this.generate(service => service.chatDetailed(messages, options));
+    }
+
+    async transcribeHandwrittenNotesDetailed(images: ImageSource[]): Promise<GenerationResult> {
+        return this.generate(service => service.transcribeHandwrittenNotesDetailed(images));
+    }
+
+    async processAudioFile(options: AudioTranscriptionOptions): Promise<AudioTranscript> {
+        try {
+            return (await this.withFallback(service => service.processAudioFile(options))).value;
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Falls back only until the first chunk has been yielded; text that has already been
+     * streamed cannot be taken back, so later failures are rethrown.
+     */
+    async *streamFromTranscript(transcript: string, format?: LectureFormat): AsyncGenerator<string> {
+        for (const [index, { name, service }] of this.providers.entries()) {
+            let streamed = false;
+            try {
+                for await (const chunk of service.streamFromTranscript(transcript, format)) {
+                    streamed = true;
+                    yield chunk;
+                }
+                return;
+            } catch (error) {
+                if (streamed || !this.canFallBack(error, name, index)) {
+                    throw handleError(error);
+                }
+                this.options.onFallback?.({ from: name, to: this.providers[index + 1].name, error: error as Error });
+            }
+        }
+    }
+
+    /**
+     * `request` describes how the response is finished, so that a continuation on another
+     * provider is converted the same way.
+     */
+    private async generate(
+        operation: (service: AIService) => Promise<GenerationResult>,
+        request: Pick<PartialGeneration, 'format'> = {}
+    ): Promise<GenerationResult> {
+        try {
+            const { value, provider, failures } = await this.withFallback((service, partial) =>
+                partial ? this.continuePartial(service, partial) : operation(service),
+                request
+            );
+            return { ...value, provider, warnings: [...failures, ...value.warnings] };
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Runs `operation` on each provider in turn until one succeeds. For operations that continue
+     * partial output, `continuation` is given and the output a failed provider left behind is
+     * passed on; the others start over on the next provider.
+     */
+    private async withFallback<T>(
+        operation: (service: AIService, partial?: PartialGeneration) => Promise<T>,
+        continuation?: Pick<PartialGeneration, 'format'>
+    ): Promise<{ value: T; provider: string; failures: string[] }> {
+        const failures: string[] = [];
+        let partial: PartialGeneration | undefined;
+
+        for (const [index, { name, service }] of this.providers.entries()) {
+            try {
+                const value = await this.withTimeout(operation(service, partial));
+                return { value, provider: name, failures };
+            } catch (error) {
+                if (!this.canFallBack(error, name, index)) {
+                    throw error;
+                }
+
+                const next = this.providers[index + 1].name;
+                const failed = continuation && (error as SDKError).partial;
+                partial = failed ? { ...continuation, ...failed } : partial;
+                failures.push(`${name} failed (${(error as Error).message}); ${partial ? 'continued' : 'retried'} on ${next}`);
+                this.options.onFallback?.({ from: name, to: next, error: error as Error, partial });
+            }
+        }
+
+        // Unreachable: the last provider's error is always rethrown
+        throw new SDKError('No provider produced a result');
+    }
+
+    /**
+     * Asks `service` to continue a response another provider left unfinished and joins the two
+     * parts, converting them to the requested format. If this attempt fails as well, the error
+     * carries everything generated so far.
+     */
+    private async continuePartial(service: AIService, partial: PartialGeneration): Promise<GenerationResult> {
+        try {
+            const result = await service.chatDetailed([
+                ...partial.messages,
+                { role: 'assistant', content: partial.result.content },
+                { role: 'user', content: formatContinuationPrompt(this.diagnoseResponse(partial.result.content).issues) }
+            ]);
+            const joined = joinPartial(partial.result, result);
+            return partial.format ? this.formatResult(joined, partial.format) : joined;
+        } catch (error) {
+            if (error instanceof Error) {
+                const continued = (error as SDKError).partial?.result;
+                (error as SDKError).partial = {
+                    ...partial,
+                    result: continued ? joinPartial(partial.result, continued) : partial.result
+                };
+            }
+            throw error;
+        }
+    }
+
+    private canFallBack(error: unknown, provider: string, index: number): boolean {
+        if (index === this.providers.length - 1 || !(error instanceof Error)) {
+            return false;
+        }
+
+        const errorTypes = this.options.errorTypes ?? DEFAULT_ERROR_TYPES;
+        const statusCodes = this.options.statusCodes ?? DEFAULT_STATUS_CODES;
+        const status = (error as SDKError).status;
+
+        return errorTypes.some(type => error instanceof type) ||
+            (status !== undefined && statusCodes.includes(status)) ||
+            (this.options.shouldFallback?.(error, provider) ?? false);
+    }
+
+    /**
+     * Rejects with a TimeoutError once `timeoutMs` has passed. The provider call is not
+     * cancelled: it keeps running, and counting against the provider's quota, until it settles,
+     * and its result or error is then ignored.
+     */
+    private withTimeout<T>(promise: Promise<T>): Promise<T> {
+        const { timeoutMs } = this.options;
+        if (!timeoutMs) {
+            return promise;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new TimeoutError(`Provider did not respond within ${timeoutMs} ms`)), timeoutMs);
+        });
+        return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+    }
+}
+
+function joinPartial(partial: GenerationResult, continuation: GenerationResult): GenerationResult {
+    return mergeGenerationResults([partial, continuation], stitchContinuation(partial.content, continuation.content));
+}
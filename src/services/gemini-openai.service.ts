@@ -1,103 +1,84 @@
-import { GoogleGenerativeAI, GenerateContentResult } from '@google/generative-ai';
-import { LectureNotes, LectureFormat, ServiceConfig } from '../types/lecture.types';
-import { handleError } from '../utils/error.utils';
+import { GoogleGenerativeAI, GenerativeModel, FinishReason, Part } from '@google/generative-ai';
+import {
+    LectureNotes,
+    LectureFormat,
+    ServiceConfig,
+    GenerationResult,
+    ImageSource,
+    AudioTranscriptionOptions
+} from '../types/lecture.types';
+import { AudioTranscript } from '../types/transcript.types';
+import { ChatMessage, ChatOptions, JsonResponseFormat } from '../types/chat.types';
+import { CompletenessIssue } from '../types/validation.types';
+import {
+    FINAL_REFINEMENT_PROMPT,
+    FINAL_REFINEMENT_PROMPT_MARKDOWN,
+    FINAL_REFINEMENT_PROMPT_TYPST,
+    FINAL_DOCUMENT_MESSAGE,
+    FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+    FINAL_DOCUMENT_MESSAGE_TYPST,
+    HANDWRITTEN_NOTES_TO_TRANSCRIPT,
+    formatFinalRefinementPrompt,
+    formatAudioTranscriptionPrompt,
+    formatContinuationPrompt,
+    selectPrompt
+} from '../prompts';
+import { handleError, ValidationError } from '../utils/error.utils';
 import * as validate from '../utils/validation.utils';
 import { withRetry, throttler } from '../utils/retry.utils';
+import { ContinuationStitcher, stitchContinuation } from '../utils/text.utils';
+import { GenerationTracker, toChatMessages, toLectureNotes, usageFromCompletion, withPartialGeneration } from '../utils/generation.utils';
+import { loadImage, toDataURL } from '../utils/image.utils';
+import { transcribeAudioInline } from '../utils/audio.utils';
+import { toGeminiSchema } from '../utils/schema.utils';
 import { AIService } from './ai.service';
 
+const FORMAT_NAMES = { latex: 'LaTeX', markdown: 'Markdown', typst: 'Typst' };
+
 export class GeminiOpenAIService extends AIService {
     private genAI: GoogleGenerativeAI;
-    private model: any;
+    private model: GenerativeModel;
 
     constructor(config: string | ServiceConfig) {
-        super(config);
+        super(config, "gemini-pro");
         try {
             validate.validateConfig(config);
             
             this.genAI = new GoogleGenerativeAI(this.config.apiKey);
             this.model = this.genAI.getGenerativeModel({ 
-                model: this.config.model || "gemini-pro"
+                model: this.config.model
             });
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    protected isResponseComplete(content: string): boolean {
-        const validation = this.config.responseValidation;
-        
-        // Check for truncation indicators
-        if (validation.customIndicators?.some(indicator => 
-            content.trim().endsWith(indicator))) {
-            return false;
-        }
-
-        // Check for incomplete LaTeX environments
-        if (validation.checkLaTeXBalance) {
-            const beginCount = (content.match(/\\begin\{/g) || []).length;
-            const endCount = (content.match(/\\end\{/g) || []).length;
-            if (beginCount !== endCount) {
-                return false;
-            }
-        }
-
-        // Check for incomplete code blocks
-        if (validation.checkCodeBlocks) {
-            const codeBlockStarts = (content.match(/```/g) || []).length;
-            if (codeBlockStarts % 2 !== 0) {
-                return false;
-            }
-        }
-
-        return true;
-    }
-
     /**
      * OpenAI API compatibility layer
      */
-    async createChatCompletion(params: {
-        model: string;
-        messages: Array<{
-            role: string;
-            content: string;
-        }>;
-        temperature?: number;
-        max_tokens?: number;
-    }) {
+    async createChatCompletion(params: ChatCompletionParams) {
         try {
-            const chat = this.model.startChat();
-            const history = params.messages.map(msg => ({
-                role: msg.role === 'assistant' ? 'model' : msg.role,
-                parts: [{ text: msg.content }]
-            }));
-
-            // Add all messages except the last one to chat history
-            for (let i = 0; i < history.length - 1; i++) {
-                await chat.sendMessage(history[i].parts[0].text);
-            }
+            const chat = this.startChat(params);
 
             // Send the last message and get response
-            const result = await chat.sendMessage(
-                history[history.length - 1].parts[0].text, 
-                { 
-                    temperature: params.temperature ?? this.config.temperature,
-                    maxOutputTokens: params.max_tokens ?? this.config.maxTokens,
-                }
-            ) as GenerateContentResult;
+            const result = await chat.sendMessage(toRequest(params.messages[params.messages.length - 1].content));
+            const finishReason = result.response.candidates?.[0]?.finishReason;
+            const usage = result.response.usageMetadata;
 
             // Convert to OpenAI format
             return {
+                model: params.model,
                 choices: [{
                     message: {
                         role: 'assistant',
                         content: result.response.text()
                     },
-                    finish_reason: 'stop'
+                    finish_reason: finishReason === FinishReason.MAX_TOKENS ? 'length' : 'stop'
                 }],
                 usage: {
-                    prompt_tokens: 0, // Not provided by Gemini
-                    completion_tokens: 0,
-                    total_tokens: 0
+                    prompt_tokens: usage?.promptTokenCount ?? 0,
+                    completion_tokens: usage?.candidatesTokenCount ?? 0,
+                    total_tokens: usage?.totalTokenCount ?? 0
                 }
             };
         } catch (error) {
@@ -105,14 +86,64 @@ export class GeminiOpenAIService extends AIService {
         }
     }
 
+    /**
+     * Streaming variant of the OpenAI compatibility layer, yielding chunks shaped like
+     * OpenAI's `chat.completion.chunk` objects.
+     */
+    async *createChatCompletionStream(params: ChatCompletionParams) {
+        try {
+            const chat = this.startChat(params);
+            const result = await chat.sendMessageStream(toRequest(params.messages[params.messages.length - 1].content));
+            for await (const chunk of result.stream) {
+                const finishReason = chunk.candidates?.[0]?.finishReason;
+                yield {
+                    model: params.model,
+                    choices: [{
+                        delta: { content: chunk.text() },
+                        finish_reason: finishReason === FinishReason.MAX_TOKENS
+                            ? 'length'
+                            : finishReason ? 'stop' : null
+                    }]
+                };
+            }
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    /**
+     * Starts a Gemini chat whose history holds every message but the last one. Gemini has no
+     * system role, so system messages are sent as user turns.
+     */
+    private startChat(params: ChatCompletionParams) {
+        return this.model.startChat({
+            history: params.messages.slice(0, -1).map(msg => ({
+                role: msg.role === 'assistant' ? 'model' : 'user',
+                parts: toParts(msg.content)
+            })),
+            generationConfig: {
+                temperature: params.temperature ?? this.config.temperature,
+                maxOutputTokens: params.max_tokens ?? this.config.maxTokens,
+                ...(params.response_format ? {
+                    responseMimeType: 'application/json',
+                    responseSchema: toGeminiSchema(params.response_format.json_schema.schema)
+                } : {})
+            }
+        });
+    }
+
     private async generateWithModel(
-        messages: Array<{ role: string; content: string }>,
+        messages: ChatCompletionParams['messages'],
         errorMessage: string,
-        temperature?: number
-    ): Promise<string> {
+        temperature?: number,
+        responseFormat?: JsonResponseFormat
+    ): Promise<GenerationResult> {
+        const tracker = new GenerationTracker();
+        let content = '';
+
         try {
-            let content = '';
             let attempts = 0;
+            let truncated = false;
 
             while (attempts < this.config.maxAttempts) {
                 // Use OpenAI compatibility layer
@@ -120,12 +151,10 @@ export class GeminiOpenAIService extends AIService {
                     withRetry(() => 
                         this.createChatCompletion({
                             model: this.config.model,
-                            messages: content ? [
-                                messages[0],
-                                { role: 'user', content: `Continue from: ${content}` }
-                            ] : messages,
+                            messages: content ? continuationMessages(messages, content, this.diagnoseResponse(content).issues) : messages,
                             temperature: temperature ?? this.config.temperature,
-                            max_tokens: this.config.maxTokens
+                            max_tokens: this.config.maxTokens,
+                            ...(responseFormat ? { response_format: { type: 'json_schema' as const, json_schema: responseFormat } } : {})
                         })
                     )
                 );
@@ -136,25 +165,101 @@ export class GeminiOpenAIService extends AIService {
                     throw new Error(errorMessage);
                 }
 
-                content = content ? content + '\n' + newContent : newContent;
+                content = stitchContinuation(content, newContent);
 
-                if (choice.finish_reason === 'stop' && this.isResponseComplete(content)) {
-                    break;
+                const issues = this.diagnoseResponse(content).issues.map(issue => issue.message);
+                tracker.recordAttempt(
+                    choice.finish_reason,
+                    usageFromCompletion(completion.usage),
+                    choice.finish_reason === 'length' ? ['Output truncated at the token limit', ...issues] : issues
+                );
+                truncated = choice.finish_reason === 'length';
+
+                // A continuation would be a second JSON document rather than the rest of this one
+                if (responseFormat) {
+                    if (truncated) {
+                        throw new Error('Structured response reached the token limit; increase maxTokens');
+                    }
+                    return tracker.finish(content, this.config.model);
                 }
 
-                if (!this.isResponseComplete(content)) {
-                    attempts++;
-                    continue;
+                // Output cut at the token limit is continued even when it happens to look complete
+                if (!truncated && issues.length === 0) {
+                    break;
                 }
 
-                break;
+                attempts++;
             }
 
-            if (!this.isResponseComplete(content)) {
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
                 throw new Error('Failed to generate complete response after maximum attempts');
             }
 
-            return content;
+            return tracker.finish(content, this.config.model);
+        } catch (error) {
+            throw handleError(withPartialGeneration(error, responseFormat ? undefined : toChatMessages(messages), tracker.finish(content, this.config.model)));
+        }
+    }
+
+    private async *streamWithModel(
+        messages: ChatCompletionParams['messages'],
+        errorMessage: string,
+        temperature?: number
+    ): AsyncGenerator<string> {
+        try {
+            let content = '';
+            let attempts = 0;
+            let truncated = false;
+
+            while (attempts < this.config.maxAttempts) {
+                const stream = this.createChatCompletionStream({
+                    model: this.config.model,
+                    messages: content ? continuationMessages(messages, content, this.diagnoseResponse(content).issues) : messages,
+                    temperature: temperature ?? this.config.temperature,
+                    max_tokens: this.config.maxTokens
+                });
+
+                const stitcher = new ContinuationStitcher(content);
+                let received = false;
+                let finishReason: string | null = null;
+
+                for await (const chunk of stream) {
+                    const choice = chunk.choices[0];
+                    const delta = choice.delta.content;
+                    if (delta) {
+                        received = true;
+                        const text = stitcher.push(delta);
+                        if (text) {
+                            content += text;
+                            yield text;
+                        }
+                    }
+                    finishReason = choice.finish_reason ?? finishReason;
+                }
+
+                if (!received) {
+                    throw new Error(errorMessage);
+                }
+
+                const rest = stitcher.flush();
+                if (rest) {
+                    content += rest;
+                    yield rest;
+                }
+
+                truncated = finishReason === 'length';
+                if (!truncated && this.isResponseComplete(content)) {
+                    break;
+                }
+
+                attempts++;
+            }
+
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
+                throw new Error('Failed to generate complete response after maximum attempts');
+            }
         } catch (error) {
             throw handleError(error);
         }
@@ -175,24 +280,15 @@ export class GeminiOpenAIService extends AIService {
                 }
             ];
 
-            const content = await this.generateWithModel(messages, 'Failed to generate lecture notes');
+            const result = await this.generateWithModel(messages, 'Failed to generate lecture notes');
 
-            return {
-                topic,
-                content,
-                timestamp: new Date(),
-                metadata: {
-                    model: this.config.model,
-                    promptTokens: 0,
-                    completionTokens: 0
-                }
-            };
+            return toLectureNotes(topic, result);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromTranscript(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateFromTranscriptDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
@@ -200,7 +296,66 @@ export class GeminiOpenAIService extends AIService {
             const messages = [
                 {
                     role: "system",
-                    content: "Convert this transcript into " + (format === 'latex' ? 'LaTeX' : 'Markdown') + " format."
+                    content: "Convert this transcript into " + selectPrompt(format, FORMAT_NAMES) + " format."
+                },
+                {
+                    role: "user",
+                    content: transcript
+                }
+            ];
+
+            return this.formatResult(await this.generateWithModel(messages, 'Failed to generate from transcript'), format);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async chatDetailed(messages: ChatMessage[], options: ChatOptions = {}): Promise<GenerationResult> {
+        try {
+            validate.validateChatMessages(messages);
+            if (options.files?.length) {
+                throw new ValidationError('Uploaded files are not supported by the Gemini OpenAI compatibility layer');
+            }
+            return this.generateWithModel(messages, 'Failed to generate chat response', options.temperature, options.responseFormat);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async transcribeHandwrittenNotesDetailed(images: ImageSource[]): Promise<GenerationResult> {
+        try {
+            validate.validateImages(images);
+
+            const loaded = await Promise.all(images.map(image => loadImage(image)));
+            const messages: ChatCompletionParams['messages'] = [
+                {
+                    role: "system",
+                    content: HANDWRITTEN_NOTES_TO_TRANSCRIPT
+                },
+                {
+                    role: "user",
+                    content: [
+                        { type: "text", text: `Transcribe the ${loaded.length} attached page(s) of notes in order.` },
+                        ...loaded.map(image => ({ type: "image_url" as const, image_url: { url: toDataURL(image) } }))
+                    ]
+                }
+            ];
+
+            return this.generateWithModel(messages, 'Failed to transcribe handwritten notes');
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async *streamFromTranscript(transcript: string, format: LectureFormat = 'latex'): AsyncIterable<string> {
+        try {
+            validate.validateTranscript(transcript);
+            validate.validateStreamFormat(format);
+
+            const messages = [
+                {
+                    role: "system",
+                    content: "Convert this transcript into " + selectPrompt(format, FORMAT_NAMES) + " format."
                 },
                 {
                     role: "user",
@@ -208,13 +363,13 @@ export class GeminiOpenAIService extends AIService {
                 }
             ];
 
-            return this.generateWithModel(messages, 'Failed to generate from transcript');
+            yield* this.streamWithModel(messages, 'Failed to generate from transcript');
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromAudio(audioTranscript: string): Promise<string> {
+    async generateFromAudioDetailed(audioTranscript: string): Promise<GenerationResult> {
         try {
             validate.validateAudioTranscript(audioTranscript);
 
@@ -235,7 +390,7 @@ export class GeminiOpenAIService extends AIService {
         }
     }
 
-    async refineSection(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async refineSectionDetailed(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateSection(section, transcript);
             validate.validateFormat(format);
@@ -257,7 +412,7 @@ export class GeminiOpenAIService extends AIService {
         }
     }
 
-    async generateScaffold(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateScaffoldDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
@@ -265,7 +420,7 @@ export class GeminiOpenAIService extends AIService {
             const messages = [
                 {
                     role: "system",
-                    content: "Generate a document scaffold in " + (format === 'latex' ? 'LaTeX' : 'Markdown') + " format based on this transcript."
+                    content: "Generate a document scaffold in " + selectPrompt(format, FORMAT_NAMES) + " format based on this transcript."
                 },
                 {
                     role: "user",
@@ -279,7 +434,7 @@ export class GeminiOpenAIService extends AIService {
         }
     }
 
-    async augmentFromPDF(pdfContent: string, format: LectureFormat = 'latex'): Promise<string> {
+    async augmentFromPDFDetailed(pdfContent: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validatePDFContent(pdfContent);
             validate.validateFormat(format);
@@ -287,7 +442,7 @@ export class GeminiOpenAIService extends AIService {
             const messages = [
                 {
                     role: "system",
-                    content: "Transform this PDF content into a complete " + (format === 'latex' ? 'LaTeX' : 'Markdown') + " document."
+                    content: "Transform this PDF content into a complete " + selectPrompt(format, FORMAT_NAMES) + " document."
                 },
                 {
                     role: "user",
@@ -295,22 +450,131 @@ export class GeminiOpenAIService extends AIService {
                 }
             ];
 
-            return this.generateWithModel(messages, 'Failed to augment PDF');
+            return this.formatResult(await this.generateWithModel(messages, 'Failed to augment PDF'), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async processAudioFile(options: AudioTranscriptionOptions): Promise<string> {
-        throw new Error('Audio file processing not yet supported with Gemini');
+    async refineDocumentDetailed(document: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
+        try {
+            validate.validateContent(document);
+            validate.validateFormat(format);
+
+            const prompt = selectPrompt(format, {
+                latex: FINAL_REFINEMENT_PROMPT,
+                markdown: FINAL_REFINEMENT_PROMPT_MARKDOWN,
+                typst: FINAL_REFINEMENT_PROMPT_TYPST
+            });
+            const message = selectPrompt(format, {
+                latex: FINAL_DOCUMENT_MESSAGE,
+                markdown: FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+                typst: FINAL_DOCUMENT_MESSAGE_TYPST
+            });
+
+            const messages = [
+                {
+                    role: "system",
+                    content: formatFinalRefinementPrompt(prompt, document)
+                },
+                {
+                    role: "user",
+                    content: message
+                }
+            ];
+
+            return this.formatResult(await this.generateWithModel(messages, 'Failed to refine document'), format);
+        } catch (error) {
+            throw handleError(error);
+        }
     }
 
-    async processYouTubeURL(url: string, format: LectureFormat = 'latex'): Promise<LectureNotes> {
-        throw new Error('YouTube processing not yet supported with Gemini');
+    /**
+     * Transcribes a recording by sending the audio inline through the compatibility layer.
+     * Files above the inline size limit are split into chunks.
+     */
+    async processAudioFile(options: AudioTranscriptionOptions): Promise<AudioTranscript> {
+        try {
+            validate.validateAudioPath(options.audioPath);
+            validate.validateLanguage(options.language);
+
+            return await transcribeAudioInline(options, async (audio, previousText) => {
+                const result = await this.generateWithModel([
+                    {
+                        role: "system",
+                        content: formatAudioTranscriptionPrompt({ ...options, previousText })
+                    },
+                    {
+                        role: "user",
+                        content: [{
+                            type: "input_audio",
+                            input_audio: { data: audio.data, format: audio.mimeType.split('/')[1] }
+                        }]
+                    }
+                ], 'Failed to transcribe audio', 0);
+                return result.content;
+            });
+        } catch (error) {
+            throw handleError(error);
+        }
     }
 }
 
-interface AudioTranscriptionOptions {
-    audioPath: string;
-    chunkDuration?: number;
-}
\ No newline at end of file
+function toRequest(content: string | ChatCompletionContentPart[]): string | Part[] {
+    return typeof content === 'string' ? content : toParts(content);
+}
+
+// Maps OpenAI-style message content to Gemini parts. Images must be given as data URLs.
+function toParts(content: string | ChatCompletionContentPart[]): Part[] {
+    if (typeof content === 'string') {
+        return [{ text: content }];
+    }
+
+    return content.map(part => {
+        if (part.type === 'text') {
+            return { text: part.text };
+        }
+        if (part.type === 'input_audio') {
+            return { inlineData: { mimeType: `audio/${part.input_audio.format}`, data: part.input_audio.data } };
+        }
+
+        const match = part.image_url.url.match(/^data:([^;,]+);base64,(.*)$/s);
+        if (!match) {
+            throw new ValidationError('Images must be sent as base64 data URLs');
+        }
+        return { inlineData: { mimeType: match[1], data: match[2] } };
+    });
+}
+
+/**
+ * The original messages, the output so far as a model turn and a request to go on from there
+ * that names whatever `issues` found still open.
+ */
+function continuationMessages(
+    messages: ChatCompletionParams['messages'],
+    content: string,
+    issues: CompletenessIssue[]
+): ChatCompletionParams['messages'] {
+    return [
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: formatContinuationPrompt(issues) }
+    ];
+}
+
+type ChatCompletionContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+    | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+interface ChatCompletionParams {
+    model: string;
+    messages: Array<{
+        role: string;
+        content: string | ChatCompletionContentPart[];
+    }>;
+    temperature?: number;
+    max_tokens?: number;
+    /** OpenAI-style structured output, sent to Gemini as a response schema */
+    response_format?: { type: 'json_schema'; json_schema: JsonResponseFormat };
+}
@@ -1,110 +1,212 @@
-import { GoogleGenerativeAI, GenerateContentResult } from '@google/generative-ai';
-import { LectureNotes, LectureFormat, ServiceConfig } from '../types/lecture.types';
+import { GoogleGenerativeAI, GenerativeModel, FinishReason, Content, Part } from '@google/generative-ai';
+import {
+    LectureNotes,
+    LectureFormat,
+    ServiceConfig,
+    GenerationResult,
+    ImageSource,
+    AudioTranscriptionOptions
+} from '../types/lecture.types';
+import { AudioTranscript } from '../types/transcript.types';
+import { ChatMessage, ChatOptions, JsonResponseFormat } from '../types/chat.types';
 import {
     SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
     SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+    SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST,
     SYSTEM_PROMPT_WITH_AUDIO,
     SECTION_REFINEMENT_PROMPT,
     SECTION_REFINEMENT_PROMPT_MARKDOWN,
+    SECTION_REFINEMENT_PROMPT_TYPST,
     DEFINE_SCAFFOLD_WITH_TRANSCRIPT,
     DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN,
+    DEFINE_SCAFFOLD_WITH_TRANSCRIPT_TYPST,
     AUGMENT_PDF_LESSON_LATEX_SYNTAX,
     AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX,
-    formatPrompt
+    AUGMENT_PDF_LESSON_TYPST_SYNTAX,
+    FINAL_REFINEMENT_PROMPT,
+    FINAL_REFINEMENT_PROMPT_MARKDOWN,
+    FINAL_REFINEMENT_PROMPT_TYPST,
+    FINAL_DOCUMENT_MESSAGE,
+    FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+    FINAL_DOCUMENT_MESSAGE_TYPST,
+    HANDWRITTEN_NOTES_TO_TRANSCRIPT,
+    formatPrompt,
+    formatFinalRefinementPrompt,
+    formatAudioTranscriptionPrompt,
+    formatContinuationPrompt,
+    selectPrompt
 } from '../prompts';
 import { handleError } from '../utils/error.utils';
 import * as validate from '../utils/validation.utils';
 import { withRetry, throttler } from '../utils/retry.utils';
+import { ContinuationStitcher, stitchContinuation } from '../utils/text.utils';
+import { GenerationTracker, toLectureNotes, usageFromGemini, withPartialGeneration } from '../utils/generation.utils';
+import { loadImage } from '../utils/image.utils';
+import { transcribeAudioInline } from '../utils/audio.utils';
+import { toGeminiSchema } from '../utils/schema.utils';
 import { AIService } from './ai.service';
 
 export class GeminiService extends AIService {
     private client: GoogleGenerativeAI;
-    private model: any; // Proper type will be added when implementing
+    private model: GenerativeModel;
 
     constructor(config: string | ServiceConfig) {
-        super(config);
+        super(config, "gemini-pro");
         try {
             validate.validateConfig(config);
             
             this.client = new GoogleGenerativeAI(this.config.apiKey);
-            // Initialize with default model or configured model
             this.model = this.client.getGenerativeModel({ 
-                model: this.config.model || "gemini-pro"
+                model: this.config.model
             });
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    protected isResponseComplete(content: string): boolean {
-        const validation = this.config.responseValidation;
-        
-        // Check for truncation indicators
-        if (validation.customIndicators?.some(indicator => 
-            content.trim().endsWith(indicator))) {
-            return false;
-        }
+    private async generateWithModel(
+        prompt: string | Part[],
+        systemPrompt?: string,
+        temperature?: number,
+        history: Content[] = [],
+        responseFormat?: JsonResponseFormat
+    ): Promise<GenerationResult> {
+        const tracker = new GenerationTracker();
+        let content = '';
+
+        try {
+            let attempts = 0;
+            let truncated = false;
+
+            const chat = this.model.startChat({
+                history: [
+                    ...(systemPrompt ? [{
+                        role: "user",
+                        parts: [{ text: systemPrompt }]
+                    }] : []),
+                    ...history
+                ],
+                generationConfig: {
+                    temperature: temperature ?? this.config.temperature,
+                    maxOutputTokens: this.config.maxTokens,
+                    ...(responseFormat ? {
+                        responseMimeType: 'application/json',
+                        responseSchema: toGeminiSchema(responseFormat.schema)
+                    } : {})
+                }
+            });
 
-        // Check for incomplete LaTeX environments
-        if (validation.checkLaTeXBalance) {
-            const beginCount = (content.match(/\\begin\{/g) || []).length;
-            const endCount = (content.match(/\\end\{/g) || []).length;
-            if (beginCount !== endCount) {
-                return false;
+            while (attempts < this.config.maxAttempts) {
+                const result = await throttler.add(() => 
+                    withRetry(() => 
+                        // The chat keeps the prompt and the output so far, so only ask it to go on
+                        chat.sendMessage(content ? formatContinuationPrompt(this.diagnoseResponse(content).issues) : prompt)
+                    )
+                );
+
+                content = stitchContinuation(content, result.response.text());
+
+                const finishReason = result.response.candidates?.[0]?.finishReason;
+                const issues = this.diagnoseResponse(content).issues.map(issue => issue.message);
+                tracker.recordAttempt(
+                    finishReason,
+                    usageFromGemini(result.response.usageMetadata),
+                    finishReason === FinishReason.MAX_TOKENS ? ['Output truncated at the token limit', ...issues] : issues
+                );
+                truncated = finishReason === FinishReason.MAX_TOKENS;
+
+                // A continuation would be a second JSON document rather than the rest of this one
+                if (responseFormat) {
+                    if (truncated) {
+                        throw new Error('Structured response reached the token limit; increase maxTokens');
+                    }
+                    return tracker.finish(content, this.config.model);
+                }
+
+                // Output cut at the token limit is continued even when it happens to look complete
+                if (!truncated && issues.length === 0) {
+                    break;
+                }
+
+                attempts++;
             }
-        }
 
-        // Check for incomplete code blocks
-        if (validation.checkCodeBlocks) {
-            const codeBlockStarts = (content.match(/```/g) || []).length;
-            if (codeBlockStarts % 2 !== 0) {
-                return false;
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
+                throw new Error('Failed to generate complete response after maximum attempts');
             }
-        }
 
-        return true;
+            return tracker.finish(content, this.config.model);
+        } catch (error) {
+            throw handleError(withPartialGeneration(
+                error,
+                responseFormat ? undefined : toChatMessages(prompt, systemPrompt, history),
+                tracker.finish(content, this.config.model)
+            ));
+        }
     }
 
-    private async generateWithModel(
+    /**
+     * Streaming counterpart of generateWithModel: yields text deltas from sendMessageStream and
+     * keeps requesting continuations until the accumulated response passes the completeness checks.
+     */
+    private async *streamWithModel(
         prompt: string,
         systemPrompt?: string,
         temperature?: number
-    ): Promise<string> {
+    ): AsyncGenerator<string> {
         try {
             let content = '';
             let attempts = 0;
+            let truncated = false;
 
             const chat = this.model.startChat({
                 history: systemPrompt ? [{
                     role: "user",
                     parts: [{ text: systemPrompt }]
-                }] : []
+                }] : [],
+                generationConfig: {
+                    temperature: temperature ?? this.config.temperature,
+                    maxOutputTokens: this.config.maxTokens
+                }
             });
 
             while (attempts < this.config.maxAttempts) {
-                const result = await throttler.add(() => 
-                    withRetry(() => 
-                        chat.sendMessage(content ? `Continue from: ${content}\n${prompt}` : prompt, {
-                            temperature: temperature ?? this.config.temperature
-                        })
+                const result = await throttler.add(() =>
+                    withRetry(() =>
+                        chat.sendMessageStream(content ? formatContinuationPrompt(this.diagnoseResponse(content).issues) : prompt)
                     )
-                ) as GenerateContentResult;
+                );
+
+                const stitcher = new ContinuationStitcher(content);
+                let finishReason: FinishReason | undefined;
+                for await (const chunk of result.stream) {
+                    const text = stitcher.push(chunk.text());
+                    if (text) {
+                        content += text;
+                        yield text;
+                    }
+                    finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+                }
 
-                const newContent = result.response.text();
-                content = content ? content + '\n' + newContent : newContent;
+                const rest = stitcher.flush();
+                if (rest) {
+                    content += rest;
+                    yield rest;
+                }
 
-                if (this.isResponseComplete(content)) {
+                truncated = finishReason === FinishReason.MAX_TOKENS;
+                if (!truncated && this.isResponseComplete(content)) {
                     break;
                 }
 
                 attempts++;
             }
 
-            if (!this.isResponseComplete(content)) {
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
                 throw new Error('Failed to generate complete response after maximum attempts');
             }
-
-            return content;
         } catch (error) {
             throw handleError(error);
         }
@@ -117,39 +219,100 @@ export class GeminiService extends AIService {
             const systemPrompt = "You are a professional lecturer and educator. Generate clear, well-structured lecture notes.";
             const prompt = `Generate lecture notes about: ${topic}${context ? `\nContext: ${context}` : ''}`;
 
-            const content = await this.generateWithModel(prompt, systemPrompt);
+            const result = await this.generateWithModel(prompt, systemPrompt);
 
-            return {
-                topic,
-                content,
-                timestamp: new Date(),
-                metadata: {
-                    model: this.config.model,
-                    promptTokens: 0,
-                    completionTokens: 0
-                }
-            };
+            return toLectureNotes(topic, result);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromTranscript(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateFromTranscriptDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? SYSTEM_PROMPT_WITH_TRANSCRIPTIONS 
-                : SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN;
+            const systemPrompt = selectPrompt(format, {
+                latex: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
+                markdown: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+                typst: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST
+            });
 
-            return this.generateWithModel(transcript, systemPrompt);
+            return this.formatResult(await this.generateWithModel(transcript, systemPrompt), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromAudio(audioTranscript: string): Promise<string> {
+    async chatDetailed(messages: ChatMessage[], options: ChatOptions = {}): Promise<GenerationResult> {
+        try {
+            validate.validateChatMessages(messages);
+
+            const systemPrompt = messages
+                .filter(message => message.role === 'system')
+                .map(message => message.content)
+                .join('\n\n');
+            const turns = messages.filter(message => message.role !== 'system');
+            const history: Content[] = turns.slice(0, -1).map(message => ({
+                role: message.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: message.content }]
+            }));
+
+            // Files uploaded through the Gemini File API are referenced by their URI
+            const question = turns[turns.length - 1].content;
+            const prompt: string | Part[] = options.files?.length
+                ? [
+                    { text: question },
+                    ...options.files.map(file => ({ fileData: { mimeType: file.mimeType, fileUri: file.fileId } }))
+                ]
+                : question;
+
+            return this.generateWithModel(
+                prompt,
+                systemPrompt || undefined,
+                options.temperature,
+                history,
+                options.responseFormat
+            );
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async transcribeHandwrittenNotesDetailed(images: ImageSource[]): Promise<GenerationResult> {
+        try {
+            validate.validateImages(images);
+
+            const loaded = await Promise.all(images.map(image => loadImage(image)));
+            const parts: Part[] = [
+                { text: `Transcribe the ${loaded.length} attached page(s) of notes in order.` },
+                ...loaded.map(image => ({ inlineData: image }))
+            ];
+
+            return this.generateWithModel(parts, HANDWRITTEN_NOTES_TO_TRANSCRIPT);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async *streamFromTranscript(transcript: string, format: LectureFormat = 'latex'): AsyncIterable<string> {
+        try {
+            validate.validateTranscript(transcript);
+            validate.validateStreamFormat(format);
+
+            const systemPrompt = selectPrompt(format, {
+                latex: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
+                markdown: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+                typst: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST
+            });
+
+            yield* this.streamWithModel(transcript, systemPrompt);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async generateFromAudioDetailed(audioTranscript: string): Promise<GenerationResult> {
         try {
             validate.validateAudioTranscript(audioTranscript);
             return this.generateWithModel(audioTranscript, SYSTEM_PROMPT_WITH_AUDIO);
@@ -158,12 +321,16 @@ export class GeminiService extends AIService {
         }
     }
 
-    async refineSection(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async refineSectionDetailed(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateSection(section, transcript);
             validate.validateFormat(format);
 
-            const prompt = format === 'latex' ? SECTION_REFINEMENT_PROMPT : SECTION_REFINEMENT_PROMPT_MARKDOWN;
+            const prompt = selectPrompt(format, {
+                latex: SECTION_REFINEMENT_PROMPT,
+                markdown: SECTION_REFINEMENT_PROMPT_MARKDOWN,
+                typst: SECTION_REFINEMENT_PROMPT_TYPST
+            });
             const formattedPrompt = formatPrompt(prompt, {
                 original_transcript: transcript,
                 original_document: section
@@ -175,14 +342,16 @@ export class GeminiService extends AIService {
         }
     }
 
-    async generateScaffold(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateScaffoldDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? DEFINE_SCAFFOLD_WITH_TRANSCRIPT 
-                : DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN;
+            const systemPrompt = selectPrompt(format, {
+                latex: DEFINE_SCAFFOLD_WITH_TRANSCRIPT,
+                markdown: DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN,
+                typst: DEFINE_SCAFFOLD_WITH_TRANSCRIPT_TYPST
+            });
 
             return this.generateWithModel(transcript, systemPrompt);
         } catch (error) {
@@ -190,39 +359,89 @@ export class GeminiService extends AIService {
         }
     }
 
-    async augmentFromPDF(pdfContent: string, format: LectureFormat = 'latex'): Promise<string> {
+    async augmentFromPDFDetailed(pdfContent: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validatePDFContent(pdfContent);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? AUGMENT_PDF_LESSON_LATEX_SYNTAX 
-                : AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX;
+            const systemPrompt = selectPrompt(format, {
+                latex: AUGMENT_PDF_LESSON_LATEX_SYNTAX,
+                markdown: AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX,
+                typst: AUGMENT_PDF_LESSON_TYPST_SYNTAX
+            });
 
-            return this.generateWithModel(pdfContent, systemPrompt);
+            return this.formatResult(await this.generateWithModel(pdfContent, systemPrompt), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async processAudioFile(options: AudioTranscriptionOptions): Promise<string> {
+    async refineDocumentDetailed(document: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
-            validate.validateAudioPath(options.audioPath);
-            
-            // Note: Direct audio file processing with Gemini is not yet supported
-            // For now, we need to use a separate speech-to-text service
-            throw new Error('Audio file processing not yet supported with Gemini');
+            validate.validateContent(document);
+            validate.validateFormat(format);
+
+            const prompt = selectPrompt(format, {
+                latex: FINAL_REFINEMENT_PROMPT,
+                markdown: FINAL_REFINEMENT_PROMPT_MARKDOWN,
+                typst: FINAL_REFINEMENT_PROMPT_TYPST
+            });
+            const message = selectPrompt(format, {
+                latex: FINAL_DOCUMENT_MESSAGE,
+                markdown: FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+                typst: FINAL_DOCUMENT_MESSAGE_TYPST
+            });
+
+            return this.formatResult(await this.generateWithModel(message, formatFinalRefinementPrompt(prompt, document)), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async processYouTubeURL(url: string, format: LectureFormat = 'latex'): Promise<LectureNotes> {
-        throw new Error('YouTube processing not yet supported with Gemini');
+    /**
+     * Transcribes a recording by sending the audio inline. Files above the inline size limit
+     * are split into chunks. The configured model is used; `options.model` is ignored.
+     */
+    async processAudioFile(options: AudioTranscriptionOptions): Promise<AudioTranscript> {
+        try {
+            validate.validateAudioPath(options.audioPath);
+            validate.validateLanguage(options.language);
+
+            return await transcribeAudioInline(options, async (audio, previousText) => {
+                const result = await this.generateWithModel(
+                    [{ inlineData: audio }],
+                    formatAudioTranscriptionPrompt({ ...options, previousText }),
+                    0
+                );
+                return result.content;
+            });
+        } catch (error) {
+            throw handleError(error);
+        }
     }
 }
 
-interface AudioTranscriptionOptions {
-    audioPath: string;
-    chunkDuration?: number;
-}
\ No newline at end of file
+/**
+ * Converts a request back to chat messages, or undefined when it holds anything but text.
+ */
+function toChatMessages(prompt: string | Part[], systemPrompt: string | undefined, history: Content[]): ChatMessage[] | undefined {
+    const turns: ChatMessage[] = [];
+    for (const turn of history) {
+        if (!turn.parts.every(part => typeof part.text === 'string')) {
+            return undefined;
+        }
+        turns.push({
+            role: turn.role === 'model' ? 'assistant' : 'user',
+            content: turn.parts.map(part => part.text).join('')
+        });
+    }
+    if (typeof prompt !== 'string') {
+        return undefined;
+    }
+
+    return [
+        ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+        ...turns,
+        { role: 'user', content: prompt }
+    ];
+}
@@ -1,33 +1,60 @@
 import { OpenAI } from 'openai';
 import type { ChatCompletion } from 'openai/resources/chat/completions';
 import { ChatCompletionMessageParam } from 'openai/resources/chat';
-import { LectureNotes, LectureFormat, ServiceConfig } from '../types/lecture.types';
+import {
+    LectureNotes,
+    LectureFormat,
+    ServiceConfig,
+    GenerationResult,
+    ImageSource,
+    FileData,
+    AudioTranscriptionOptions
+} from '../types/lecture.types';
+import { AudioTranscript, TranscriptSegment } from '../types/transcript.types';
+import { ChatMessage, ChatOptions, JsonResponseFormat } from '../types/chat.types';
 import {
     SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
     SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+    SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST,
     SYSTEM_PROMPT_WITH_AUDIO,
     SECTION_REFINEMENT_PROMPT,
     SECTION_REFINEMENT_PROMPT_MARKDOWN,
+    SECTION_REFINEMENT_PROMPT_TYPST,
     DEFINE_SCAFFOLD_WITH_TRANSCRIPT,
     DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN,
+    DEFINE_SCAFFOLD_WITH_TRANSCRIPT_TYPST,
     AUGMENT_PDF_LESSON_LATEX_SYNTAX,
     AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX,
-    formatPrompt
+    AUGMENT_PDF_LESSON_TYPST_SYNTAX,
+    FINAL_REFINEMENT_PROMPT,
+    FINAL_REFINEMENT_PROMPT_MARKDOWN,
+    FINAL_REFINEMENT_PROMPT_TYPST,
+    FINAL_DOCUMENT_MESSAGE,
+    FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+    FINAL_DOCUMENT_MESSAGE_TYPST,
+    HANDWRITTEN_NOTES_TO_TRANSCRIPT,
+    formatPrompt,
+    formatFinalRefinementPrompt,
+    formatContinuationPrompt,
+    selectPrompt
 } from '../prompts';
 import { createReadStream } from 'fs';
 import path from 'path';
-import { exec } from 'child_process';
 import { promises as fs } from 'fs';
-import { handleError, OpenAIError, FileProcessingError } from '../utils/error.utils';
+import { handleError, OpenAIError, FileProcessingError, ValidationError } from '../utils/error.utils';
 import * as validate from '../utils/validation.utils';
 import { withRetry, throttler } from '../utils/retry.utils';
+import { ContinuationStitcher, stitchContinuation } from '../utils/text.utils';
+import { GenerationTracker, toChatMessages, toLectureNotes, usageFromCompletion, withPartialGeneration } from '../utils/generation.utils';
+import { loadImage, toDataURL } from '../utils/image.utils';
+import { splitAudioIntoChunks } from '../utils/audio.utils';
 import { AIService } from './ai.service';
 
 export class OpenAIService extends AIService {
     private client: OpenAI;
 
     constructor(config: string | ServiceConfig) {
-        super(config);
+        super(config, "gpt-4");
         try {
             validate.validateConfig(config);
             
@@ -44,52 +71,20 @@ export class OpenAIService extends AIService {
         }
     }
 
-    protected isResponseComplete(content: string): boolean {
-        const validation = this.config.responseValidation;
-        
-        // Check for truncation indicators
-        if (validation.customIndicators?.some(indicator => 
-            content.trim().endsWith(indicator))) {
-            return false;
-        }
-
-        // Check for incomplete LaTeX environments
-        if (validation.checkLaTeXBalance) {
-            const beginCount = (content.match(/\\begin\{/g) || []).length;
-            const endCount = (content.match(/\\end\{/g) || []).length;
-            if (beginCount !== endCount) {
-                return false;
-            }
-        }
-
-        // Check for incomplete code blocks
-        if (validation.checkCodeBlocks) {
-            const codeBlockStarts = (content.match(/```/g) || []).length;
-            if (codeBlockStarts % 2 !== 0) {
-                return false;
-            }
-        }
-
-        // Check for incomplete JSON
-        if (validation.checkJsonBalance) {
-            const openBraces = (content.match(/[\[{]/g) || []).length;
-            const closeBraces = (content.match(/[\]}]/g) || []).length;
-            if (openBraces !== closeBraces) {
-                return false;
-            }
-        }
-
-        return true;
-    }
-
     private async generateWithCompletion(
         messages: ChatCompletionMessageParam[], 
         errorMessage: string, 
-        temperature?: number
-    ): Promise<string> {
+        temperature?: number,
+        responseFormat?: JsonResponseFormat
+    ): Promise<GenerationResult> {
+        const request = messages;
+        const tracker = new GenerationTracker();
+        let content = '';
+        let model = this.config.model;
+
         try {
-            let content = '';
             let attempts = 0;
+            let truncated = false;
 
             while (attempts < this.config.maxAttempts) {
                 const completion = await throttler.add(() => 
@@ -98,7 +93,13 @@ export class OpenAIService extends AIService {
                             model: this.config.model,
                             messages,
                             max_tokens: this.config.maxTokens,
-                            temperature: temperature ?? this.config.temperature
+                            temperature: temperature ?? this.config.temperature,
+                            ...(responseFormat ? {
+                                response_format: {
+                                    type: 'json_schema' as const,
+                                    json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: true }
+                                }
+                            } : {})
                         })
                     )
                 );
@@ -109,50 +110,147 @@ export class OpenAIService extends AIService {
                     throw new OpenAIError(errorMessage);
                 }
 
-                content = content ? content + '\n' + newContent : newContent;
+                content = stitchContinuation(content, newContent);
+                model = completion.model ?? model;
+
+                const issues = this.diagnoseResponse(content).issues.map(issue => issue.message);
+                tracker.recordAttempt(
+                    choice.finish_reason,
+                    usageFromCompletion(completion.usage),
+                    choice.finish_reason === 'length' ? ['Output truncated at the token limit', ...issues] : issues
+                );
+                truncated = choice.finish_reason === 'length';
+
+                // A continuation would be a second JSON document rather than the rest of this one
+                if (responseFormat) {
+                    if (truncated) {
+                        throw new OpenAIError('Structured response reached the token limit; increase maxTokens');
+                    }
+                    return tracker.finish(content, model);
+                }
 
                 // Check finish_reason first (works with both OpenAI and Google APIs)
-                if (choice.finish_reason === 'stop' && this.isResponseComplete(content)) {
+                if (choice.finish_reason === 'stop' && issues.length === 0) {
                     break;
                 } else if (choice.finish_reason === 'length') {
                     // Response was truncated due to token limit, continue generating
-                    messages = [
-                        messages[0],
-                        {
-                            role: "user",
-                            content: `Continue from: ${content}`
-                        }
-                    ];
+                    messages = this.continuationMessages(request, content);
                     attempts++;
                     continue;
                 }
 
                 // If finish_reason is not available or is unexpected, fall back to our custom validation
-                if (this.isResponseComplete(content)) {
+                if (issues.length === 0) {
                     break;
                 }
 
-                messages = [
-                    messages[0],
-                    {
-                        role: "user",
-                        content: `Continue from: ${content}`
-                    }
-                ];
+                messages = this.continuationMessages(request, content);
 
                 attempts++;
             }
 
-            if (!this.isResponseComplete(content)) {
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
                 throw new OpenAIError('Failed to generate complete response after maximum attempts');
             }
 
-            return content;
+            return tracker.finish(content, model);
+        } catch (error) {
+            throw handleError(withPartialGeneration(error, responseFormat ? undefined : toChatMessages(request), tracker.finish(content, model)));
+        }
+    }
+
+    /**
+     * Streaming counterpart of generateWithCompletion: yields text deltas as they arrive and
+     * transparently requests continuations, emitting the same newline separator between parts.
+     */
+    private async *streamWithCompletion(
+        messages: ChatCompletionMessageParam[],
+        errorMessage: string,
+        temperature?: number
+    ): AsyncGenerator<string> {
+        const request = messages;
+
+        try {
+            let content = '';
+            let attempts = 0;
+            let truncated = false;
+
+            while (attempts < this.config.maxAttempts) {
+                const stream = await throttler.add(() =>
+                    withRetry(() =>
+                        this.client.chat.completions.create({
+                            model: this.config.model,
+                            messages,
+                            max_tokens: this.config.maxTokens,
+                            temperature: temperature ?? this.config.temperature,
+                            stream: true
+                        })
+                    )
+                );
+
+                const stitcher = new ContinuationStitcher(content);
+                let received = false;
+                let finishReason: string | null = null;
+
+                for await (const chunk of stream) {
+                    const choice = chunk.choices[0];
+                    const delta = choice?.delta?.content;
+                    if (delta) {
+                        received = true;
+                        const text = stitcher.push(delta);
+                        if (text) {
+                            content += text;
+                            yield text;
+                        }
+                    }
+                    finishReason = choice?.finish_reason ?? finishReason;
+                }
+
+                if (!received) {
+                    throw new OpenAIError(errorMessage);
+                }
+
+                const rest = stitcher.flush();
+                if (rest) {
+                    content += rest;
+                    yield rest;
+                }
+
+                truncated = finishReason === 'length';
+                if (!truncated && this.isResponseComplete(content)) {
+                    break;
+                }
+
+                messages = this.continuationMessages(request, content);
+                attempts++;
+            }
+
+            // Output still cut at the token limit is unfinished, however complete it looks
+            if (truncated || !this.isResponseComplete(content)) {
+                throw new OpenAIError('Failed to generate complete response after maximum attempts');
+            }
         } catch (error) {
             throw handleError(error);
         }
     }
 
+    /**
+     * Keeps the original request and appends the output so far as an assistant turn, so the
+     * model can see its own answer and carry on from where it stopped. The follow-up names
+     * anything the validators found still open.
+     */
+    private continuationMessages(
+        request: ChatCompletionMessageParam[],
+        content: string
+    ): ChatCompletionMessageParam[] {
+        return [
+            ...request,
+            { role: "assistant", content },
+            { role: "user", content: formatContinuationPrompt(this.diagnoseResponse(content).issues) }
+        ];
+    }
+
     async generateLectureNotes(topic: string, context?: string): Promise<LectureNotes> {
         try {
             validate.validateTopic(topic);
@@ -168,31 +266,120 @@ export class OpenAIService extends AIService {
                 }
             ];
 
-            const content = await this.generateWithCompletion(messages, 'Failed to generate lecture notes');
+            const result = await this.generateWithCompletion(messages, 'Failed to generate lecture notes');
 
-            return {
-                topic,
-                content,
-                timestamp: new Date(),
-                metadata: {
-                    model: this.config.model,
-                    promptTokens: 0,
-                    completionTokens: 0
-                }
-            };
+            return toLectureNotes(topic, result);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromTranscript(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateFromTranscriptDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? SYSTEM_PROMPT_WITH_TRANSCRIPTIONS 
-                : SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN;
+            const systemPrompt = selectPrompt(format, {
+                latex: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
+                markdown: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+                typst: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST
+            });
+
+            const messages: ChatCompletionMessageParam[] = [
+                {
+                    role: "system",
+                    content: systemPrompt
+                },
+                {
+                    role: "user",
+                    content: transcript
+                }
+            ];
+
+            return this.formatResult(await this.generateWithCompletion(messages, 'Failed to generate lecture notes from transcript'), format);
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async chatDetailed(messages: ChatMessage[], options: ChatOptions = {}): Promise<GenerationResult> {
+        try {
+            validate.validateChatMessages(messages);
+
+            const completionMessages: ChatCompletionMessageParam[] = messages.map(message => ({
+                role: message.role,
+                content: message.content
+            }));
+
+            if (options.files?.length) {
+                completionMessages[completionMessages.length - 1] = {
+                    role: "user",
+                    content: [
+                        { type: "text", text: messages[messages.length - 1].content },
+                        ...options.files.map(file => ({
+                            type: "file" as const,
+                            file: { file_id: file.fileId }
+                        }))
+                    ]
+                };
+            }
+
+            return this.generateWithCompletion(
+                completionMessages,
+                'Failed to generate chat response',
+                options.temperature,
+                options.responseFormat
+            );
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async transcribeHandwrittenNotesDetailed(images: ImageSource[]): Promise<GenerationResult> {
+        try {
+            validate.validateImages(images);
+
+            const loaded = await Promise.all(images.map(image => loadImage(image)));
+            if (loaded.some(image => image.mimeType === 'image/heic' || image.mimeType === 'image/heif')) {
+                throw new ValidationError('OpenAI does not accept HEIC images; convert them to JPEG or PNG first');
+            }
+
+            const messages: ChatCompletionMessageParam[] = [
+                {
+                    role: "system",
+                    content: HANDWRITTEN_NOTES_TO_TRANSCRIPT
+                },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "text",
+                            text: `Transcribe the ${loaded.length} attached page(s) of notes in order.`
+                        },
+                        ...loaded.map(image => ({
+                            type: "image_url" as const,
+                            image_url: { url: toDataURL(image), detail: "high" as const }
+                        }))
+                    ]
+                }
+            ];
+
+            return this.generateWithCompletion(messages, 'Failed to transcribe handwritten notes');
+        } catch (error) {
+            throw handleError(error);
+        }
+    }
+
+    async *streamFromTranscript(transcript: string, format: LectureFormat = 'latex'): AsyncIterable<string> {
+        try {
+            validate.validateTranscript(transcript);
+            validate.validateStreamFormat(format);
+
+            const systemPrompt = selectPrompt(format, {
+                latex: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS,
+                markdown: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_MARKDOWN,
+                typst: SYSTEM_PROMPT_WITH_TRANSCRIPTIONS_TYPST
+            });
 
             const messages: ChatCompletionMessageParam[] = [
                 {
@@ -205,13 +392,13 @@ export class OpenAIService extends AIService {
                 }
             ];
 
-            return this.generateWithCompletion(messages, 'Failed to generate lecture notes from transcript');
+            yield* this.streamWithCompletion(messages, 'Failed to generate lecture notes from transcript');
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async generateFromAudio(audioTranscript: string): Promise<string> {
+    async generateFromAudioDetailed(audioTranscript: string): Promise<GenerationResult> {
         try {
             validate.validateAudioTranscript(audioTranscript);
 
@@ -257,12 +444,16 @@ export class OpenAIService extends AIService {
         }
     }
 
-    async refineSection(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async refineSectionDetailed(section: string, transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateSection(section, transcript);
             validate.validateFormat(format);
 
-            const prompt = format === 'latex' ? SECTION_REFINEMENT_PROMPT : SECTION_REFINEMENT_PROMPT_MARKDOWN;
+            const prompt = selectPrompt(format, {
+                latex: SECTION_REFINEMENT_PROMPT,
+                markdown: SECTION_REFINEMENT_PROMPT_MARKDOWN,
+                typst: SECTION_REFINEMENT_PROMPT_TYPST
+            });
             const formattedPrompt = formatPrompt(prompt, {
                 original_transcript: transcript,
                 original_document: section
@@ -281,14 +472,16 @@ export class OpenAIService extends AIService {
         }
     }
 
-    async generateScaffold(transcript: string, format: LectureFormat = 'latex'): Promise<string> {
+    async generateScaffoldDetailed(transcript: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validateTranscript(transcript);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? DEFINE_SCAFFOLD_WITH_TRANSCRIPT 
-                : DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN;
+            const systemPrompt = selectPrompt(format, {
+                latex: DEFINE_SCAFFOLD_WITH_TRANSCRIPT,
+                markdown: DEFINE_SCAFFOLD_WITH_TRANSCRIPT_MARKDOWN,
+                typst: DEFINE_SCAFFOLD_WITH_TRANSCRIPT_TYPST
+            });
 
             const messages: ChatCompletionMessageParam[] = [
                 {
@@ -307,14 +500,16 @@ export class OpenAIService extends AIService {
         }
     }
 
-    async augmentFromPDF(pdfContent: string, format: LectureFormat = 'latex'): Promise<string> {
+    async augmentFromPDFDetailed(pdfContent: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
             validate.validatePDFContent(pdfContent);
             validate.validateFormat(format);
 
-            const systemPrompt = format === 'latex' 
-                ? AUGMENT_PDF_LESSON_LATEX_SYNTAX 
-                : AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX;
+            const systemPrompt = selectPrompt(format, {
+                latex: AUGMENT_PDF_LESSON_LATEX_SYNTAX,
+                markdown: AUGMENT_PDF_LESSON_MARKDOWN_SYNTAX,
+                typst: AUGMENT_PDF_LESSON_TYPST_SYNTAX
+            });
 
             const messages: ChatCompletionMessageParam[] = [
                 {
@@ -327,165 +522,109 @@ export class OpenAIService extends AIService {
                 }
             ];
 
-            return this.generateWithCompletion(messages, 'Failed to augment PDF content');
+            return this.formatResult(await this.generateWithCompletion(messages, 'Failed to augment PDF content'), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    async processYouTubeURL(url: string, format: LectureFormat = 'latex'): Promise<LectureNotes> {
+    async refineDocumentDetailed(document: string, format: LectureFormat = 'latex'): Promise<GenerationResult> {
         try {
-            validate.validateYouTubeURL(url);
-
-            const videoId = this.extractYoutubeVideoId(url);
-            if (!videoId) {
-                throw new Error('Could not extract video ID from URL');
-            }
-
-            const tempDir = await fs.mkdtemp('youtube-');
-            const videoPath = path.join(tempDir, `${videoId}.mp4`);
-            const audioPath = path.join(tempDir, `${videoId}.wav`);
+            validate.validateContent(document);
+            validate.validateFormat(format);
 
-            try {
-                await this.downloadYoutubeVideo(url, videoPath);
-                
-                await new Promise((resolve, reject) => {
-                    exec(
-                        `ffmpeg -i "${videoPath}" -vn -acodec pcm_s16le -ar 44100 -ac 2 "${audioPath}"`,
-                        (error) => {
-                            if (error) reject(error);
-                            else resolve(null);
-                        }
-                    );
-                });
+            const prompt = selectPrompt(format, {
+                latex: FINAL_REFINEMENT_PROMPT,
+                markdown: FINAL_REFINEMENT_PROMPT_MARKDOWN,
+                typst: FINAL_REFINEMENT_PROMPT_TYPST
+            });
+            const message = selectPrompt(format, {
+                latex: FINAL_DOCUMENT_MESSAGE,
+                markdown: FINAL_DOCUMENT_MESSAGE_MARKDOWN,
+                typst: FINAL_DOCUMENT_MESSAGE_TYPST
+            });
 
-                const transcription = await this.processAudioFile({ audioPath });
-                const content = await this.generateFromTranscript(transcription, format);
+            const messages: ChatCompletionMessageParam[] = [
+                {
+                    role: "system",
+                    content: formatFinalRefinementPrompt(prompt, document)
+                },
+                {
+                    role: "user",
+                    content: message
+                }
+            ];
 
-                return {
-                    topic: `YouTube lecture: ${videoId}`,
-                    content,
-                    timestamp: new Date(),
-                    metadata: {
-                        model: this.config.model,
-                        promptTokens: 0,
-                        completionTokens: 0
-                    }
-                };
-            } finally {
-                await fs.rm(tempDir, { recursive: true, force: true });
-            }
+            return this.formatResult(await this.generateWithCompletion(messages, 'Failed to refine document'), format);
         } catch (error) {
             throw handleError(error);
         }
     }
 
-    private extractYoutubeVideoId(url: string): string | null {
-        const regex = /(?:youtube\.com\/(?:[^\/]+\/.+\/|(?:v|e(?:mbed)?)\/|.*[?&]v=)|youtu\.be\/)([^"&?\/\s]{11})/;
-        const match = url.match(regex);
-        return match ? match[1] : null;
-    }
-
-    private async downloadYoutubeVideo(url: string, outputPath: string): Promise<void> {
-        throw new Error('YouTube download implementation required');
-    }
-
-    async processAudioFile(options: AudioTranscriptionOptions): Promise<string> {
+    /**
+     * Transcribes an audio file with the speech-to-text endpoint. Long recordings are split
+     * into compressed chunks; segment timestamps are shifted so they are relative to the
+     * start of the whole recording, and the end of each chunk is passed as the prompt for
+     * the next one so sentences and vocabulary carry over.
+     */
+    async processAudioFile(options: AudioTranscriptionOptions): Promise<AudioTranscript> {
         try {
             validate.validateAudioPath(options.audioPath);
+            validate.validateLanguage(options.language);
 
-            const chunkDir = await this.splitAudioIntoChunks(options.audioPath, options.chunkDuration);
-            const chunkFiles = await fs.readdir(chunkDir);
-            const transcriptions: string[] = [];
-
-            for (const chunkFile of chunkFiles) {
-                const chunkPath = path.join(chunkDir, chunkFile);
-                const fileData = await this.uploadFile(chunkPath, 'audio/wav');
-                
-                const content = this.formatMessageContent({
-                    text: "Please transcribe this audio file:",
-                    files: [fileData]
-                });
+            const { directory, chunks } = await splitAudioIntoChunks(options.audioPath, options.chunkDuration);
 
-                const messages: ChatCompletionMessageParam[] = [
-                    {
-                        role: "system",
-                        content: "You are an expert lecture transcriber. Transform this audio into clear, complete sentences."
-                    },
-                    {
-                        role: "user",
-                        content
-                    }
-                ];
+            try {
+                const segments: TranscriptSegment[] = [];
+                let language: string | undefined;
+                let offset = 0;
+
+                for (const chunk of chunks) {
+                    const previousText = segments.map(segment => segment.text).join(' ');
+                    const prompt = [options.prompt, previousText.slice(-PROMPT_CONTEXT_CHARS)]
+                        .filter(Boolean)
+                        .join('\n');
+
+                    const transcription = await throttler.add(() =>
+                        withRetry(() =>
+                            this.client.audio.transcriptions.create({
+                                file: createReadStream(chunk),
+                                model: options.model ?? 'whisper-1',
+                                language: options.language,
+                                prompt: prompt || undefined,
+                                response_format: 'verbose_json',
+                                timestamp_granularities: ['segment'],
+                                temperature: 0
+                            })
+                        )
+                    );
 
-                const transcription = await this.generateWithCompletion(
-                    messages,
-                    'Failed to transcribe audio chunk',
-                    0
-                );
-                transcriptions.push(transcription);
+                    language = language ?? transcription.language;
+                    segments.push(...(transcription.segments ?? [{ start: 0, end: transcription.duration, text: transcription.text }])
+                        .map(segment => ({
+                            start: offset + segment.start,
+                            end: offset + segment.end,
+                            text: segment.text.trim()
+                        }))
+                        .filter(segment => segment.text.length > 0));
+                    offset += transcription.duration;
+                }
 
-                await fs.unlink(chunkPath);
+                return {
+                    text: segments.map(segment => segment.text).join(' '),
+                    language,
+                    durationSeconds: offset,
+                    segments
+                };
+            } finally {
+                await fs.rm(directory, { recursive: true, force: true });
             }
-
-            await fs.rmdir(chunkDir);
-            return transcriptions.join(' ');
         } catch (error) {
             throw handleError(error);
         }
     }
-
-    private async splitAudioIntoChunks(audioPath: string, chunkDuration: number = 3600): Promise<string> {
-        const outputDir = path.join(path.dirname(audioPath), 'chunks');
-        await fs.mkdir(outputDir, { recursive: true });
-
-        return new Promise((resolve, reject) => {
-            exec(
-                `ffmpeg -i "${audioPath}" -f segment -segment_time ${chunkDuration} -c copy "${outputDir}/chunk_%03d.wav"`,
-                (error, stdout, stderr) => {
-                    if (error) {
-                        reject(`Error splitting audio: ${stderr}`);
-                    } else {
-                        resolve(outputDir);
-                    }
-                }
-            );
-        });
-    }
-
-    private formatMessageContent(content: string | MessageContent): string {
-        if (typeof content === 'string') {
-            return content;
-        }
-
-        let messageContent = '';
-        if (content.text) {
-            messageContent += content.text;
-        }
-        
-        if (content.files) {
-            const fileDescriptions = content.files.map(file => 
-                `[File: ${file.name} (${file.mimeType})]`
-            ).join('\n');
-            messageContent += '\n' + fileDescriptions;
-        }
-        
-        return messageContent;
-    }
 }
 
-interface FileData {
-    fileId: string;
-    mimeType: string;
-    name: string;
-}
-
-interface AudioTranscriptionOptions {
-    audioPath: string;
-    chunkDuration?: number;
-}
+// Characters of the previous chunk's transcript passed on as context (the prompt is capped at 224 tokens)
+const PROMPT_CONTEXT_CHARS = 500;
 
-interface MessageContent {
-    text?: string;
-    files?: FileData[];
-}
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import { ServiceConfig } from '../types/lecture.types';
+import {
+    LectureServiceOptions,
+    ProviderConfigFile,
+    ProviderDefinition,
+    ProviderName,
+    ProviderProfile
+} from '../types/provider.types';
+import { FileProcessingError, handleError, ValidationError } from '../utils/error.utils';
+import { AIService } from './ai.service';
+import { OpenAIService } from './openai.service';
+import { GeminiService } from './gemini.service';
+import { GeminiOpenAIService } from './gemini-openai.service';
+
+const DEFAULT_PROVIDER = 'openai';
+
+// Environment variables read by createLectureService
+const ENV = {
+    provider: 'LECTURE_NOTES_PROVIDER',
+    model: 'LECTURE_NOTES_MODEL',
+    apiKey: 'LECTURE_NOTES_API_KEY',
+    baseUrl: 'LECTURE_NOTES_BASE_URL',
+    profile: 'LECTURE_NOTES_PROFILE',
+    configFile: 'LECTURE_NOTES_CONFIG'
+};
+
+const providers = new Map<string, ProviderDefinition>();
+
+/**
+ * Makes a provider available to createLectureService under `name`. Registering an existing
+ * name replaces it, which also allows overriding the built-in providers.
+ */
+export function registerProvider(name: ProviderName, definition: ProviderDefinition): void {
+    const key = normalizeName(name);
+    if (!key) {
+        throw new ValidationError('provider name is required');
+    }
+    providers.set(key, definition);
+}
+
+export function unregisterProvider(name: ProviderName): boolean {
+    return providers.delete(normalizeName(name));
+}
+
+export function getProvider(name: ProviderName): ProviderDefinition | undefined {
+    return providers.get(normalizeName(name));
+}
+
+export function listProviders(): string[] {
+    return [...providers.keys()];
+}
+
+/**
+ * Works out which provider to use and the config to create it with. Explicit options take
+ * precedence over the selected profile, which takes precedence over the environment:
+ * `LECTURE_NOTES_PROVIDER`, `LECTURE_NOTES_MODEL`, `LECTURE_NOTES_API_KEY` and
+ * `LECTURE_NOTES_BASE_URL`. Without any API key the provider's own variables, such as
+ * `OPENAI_API_KEY`, are checked last.
+ */
+export function resolveServiceConfig(options: LectureServiceOptions = {}): { provider: string; config: ServiceConfig } {
+    const env = options.env ?? process.env;
+    const selected = selectProfile(options, env);
+    const profile = selected?.profile;
+    const {
+        provider: _provider,
+        profile: _profile,
+        configFile: _configFile,
+        profiles: _profiles,
+        env: _env,
+        ...overrides
+    } = options;
+
+    const provider = normalizeName(options.provider ?? profile?.provider ?? (env[ENV.provider] || DEFAULT_PROVIDER));
+    const definition = providers.get(provider);
+    if (!definition) {
+        throw new ValidationError(`Unknown provider "${provider}". Registered providers: ${listProviders().join(', ')}`);
+    }
+
+    const { provider: _profileProvider, apiKey: profileKey, apiKeyEnv, ...profileConfig } = profile ?? { provider };
+    if (apiKeyEnv && !env[apiKeyEnv] && !options.apiKey && !profileKey) {
+        throw new ValidationError(`Environment variable ${apiKeyEnv} for profile "${selected!.name}" is not set`);
+    }
+
+    const apiKey = options.apiKey ??
+        profileKey ??
+        (apiKeyEnv ? env[apiKeyEnv] : undefined) ??
+        (env[ENV.apiKey] || undefined) ??
+        (definition.apiKeyEnv ?? []).map(name => env[name]).find(Boolean);
+    if (!apiKey) {
+        const names = [ENV.apiKey, ...(definition.apiKeyEnv ?? [])].join(' or ');
+        throw new ValidationError(`API key is required for provider "${provider}". Pass apiKey or set ${names}`);
+    }
+
+    const config: ServiceConfig = {
+        ...definedOnly({ model: env[ENV.model], baseUrl: env[ENV.baseUrl] }),
+        ...definedOnly(profileConfig),
+        ...definedOnly(overrides),
+        apiKey
+    };
+
+    return { provider, config };
+}
+
+/**
+ * Creates the service for a provider configured in code, a named profile or the
+ * environment. See resolveServiceConfig for how the settings are combined.
+ */
+export function createLectureService(options: LectureServiceOptions = {}): AIService {
+    try {
+        const { provider, config } = resolveServiceConfig(options);
+        return providers.get(provider)!.create(config);
+    } catch (error) {
+        throw handleError(error);
+    }
+}
+
+/**
+ * Reads a JSON file of named provider profiles.
+ */
+export function loadProviderConfigFile(filePath: string): ProviderConfigFile {
+    let parsed: ProviderConfigFile;
+    try {
+        parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new FileProcessingError(
+            `Error reading provider config file ${filePath}: ${(error as Error).message}`,
+            error as Error
+        );
+    }
+
+    if (!parsed || typeof parsed.profiles !== 'object' || parsed.profiles === null) {
+        throw new ValidationError(`Provider config file ${filePath} has no "profiles" object`);
+    }
+    return parsed;
+}
+
+function selectProfile(
+    options: LectureServiceOptions,
+    env: Record<string, string | undefined>
+): { name: string; profile: ProviderProfile } | undefined {
+    const configFile = options.configFile ?? (env[ENV.configFile] || undefined);
+    const file = options.profiles ?? (configFile ? loadProviderConfigFile(configFile) : undefined);
+    const name = options.profile ?? (env[ENV.profile] || file?.defaultProfile);
+    if (!name) {
+        return undefined;
+    }
+
+    if (!file) {
+        throw new ValidationError(`Profile "${name}" was requested but no profiles are configured`);
+    }
+    const profile = file.profiles[name];
+    if (!profile) {
+        throw new ValidationError(
+            `Unknown profile "${name}". Available profiles: ${Object.keys(file.profiles).join(', ')}`
+        );
+    }
+    return { name, profile };
+}
+
+function normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+function definedOnly<T extends object>(values: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<T>;
+}
+
+registerProvider('openai', {
+    create: config => new OpenAIService(config),
+    apiKeyEnv: ['OPENAI_API_KEY']
+});
+
+registerProvider('gemini', {
+    create: config => new GeminiService(config),
+    apiKeyEnv: ['GEMINI_API_KEY', 'GOOGLE_API_KEY']
+});
+
+registerProvider('gemini-openai', {
+    create: config => new GeminiOpenAIService(config),
+    apiKeyEnv: ['GEMINI_API_KEY', 'GOOGLE_API_KEY']
+});
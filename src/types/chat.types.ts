@@ -0,0 +1,59 @@
+import { FileData, TokenUsage } from './lecture.types';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+}
+
+/**
+ * A JSON schema the response must follow. Services pass it to the provider's structured output
+ * support: OpenAI's `json_schema` response format or Gemini's `responseSchema`.
+ */
+export interface JsonResponseFormat {
+    /** Name of the schema, letters, digits, underscores and dashes only */
+    name: string;
+    /**
+     * The schema, in the subset both providers accept: every property listed in `required`,
+     * `additionalProperties: false`, and optional values typed as `['string', 'null']`
+     */
+    schema: Record<string, unknown>;
+}
+
+export interface ChatOptions {
+    temperature?: number;
+    /** Uploaded files attached to the last user message, where the service supports them */
+    files?: FileData[];
+    /**
+     * Ask for JSON following this schema instead of free text. Such a response is never
+     * continued: one cut at the token limit fails, and needs a larger maxTokens.
+     */
+    responseFormat?: JsonResponseFormat;
+}
+
+export type LectureChatMode = 'chat' | 'interactive';
+
+export type LectureChatSource = 'transcript' | 'notes';
+
+export interface LectureChatSessionOptions {
+    mode?: LectureChatMode;
+    maxContextTokens?: number;
+    temperature?: number;
+}
+
+export interface LectureChatReply {
+    content: string;
+    mode: LectureChatMode;
+    command?: string;
+    usage: TokenUsage;
+}
+
+export interface LectureChatSessionState {
+    version: 1;
+    source: LectureChatSource;
+    lecture: string;
+    mode: LectureChatMode;
+    history: ChatMessage[];
+    options: LectureChatSessionOptions;
+}
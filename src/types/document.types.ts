@@ -0,0 +1,116 @@
+import { BuildLectureNotesOptions, GenerationResult, LectureFormat } from './lecture.types';
+
+/**
+ * Text inside a block: Markdown inline markup (`**bold**`, `*italic*`, `` `code` ``) with LaTeX
+ * math between `$...$`, or `$$...$$` for display math. Blank lines separate paragraphs.
+ */
+export type RichText = string;
+
+export type TheoremKind = 'theorem' | 'lemma' | 'proposition' | 'corollary';
+
+export interface ParagraphBlock {
+    type: 'paragraph';
+    text: RichText;
+}
+
+export interface MathBlock {
+    type: 'math';
+    /** The TeX of a displayed equation, without delimiters */
+    tex: string;
+    label?: string;
+}
+
+export interface ListBlock {
+    type: 'list';
+    ordered: boolean;
+    items: RichText[];
+}
+
+export interface DefinitionBlock {
+    type: 'definition';
+    title?: string;
+    text: RichText;
+}
+
+export interface TheoremBlock {
+    type: 'theorem';
+    kind: TheoremKind;
+    title?: string;
+    statement: RichText;
+    proof?: RichText;
+    label?: string;
+}
+
+export interface ExampleBlock {
+    type: 'example';
+    title?: string;
+    text: RichText;
+    solution?: RichText;
+}
+
+export interface RemarkBlock {
+    type: 'remark';
+    text: RichText;
+}
+
+export interface AlgorithmBlock {
+    type: 'algorithm';
+    title?: string;
+    /** The steps in order, as pseudocode */
+    steps: RichText[];
+}
+
+export interface CodeBlock {
+    type: 'code';
+    language?: string;
+    code: string;
+}
+
+export interface FigureBlock {
+    type: 'figure';
+    caption: RichText;
+    /** What the figure shows, for the reader to draw or for a placeholder */
+    description: RichText;
+}
+
+export type LectureBlock =
+    | ParagraphBlock
+    | MathBlock
+    | ListBlock
+    | DefinitionBlock
+    | TheoremBlock
+    | ExampleBlock
+    | RemarkBlock
+    | AlgorithmBlock
+    | CodeBlock
+    | FigureBlock;
+
+export interface LectureSubsection {
+    title: string;
+    blocks: LectureBlock[];
+}
+
+export interface LectureSection {
+    title: string;
+    blocks: LectureBlock[];
+    subsections: LectureSubsection[];
+}
+
+/**
+ * Lecture notes as a tree rather than a string, so that they can be inspected and changed
+ * programmatically and rendered to any format with the same structure.
+ */
+export interface LectureDocument {
+    title: string;
+    sections: LectureSection[];
+}
+
+export interface LectureDocumentOptions extends Pick<BuildLectureNotesOptions, 'html' | 'notebook'> {
+    /** Format the document is rendered to in `content` (default 'latex'); typst is not supported */
+    format?: LectureFormat;
+    temperature?: number;
+}
+
+export interface LectureDocumentResult extends GenerationResult {
+    document: LectureDocument;
+}
@@ -0,0 +1,46 @@
+import { TokenUsage } from './lecture.types';
+
+/**
+ * What a card asks for: a term's definition, a theorem's statement, a formula, or a cloze
+ * deletion where parts of a sentence or formula are hidden.
+ */
+export type FlashcardKind = 'definition' | 'theorem' | 'formula' | 'cloze';
+
+export interface Flashcard {
+    kind: FlashcardKind;
+    /**
+     * The question. For cloze cards, the full text with the hidden parts marked Anki-style as
+     * `{{c1::...}}`, `{{c2::...}}`
+     */
+    front: string;
+    /** The answer. For cloze cards, optional extra context shown after the card is revealed */
+    back: string;
+    tags?: string[];
+}
+
+export interface FlashcardOptions {
+    /** Upper bound on the number of cards kept after deduplication */
+    maxCards?: number;
+    /** Kinds of cards to ask for (default all) */
+    kinds?: FlashcardKind[];
+    /** Name of the Anki deck (default 'Lecture Notes') */
+    deckName?: string;
+    /** Tags added to every card */
+    tags?: string[];
+    /** Largest part of the notes, in estimated tokens, sent in one request (default half the context budget) */
+    maxChunkTokens?: number;
+    temperature?: number;
+}
+
+export interface FlashcardDeck {
+    name: string;
+    cards: Flashcard[];
+    /** Number of generated cards dropped as duplicates of an earlier one */
+    duplicates: number;
+    usage: TokenUsage;
+}
+
+export interface AnkiExportOptions {
+    /** Name of the Anki deck (default 'Lecture Notes') */
+    deckName?: string;
+}
@@ -0,0 +1,47 @@
+import { LectureFormat, TokenUsage } from './lecture.types';
+
+/** Where a term first occurs in the notes */
+export interface GlossaryLocation {
+    /** Number of the top-level section, from 1; 0 before the first heading */
+    section: number;
+    /** Title of the closest heading above the occurrence */
+    heading: string;
+    /** Line of the notes, from 1 */
+    line: number;
+}
+
+export interface GlossaryEntry {
+    term: string;
+    /** One or two sentences, with math in LaTeX between `$...$` */
+    definition: string;
+    /** Other names or spellings the term goes by in the notes */
+    aliases?: string[];
+    /** First occurrence of the term or one of its aliases; missing when the notes never use it verbatim */
+    location?: GlossaryLocation;
+}
+
+export interface GlossaryOptions {
+    /** Format of the notes (default: detected from their headings) */
+    format?: LectureFormat;
+    /** Upper bound on the number of terms, keeping the ones that occur first */
+    maxTerms?: number;
+    /** Largest part of the notes, in estimated tokens, sent in one request (default half the context budget) */
+    maxChunkTokens?: number;
+    temperature?: number;
+}
+
+export interface Glossary {
+    /** Entries in alphabetical order */
+    entries: GlossaryEntry[];
+    usage: TokenUsage;
+}
+
+export interface LatexGlossaryOptions {
+    /** Add `\index{}` entries for a back-of-book index, built by makeindex (default true) */
+    index?: boolean;
+}
+
+export interface MarkdownGlossaryOptions {
+    /** Title of the glossary section (default 'Glossary') */
+    title?: string;
+}
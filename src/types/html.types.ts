@@ -0,0 +1,9 @@
+import { MathValidationOptions } from './validation.types';
+
+export interface HTMLRenderOptions extends MathValidationOptions {
+    title?: string; // Page title, the document's only level-1 heading by default
+    lang?: string; // Language of the page, 'en' by default
+    tableOfContents?: boolean; // true by default
+    tocDepth?: number; // Deepest heading level listed in the table of contents, 3 by default
+    css?: string; // Appended to the built-in stylesheet
+}
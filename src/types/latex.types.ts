@@ -0,0 +1,56 @@
+import { TokenUsage } from './lecture.types';
+
+export type LatexEngine = 'pdflatex' | 'latexmk' | 'tectonic';
+
+/**
+ * An error or warning read from a TeX log.
+ */
+export interface LatexDiagnostic {
+    message: string;
+    /** Line of the source file the message refers to, when the log names one */
+    line?: number;
+    /** File the message refers to, when it is not the compiled document itself */
+    file?: string;
+    /** The source text TeX had read when it stopped, from the `l.<line>` part of an error */
+    context?: string;
+}
+
+export interface LatexCompilerOptions {
+    engine?: LatexEngine; // 'pdflatex' by default
+    binary?: string; // Path to the engine executable, the engine name by default
+    timeoutMs?: number; // Time limit for one compilation, 60000 by default
+    outputDir?: string; // Where the PDF is written, a new temporary directory by default
+    jobName?: string; // Name of the PDF without extension, 'lecture-notes' by default
+    extraArgs?: string[]; // Passed to the engine before the source file
+}
+
+export interface LatexCompileResult {
+    /** True when a PDF was produced without errors */
+    success: boolean;
+    pdfPath?: string;
+    errors: LatexDiagnostic[];
+    warnings: LatexDiagnostic[];
+    log: string;
+}
+
+export interface CompileCheckOptions extends LatexCompilerOptions {
+    /** Rounds of repairs before giving up, each followed by a compilation (default 3) */
+    maxRepairs?: number;
+    /** Lines of the document sent with each error on either side of it (default 5) */
+    contextLines?: number;
+}
+
+export interface CompileCheckResult<D = LatexDiagnostic> {
+    /** The document after repairs */
+    content: string;
+    success: boolean;
+    pdfPath?: string;
+    /** Errors left after the last compilation */
+    errors: D[];
+    warnings: D[];
+    /** Number of times the document was compiled */
+    compilations: number;
+    /** Number of repair rounds */
+    repairs: number;
+    usage: TokenUsage;
+}
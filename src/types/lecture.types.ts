@@ -1,4 +1,19 @@
-export type LectureFormat = 'latex' | 'markdown';
+import { MediaSource } from './media.types';
+import { ChatMessage } from './chat.types';
+import { MathIssue, MathValidationOptions, ResponseValidationConfig } from './validation.types';
+import { CompileCheckOptions, CompileCheckResult } from './latex.types';
+import { HTMLRenderOptions } from './html.types';
+import { NotebookRenderOptions } from './notebook.types';
+import { TypstCheckOptions, TypstCheckResult } from './typst.types';
+import { Glossary, GlossaryOptions } from './glossary.types';
+
+/**
+ * Output format of generated notes. For 'html' and 'ipynb' the model writes Markdown, which is
+ * rendered to a standalone page or converted to a Jupyter notebook; scaffolds and refined
+ * sections stay Markdown. 'typst' documents start with TYPST_PREAMBLE, which defines the
+ * theorem environments.
+ */
+export type LectureFormat = 'latex' | 'markdown' | 'html' | 'typst' | 'ipynb';
 
 export interface LectureNotes {
     topic: string;
@@ -8,9 +23,50 @@ export interface LectureNotes {
         model: string;
         promptTokens: number;
         completionTokens: number;
+        totalTokens: number;
+        continuations: number;
+        latencyMs: number;
+        warnings: string[];
+        provider?: string; // Set when the notes come from a FallbackService
     };
 }
 
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface GenerationAttempt {
+    finishReason: string | null;
+    usage: TokenUsage;
+    warnings: string[];
+}
+
+export interface GenerationResult {
+    content: string;
+    model: string;
+    usage: TokenUsage;
+    attempts: GenerationAttempt[];
+    continuations: number;
+    latencyMs: number;
+    warnings: string[];
+    /** Name of the provider that produced the output, set by FallbackService */
+    provider?: string;
+}
+
+/**
+ * Output generated before a request failed, together with the conversation that produced it,
+ * so that another provider can continue the response instead of starting over.
+ */
+export interface PartialGeneration {
+    messages: ChatMessage[];
+    /** Output so far, in Markdown when the requested format is html or ipynb */
+    result: GenerationResult;
+    /** Format the finished response is converted to, set by FallbackService */
+    format?: LectureFormat;
+}
+
 export interface LectureNotesOptions {
     topic: string;
     context?: string;
@@ -28,14 +84,18 @@ export interface TranscriptionOptions {
 
 export interface AudioTranscriptionOptions {
     audioPath: string;
-    apiKey: string;
+    apiKey?: string;
     chunkDuration?: number; // Duration in seconds for splitting audio
+    language?: string; // ISO-639-1 code of the spoken language, e.g. 'en'
+    prompt?: string; // Domain vocabulary and spelling hints for the transcription model
+    model?: string; // Transcription model, 'whisper-1' by default
 }
 
 export interface PDFProcessingOptions {
     pdfPath: string;
     format?: LectureFormat;
-    apiKey: string;
+    apiKey?: string;
+    maxChunkTokens?: number;
     additionalContext?: {
         courseTitle?: string;
         topic?: string;
@@ -44,6 +104,23 @@ export interface PDFProcessingOptions {
     };
 }
 
+export interface PDFPage {
+    pageNumber: number;
+    text: string;
+    headings: string[];
+}
+
+// A file path, an http(s) or data URL, or the raw bytes of an image
+export type ImageSource = string | Buffer;
+
+// Media sent inline with a request
+export interface InlineData {
+    mimeType: string;
+    data: string; // base64
+}
+
+export type ImageData = InlineData;
+
 export interface SectionRefinementOptions {
     section: string;
     transcript: string;
@@ -52,6 +129,57 @@ export interface SectionRefinementOptions {
     additionalFiles?: FileData[];
 }
 
+export interface GenerateMarkdownOptions extends MathValidationOptions {
+    /** Repair math that KaTeX cannot render where a rule can tell how */
+    fixMath?: boolean;
+    /** Called with the math spans that do not render, after any repairs; offsets refer to the text before conversion */
+    onMathIssues?: (issues: MathIssue[]) => void;
+}
+
+export interface DocumentSection {
+    title: string;
+    content: string;
+}
+
+export interface RefinedSection {
+    title: string;
+    outline: string;
+    content: string;
+    usage: TokenUsage;
+}
+
+export interface BuildLectureNotesOptions {
+    format?: LectureFormat;
+    finalRefinement?: boolean;
+    /**
+     * Compile the LaTeX or Typst result and have the model repair what does not compile.
+     * Typst results are checked by default when the typst CLI is installed; pass false to skip.
+     */
+    compileCheck?: boolean | CompileCheckOptions | TypstCheckOptions;
+    /** How the page is rendered for the html format */
+    html?: HTMLRenderOptions;
+    /** How the notebook is built for the ipynb format */
+    notebook?: NotebookRenderOptions;
+    /**
+     * Generate a glossary of the finished notes: LaTeX documents get glossaries and `\index{}`
+     * entries, other formats a glossary section at the end. Not available for typst.
+     */
+    glossary?: boolean | Omit<GlossaryOptions, 'format'>;
+}
+
+export interface LectureNotesBuild {
+    format: LectureFormat;
+    scaffold: string;
+    sections: RefinedSection[];
+    draft: string;
+    content: string;
+    usage: TokenUsage;
+    /** Outcome of the compile check, when one was requested */
+    compileCheck?: CompileCheckResult | TypstCheckResult;
+    /** The glossary added to the notes, when one was requested */
+    glossary?: Glossary;
+}
+
 export interface FileData {
     fileId: string;
     mimeType: string;
@@ -69,14 +197,11 @@ export interface ModelConfig {
     maxTokens?: number;
     baseUrl?: string;
     maxAttempts?: number;
-    responseValidation?: {
-        checkLaTeXBalance?: boolean;
-        checkCodeBlocks?: boolean;
-        checkJsonBalance?: boolean;
-        customIndicators?: string[];
-    };
+    contextWindow?: number;
+    responseValidation?: ResponseValidationConfig;
 }
 
 export interface ServiceConfig extends ModelConfig {
     apiKey: string;
+    mediaSource?: MediaSource; // Used by processYouTubeURL, yt-dlp by default
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { AudioTranscriptionOptions } from './lecture.types';
+import { TranscriptFileFormat } from './transcript.types';
+
+export interface MediaInfo {
+    id: string;
+    title: string;
+    url: string;
+    durationSeconds?: number;
+}
+
+export interface CaptionTrack {
+    language: string;
+    format: TranscriptFileFormat;
+    content: string;
+    /** True for speech-recognition captions generated by the platform */
+    automatic?: boolean;
+}
+
+/**
+ * Where processYouTubeURL gets a video's metadata, captions and audio from.
+ */
+export interface MediaSource {
+    getInfo(url: string): Promise<MediaInfo>;
+    /** Resolves to undefined when the video has no captions in the requested languages */
+    getCaptions?(url: string, languages: string[]): Promise<CaptionTrack | undefined>;
+    /** Downloads the audio track into `outputDir` and resolves to the file's path */
+    downloadAudio(url: string, outputDir: string): Promise<string>;
+}
+
+export interface YtDlpMediaSourceOptions {
+    binary?: string; // Path to the yt-dlp executable, 'yt-dlp' by default
+    includeAutomaticCaptions?: boolean; // Fall back to automatic captions (default true)
+    extraArgs?: string[]; // Passed to every yt-dlp call, e.g. ['--cookies', 'cookies.txt']
+}
+
+export interface LocalMediaEntry {
+    title: string;
+    id?: string;
+    durationSeconds?: number;
+    audioPath?: string;
+    captions?: {
+        path?: string;
+        content?: string;
+        language?: string;
+        format?: TranscriptFileFormat;
+    };
+}
+
+export interface MediaProcessingOptions {
+    /** Caption languages in order of preference (default ['en']) */
+    languages?: string[];
+    /** Use an existing caption track instead of transcribing the audio (default true) */
+    useCaptions?: boolean;
+    /** Options for transcribing the audio when no captions are used */
+    transcription?: Omit<AudioTranscriptionOptions, 'audioPath'>;
+}
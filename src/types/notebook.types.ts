@@ -0,0 +1,34 @@
+export interface NotebookKernel {
+    name: string; // Kernel name Jupyter starts, e.g. 'python3'
+    displayName: string; // Name shown in the kernel picker, e.g. 'Python 3'
+}
+
+export interface NotebookRenderOptions {
+    language?: string; // Language of the kernel, the most common language of the code blocks by default, else 'python'
+    kernel?: NotebookKernel; // Kernel the notebook opens with, derived from the language by default
+}
+
+/**
+ * A cell of an nbformat v4 notebook. Code cells carry the language of the block they were
+ * made from in `metadata.language`; answer cells for exercises are tagged 'exercise'.
+ */
+export type NotebookCell =
+    | { cell_type: 'markdown'; id: string; metadata: Record<string, unknown>; source: string[] }
+    | {
+        cell_type: 'code';
+        execution_count: null;
+        id: string;
+        metadata: { language: string; tags?: string[] };
+        outputs: unknown[];
+        source: string[];
+    };
+
+export interface Notebook {
+    cells: NotebookCell[];
+    metadata: {
+        kernelspec: { display_name: string; language: string; name: string };
+        language_info: { name: string };
+    };
+    nbformat: 4;
+    nbformat_minor: 5;
+}
@@ -0,0 +1,6 @@
+// The package entry point runs a debug script when it has no parent module (as under jest),
+// so the library file is imported directly.
+declare module 'pdf-parse/lib/pdf-parse.js' {
+    import pdfParse from 'pdf-parse';
+    export = pdfParse;
+}
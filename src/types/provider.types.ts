@@ -0,0 +1,67 @@
+import type { AIService } from '../services/ai.service';
+import { ModelConfig, PartialGeneration, ServiceConfig } from './lecture.types';
+import { MediaSource } from './media.types';
+
+/** Built-in providers; any name passed to registerProvider is accepted as well */
+export type ProviderName = 'openai' | 'gemini' | 'gemini-openai' | (string & {});
+
+export interface ProviderDefinition {
+    create(config: ServiceConfig): AIService;
+    /** Environment variables checked, in order, for the API key when none is configured */
+    apiKeyEnv?: string[];
+}
+
+export interface ProviderProfile extends ModelConfig {
+    provider: ProviderName;
+    apiKey?: string;
+    /** Environment variable holding the API key, so that config files can stay free of secrets */
+    apiKeyEnv?: string;
+}
+
+export interface ProviderConfigFile {
+    /** Profile used when none is selected */
+    defaultProfile?: string;
+    profiles: Record<string, ProviderProfile>;
+}
+
+export interface LectureServiceOptions extends Partial<ServiceConfig> {
+    provider?: ProviderName;
+    /** Named profile from `profiles` or the config file */
+    profile?: string;
+    /** JSON file with named profiles, `LECTURE_NOTES_CONFIG` by default */
+    configFile?: string;
+    /** Profiles passed in directly instead of read from a file */
+    profiles?: ProviderConfigFile;
+    /** Environment to read from, `process.env` by default */
+    env?: Record<string, string | undefined>;
+}
+
+export interface FallbackProvider {
+    /** Reported in GenerationResult.provider, the service's class name by default */
+    name: string;
+    service: AIService;
+}
+
+export interface FallbackEvent {
+    from: string;
+    to: string;
+    error: Error;
+    /** Output of the failed provider that the next provider is asked to continue */
+    partial?: PartialGeneration;
+}
+
+export interface FallbackServiceOptions {
+    /** Error classes that move on to the next provider (default RateLimitError, NetworkError, TimeoutError) */
+    errorTypes?: Array<new (...args: any[]) => Error>;
+    /** HTTP statuses of failed requests that move on to the next provider (default 408, 429, 500, 502, 503, 504) */
+    statusCodes?: number[];
+    /**
+     * Time limit in milliseconds for each provider call; exceeding it raises a TimeoutError. The
+     * timed-out request is not cancelled and keeps running in the background until it settles.
+     */
+    timeoutMs?: number;
+    /** Extra rule; return true to move on to the next provider for errors the other rules do not match */
+    shouldFallback?: (error: Error, provider: string) => boolean;
+    onFallback?: (event: FallbackEvent) => void;
+    mediaSource?: MediaSource;
+}
@@ -0,0 +1,100 @@
+import { LectureFormat, TokenUsage } from './lecture.types';
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'short-answer' | 'numeric';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * The part of the notes or transcript a question was written from: its position among the
+ * sections the input was split into, and that section's title.
+ */
+export interface QuizSourceRef {
+    section: number;
+    title: string;
+}
+
+interface QuizQuestionBase {
+    type: QuizQuestionType;
+    /** The question, in plain text with LaTeX math between $...$ or $$...$$ */
+    question: string;
+    difficulty: QuizDifficulty;
+    /** Why the correct answer is correct, shown as feedback after answering */
+    explanation: string;
+    source: QuizSourceRef;
+}
+
+export interface QuizChoice {
+    text: string;
+    correct: boolean;
+    /** For a distractor, the misconception it targets and why it is wrong */
+    rationale?: string;
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+    type: 'multiple-choice';
+    /** Exactly one choice is correct */
+    choices: QuizChoice[];
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+    type: 'true-false';
+    answer: boolean;
+    /** Why answering the opposite is wrong */
+    rationale?: string;
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+    type: 'short-answer';
+    /** Accepted answers, the preferred one first */
+    answers: string[];
+}
+
+export interface NumericQuestion extends QuizQuestionBase {
+    type: 'numeric';
+    answer: number;
+    /** Largest accepted absolute difference from `answer` */
+    tolerance: number;
+    unit?: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | TrueFalseQuestion | ShortAnswerQuestion | NumericQuestion;
+
+export interface QuizOptions {
+    /** Number of questions to ask for (default 10) */
+    count?: number;
+    /** Question types to use (default all) */
+    types?: QuizQuestionType[];
+    /** Difficulty of every question; mixed when not set */
+    difficulty?: QuizDifficulty;
+    /** Title of the quiz (default 'Lecture Quiz') */
+    title?: string;
+    /** Format of the notes, used to split them into sections; detected when not set */
+    format?: LectureFormat;
+    /** Largest part of the input, in estimated tokens, sent in one request (default half the context budget) */
+    maxChunkTokens?: number;
+    temperature?: number;
+}
+
+/**
+ * A question the model wrote that does not match the question schema, with the reasons.
+ */
+export interface RejectedQuizQuestion {
+    question: unknown;
+    errors: string[];
+}
+
+export interface Quiz {
+    title: string;
+    questions: QuizQuestion[];
+    /** Titles of the sections that `QuizSourceRef.section` points into */
+    sections: string[];
+    rejected: RejectedQuizQuestion[];
+    usage: TokenUsage;
+}
+
+export interface LatexExamOptions {
+    /** Print the answers and explanations, for the answer key (default false) */
+    answerKey?: boolean;
+    /** Points per question (default 1) */
+    points?: number;
+}
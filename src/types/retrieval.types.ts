@@ -0,0 +1,63 @@
+import { LectureFormat, TokenUsage } from './lecture.types';
+
+export interface EmbeddingProvider {
+    /** Identifies the embedding space; an index can only be queried with the provider that built it. */
+    readonly id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface OpenAIEmbeddingConfig {
+    apiKey: string;
+    model?: string;
+    baseUrl?: string;
+    batchSize?: number;
+}
+
+export interface CourseLecture {
+    id: string;
+    title: string;
+    transcript?: string;
+    notes?: string;
+    format?: LectureFormat;
+}
+
+export interface CourseChunk {
+    lectureId: string;
+    lectureTitle: string;
+    section: string;
+    kind: 'transcript' | 'notes';
+    text: string;
+    embedding: number[];
+}
+
+export interface CourseIndexOptions {
+    chunkSize?: number;
+    chunkOverlap?: number;
+}
+
+export interface CourseSearchResult {
+    lectureId: string;
+    lectureTitle: string;
+    section: string;
+    kind: 'transcript' | 'notes';
+    text: string;
+    score: number;
+}
+
+export interface CourseQuestionOptions {
+    topK?: number;
+    temperature?: number;
+}
+
+export interface CourseAnswer {
+    answer: string;
+    sources: CourseSearchResult[];
+    usage: TokenUsage;
+}
+
+export interface CourseIndexData {
+    version: 1;
+    provider: string;
+    options: Required<CourseIndexOptions>;
+    chunks: CourseChunk[];
+}
@@ -0,0 +1,78 @@
+import { FileData, TokenUsage } from './lecture.types';
+
+export interface TranscriptSegment {
+    /** Start and end of the segment in seconds from the beginning of the recording */
+    start: number;
+    end: number;
+    speaker?: string;
+    text: string;
+}
+
+/**
+ * A transcript that keeps its timing: captions, speech-to-text output or any other list of
+ * timed segments. Methods that take a transcript accept it in place of a flat string.
+ */
+export interface Transcript {
+    segments: TranscriptSegment[];
+    language?: string;
+    durationSeconds?: number;
+}
+
+export interface AudioTranscript extends Transcript {
+    text: string;
+    durationSeconds: number;
+}
+
+export type TranscriptInput = string | Transcript;
+
+export type TranscriptFileFormat = 'srt' | 'vtt' | 'whisper-json';
+
+export interface TranscriptTextOptions {
+    /** Prefix each line with its `[hh:mm:ss]` start time (default true) */
+    timestamps?: boolean;
+    /** Prefix each line with its speaker when known (default true) */
+    speakers?: boolean;
+}
+
+/**
+ * How a gap was detected: an explicit marker such as `[inaudible]`, a jump between
+ * timestamps, or a sentence that breaks off with a dash or ellipsis.
+ */
+export type TranscriptGapKind = 'marker' | 'silence' | 'cut';
+
+export interface TranscriptGap {
+    kind: TranscriptGapKind;
+    /** Offsets into the original transcript of the text the fill replaces (empty for silences) */
+    start: number;
+    end: number;
+    text: string;
+    /** Length of the silence in seconds, for timestamp gaps */
+    durationSeconds?: number;
+}
+
+export interface SynthesizedSpan {
+    gap: TranscriptGap;
+    /** Offsets into the repaired transcript of the inserted text */
+    start: number;
+    end: number;
+    text: string;
+    synthesized: true;
+}
+
+export type TranscriptSourceMaterial = string | FileData;
+
+export interface GapDetectionOptions {
+    /** Timestamp jumps longer than this many seconds count as silences (default 30) */
+    silenceThresholdSeconds?: number;
+}
+
+export interface RepairTranscriptOptions extends GapDetectionOptions {
+    temperature?: number;
+}
+
+export interface TranscriptRepair {
+    transcript: string;
+    gaps: TranscriptGap[];
+    synthesized: SynthesizedSpan[];
+    usage: TokenUsage;
+}
@@ -0,0 +1,39 @@
+import { CompileCheckResult } from './latex.types';
+
+/**
+ * An error or warning reported by the Typst compiler.
+ */
+export interface TypstDiagnostic {
+    message: string;
+    /** Line of the source file the message refers to, when it points into one */
+    line?: number;
+    column?: number;
+    /** File the message refers to, when it is not the compiled document itself */
+    file?: string;
+}
+
+export interface TypstCompilerOptions {
+    binary?: string; // Path to the typst executable, 'typst' by default
+    timeoutMs?: number; // Time limit for one compilation, 60000 by default
+    outputDir?: string; // Where the PDF is written, a new temporary directory by default
+    jobName?: string; // Name of the PDF without extension, 'lecture-notes' by default
+    extraArgs?: string[]; // Passed to typst compile before the source file
+}
+
+export interface TypstCompileResult {
+    /** True when a PDF was produced without errors */
+    success: boolean;
+    pdfPath?: string;
+    errors: TypstDiagnostic[];
+    warnings: TypstDiagnostic[];
+    log: string;
+}
+
+export interface TypstCheckOptions extends TypstCompilerOptions {
+    /** Rounds of repairs before giving up, each followed by a compilation (default 3) */
+    maxRepairs?: number;
+    /** Lines of the document sent with each error on either side of it (default 5) */
+    contextLines?: number;
+}
+
+export type TypstCheckResult = CompileCheckResult<TypstDiagnostic>;
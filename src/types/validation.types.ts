@@ -0,0 +1,84 @@
+import { TokenUsage } from './lecture.types';
+
+export interface CompletenessIssue {
+    /** Name of the check that reported the issue, e.g. 'latex-environments' */
+    check: string;
+    message: string;
+    /** Character offset in the response where the problem starts */
+    index: number;
+    /** 1-based line of `index` */
+    line: number;
+    /** Text that would resolve the issue if written at the end of the response, e.g. '\end{theorem}' */
+    expected?: string;
+}
+
+export interface ResponseDiagnostics {
+    complete: boolean;
+    issues: CompletenessIssue[];
+}
+
+/**
+ * A completeness check that can be plugged into a ResponseValidator.
+ */
+export interface CompletenessCheck {
+    readonly name: string;
+    check(content: string): CompletenessIssue[];
+}
+
+export interface ResponseValidationConfig {
+    checkLaTeXBalance?: boolean;
+    checkCodeBlocks?: boolean;
+    checkJsonBalance?: boolean;
+    checkMathDelimiters?: boolean;
+    customIndicators?: string[];
+    /** Additional checks run after the built-in ones */
+    checks?: CompletenessCheck[];
+}
+
+export interface MathSpan {
+    /** The TeX between the delimiters */
+    tex: string;
+    /** '$', '$$', '\[' or '\(' */
+    delimiter: string;
+    displayMode: boolean;
+    /** Offsets of the span in the document, delimiters included */
+    start: number;
+    end: number;
+    line: number;
+}
+
+export interface MathIssue {
+    span: MathSpan;
+    /** KaTeX's description of the error */
+    message: string;
+    /** Offset in `span.tex` where KaTeX stopped, when it reports one */
+    position?: number;
+}
+
+export interface MathValidationOptions {
+    /** Macros the document relies on, e.g. { '\\R': '\\mathbb{R}' } */
+    macros?: Record<string, string>;
+}
+
+export interface MathValidationResult {
+    valid: boolean;
+    spans: MathSpan[];
+    issues: MathIssue[];
+}
+
+export interface MathRepair {
+    line: number;
+    /** The span before and after the repair, delimiters included */
+    original: string;
+    repaired: string;
+    method: 'mechanical' | 'model';
+}
+
+export interface MathRepairResult {
+    content: string;
+    repairs: MathRepair[];
+    /** Spans that still fail to render */
+    issues: MathIssue[];
+    /** Tokens spent on model repairs */
+    usage?: TokenUsage;
+}
@@ -0,0 +1,74 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TypstCompileResult, TypstCompilerOptions } from '../types/typst.types';
+import { PDFOutput, runCompiler } from '../utils/compiler.utils';
+import { parseTypstDiagnostics } from '../utils/typst.utils';
+
+const SOURCE_FILE = 'main.typ';
+const OUTPUT_FILE = 'main.pdf';
+
+/**
+ * Compiles Typst documents with the typst CLI, which must be installed separately. Every
+ * compilation runs in a fresh temporary directory that typst uses as its root, so the document
+ * cannot read files outside it; only the PDF is kept.
+ */
+export class TypstCompiler {
+    private readonly options: Required<Omit<TypstCompilerOptions, 'outputDir'>> & Pick<TypstCompilerOptions, 'outputDir'>;
+    private readonly output: PDFOutput;
+
+    constructor(options: TypstCompilerOptions = {}) {
+        this.options = {
+            binary: options.binary ?? 'typst',
+            timeoutMs: options.timeoutMs ?? 60000,
+            outputDir: options.outputDir,
+            jobName: options.jobName ?? 'lecture-notes',
+            extraArgs: options.extraArgs ?? []
+        };
+        this.output = new PDFOutput(options.outputDir);
+    }
+
+    /**
+     * Resolves to whether `binary` can be run, so that callers can skip the check when typst
+     * is not installed.
+     */
+    static isAvailable(binary: string = 'typst'): Promise<boolean> {
+        return new Promise(resolve => {
+            execFile(binary, ['--version'], { timeout: 10000 }, error => resolve(!error));
+        });
+    }
+
+    async compile(source: string): Promise<TypstCompileResult> {
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'typst-'));
+        try {
+            await fs.writeFile(path.join(workDir, SOURCE_FILE), source, 'utf-8');
+            const log = await this.run(workDir);
+
+            const { errors, warnings } = parseTypstDiagnostics(log, SOURCE_FILE);
+            const pdfPath = await this.output.keep(path.join(workDir, OUTPUT_FILE), this.options.jobName);
+
+            return {
+                success: errors.length === 0 && pdfPath !== undefined,
+                ...(pdfPath ? { pdfPath } : {}),
+                errors,
+                warnings,
+                log
+            };
+        } finally {
+            await fs.rm(workDir, { recursive: true, force: true });
+        }
+    }
+
+    private run(workDir: string): Promise<string> {
+        const { binary, timeoutMs, extraArgs } = this.options;
+        return runCompiler({
+            binary,
+            args: ['compile', '--root', '.', '--diagnostic-format', 'short', ...extraArgs, SOURCE_FILE, OUTPUT_FILE],
+            cwd: workDir,
+            timeoutMs,
+            tool: 'typst',
+            installHint: 'install the typst CLI'
+        });
+    }
+}
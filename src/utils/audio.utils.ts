@@ -0,0 +1,127 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AudioTranscriptionOptions, InlineData } from '../types/lecture.types';
+import { AudioTranscript, TranscriptSegment } from '../types/transcript.types';
+import { FileProcessingError, SDKError } from './error.utils';
+import { stripCodeFences } from './text.utils';
+import { parseWhisperJSON } from './transcript.utils';
+
+// Seconds per chunk when splitting recordings for transcription
+export const DEFAULT_CHUNK_DURATION = 600;
+
+// Inline requests are capped at 20 MB, which base64 encoding reduces to about 14 MB of audio
+export const INLINE_AUDIO_LIMIT = 14 * 1024 * 1024;
+
+// Characters of the previous chunk's transcript passed on as context
+const PREVIOUS_TEXT_CHARS = 500;
+
+// Audio formats that models accept as-is; other formats are converted when split
+const AUDIO_MIME_TYPES: Record<string, string> = {
+    '.mp3': 'audio/mp3',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg'
+};
+
+export function audioMimeType(audioPath: string): string | undefined {
+    return AUDIO_MIME_TYPES[path.extname(audioPath).toLowerCase()];
+}
+
+/**
+ * Splits a recording into mono 16 kHz MP3 chunks with ffmpeg, which keeps an hour of audio
+ * well under the upload limits of the transcription endpoints. The chunks are written to a
+ * new temporary directory that the caller removes.
+ */
+export async function splitAudioIntoChunks(
+    audioPath: string,
+    chunkDuration: number = DEFAULT_CHUNK_DURATION
+): Promise<{ directory: string; chunks: string[] }> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-chunks-'));
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            execFile(
+                'ffmpeg',
+                [
+                    '-i', audioPath,
+                    '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '32k',
+                    '-f', 'segment', '-segment_time', String(chunkDuration),
+                    path.join(directory, 'chunk_%03d.mp3')
+                ],
+                (error, stdout, stderr) => {
+                    if (error) {
+                        reject(new FileProcessingError(`Error splitting audio: ${stderr}`, error));
+                    } else {
+                        resolve();
+                    }
+                }
+            );
+        });
+    } catch (error) {
+        await fs.rm(directory, { recursive: true, force: true });
+        throw error;
+    }
+
+    const chunks = (await fs.readdir(directory)).sort().map(file => path.join(directory, file));
+    return { directory, chunks };
+}
+
+/**
+ * Transcribes a recording with a model that accepts inline audio. Files within the inline
+ * limit are sent as they are; larger files and formats the model does not accept are split
+ * into chunks. `transcribe` receives each piece of audio and the end of the transcript so far,
+ * and resolves to the model's JSON array of segments with times relative to that piece.
+ */
+export async function transcribeAudioInline(
+    options: AudioTranscriptionOptions,
+    transcribe: (audio: InlineData, previousText: string) => Promise<string>
+): Promise<AudioTranscript> {
+    const chunkDuration = options.chunkDuration ?? DEFAULT_CHUNK_DURATION;
+    const mimeType = audioMimeType(options.audioPath);
+    const { size } = await fs.stat(options.audioPath);
+
+    const segments: TranscriptSegment[] = [];
+    const addSegments = async (audio: InlineData, offset: number) => {
+        const previousText = segments.map(segment => segment.text).join(' ').slice(-PREVIOUS_TEXT_CHARS);
+        const content = await transcribe(audio, previousText);
+        segments.push(...parseSegments(content).map(segment => ({
+            ...segment,
+            start: offset + segment.start,
+            end: offset + segment.end
+        })));
+    };
+
+    if (mimeType && size <= INLINE_AUDIO_LIMIT) {
+        await addSegments({ mimeType, data: (await fs.readFile(options.audioPath)).toString('base64') }, 0);
+    } else {
+        const { directory, chunks } = await splitAudioIntoChunks(options.audioPath, chunkDuration);
+        try {
+            for (const [i, chunk] of chunks.entries()) {
+                await addSegments({ mimeType: 'audio/mp3', data: (await fs.readFile(chunk)).toString('base64') }, i * chunkDuration);
+            }
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    }
+
+    return {
+        text: segments.map(segment => segment.text).join(' '),
+        ...(options.language ? { language: options.language } : {}),
+        durationSeconds: segments.length > 0 ? Math.max(...segments.map(segment => segment.end)) : 0,
+        segments
+    };
+}
+
+function parseSegments(content: string): TranscriptSegment[] {
+    // Chunks without speech come back as an empty array
+    if (/^\[\s*\]$/.test(stripCodeFences(content).trim())) {
+        return [];
+    }
+
+    try {
+        return parseWhisperJSON(stripCodeFences(content)).segments;
+    } catch (error) {
+        throw new SDKError('Audio transcription response is not a JSON array of segments');
+    }
+}
@@ -0,0 +1,67 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileProcessingError, TimeoutError } from './error.utils';
+
+export interface CompilerRun {
+    binary: string;
+    args: string[];
+    cwd: string;
+    timeoutMs: number;
+    env?: NodeJS.ProcessEnv;
+    /** Name of the tool in error messages */
+    tool: string;
+    /** What to install when the binary is missing, as in "install a TeX distribution" */
+    installHint: string;
+}
+
+/**
+ * Runs a compiler and resolves to its output. A failed compilation is not an error here; it
+ * is reported through the output or the log. A missing binary and a timeout are.
+ */
+export function runCompiler({ binary, args, cwd, timeoutMs, env, tool, installHint }: CompilerRun): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile(
+            binary,
+            args,
+            { cwd, timeout: timeoutMs, maxBuffer: 16 * 1024 * 1024, ...(env ? { env } : {}) },
+            (error, stdout, stderr) => {
+                if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+                    reject(new FileProcessingError(`${binary} was not found; ${installHint} or set the binary option`, error!));
+                } else if (error?.killed) {
+                    reject(new TimeoutError(`${tool} did not finish within ${timeoutMs} ms`));
+                } else {
+                    resolve(`${stdout}${stderr}`);
+                }
+            }
+        );
+    });
+}
+
+/**
+ * Where compiled PDFs are kept once their temporary working directory is removed: the
+ * configured directory, or a temporary one created on first use and reused afterwards.
+ */
+export class PDFOutput {
+    private dir?: Promise<string>;
+
+    constructor(private readonly outputDir?: string) {}
+
+    /**
+     * Copies `built` to `<jobName>.pdf` in the output directory, or resolves to undefined when
+     * the compiler did not produce it.
+     */
+    async keep(built: string, jobName: string): Promise<string | undefined> {
+        if (!(await fs.stat(built).then(() => true, () => false))) {
+            return undefined;
+        }
+
+        this.dir ??= this.outputDir
+            ? fs.mkdir(this.outputDir, { recursive: true }).then(() => this.outputDir!)
+            : fs.mkdtemp(path.join(os.tmpdir(), 'lecture-notes-pdf-'));
+        const target = path.join(await this.dir, `${jobName}.pdf`);
+        await fs.copyFile(built, target);
+        return target;
+    }
+}
@@ -1,4 +1,11 @@
+import { PartialGeneration } from '../types/lecture.types';
+
 export class SDKError extends Error {
+    /** HTTP status of the failed provider request, when there was one */
+    status?: number;
+    /** Output generated before the failure, which FallbackService continues on the next provider */
+    partial?: PartialGeneration;
+
     constructor(message: string) {
         super(message);
         this.name = 'SDKError';
@@ -40,22 +47,41 @@ export class FileProcessingError extends SDKError {
     }
 }
 
+export class TimeoutError extends SDKError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
 export function isSDKError(error: unknown): error is SDKError {
     return error instanceof SDKError;
 }
 
 export function handleError(error: unknown): never {
-    if (error instanceof OpenAIError) {
+    if (error instanceof OpenAIError || error instanceof RateLimitError ||
+        error instanceof NetworkError || error instanceof TimeoutError) {
         throw error;
     }
     if (error instanceof Error) {
-        if (error.message.includes('rate limit')) {
-            throw new RateLimitError('Rate limit exceeded. Please try again later.');
+        const { status, partial } = error as SDKError;
+        let sdkError: SDKError;
+        if (status === 429 || error.message.includes('rate limit')) {
+            sdkError = new RateLimitError('Rate limit exceeded. Please try again later.');
+        } else if (error.message.includes('network') || error.message.includes('ECONNREFUSED')) {
+            sdkError = new NetworkError('Network error occurred', error);
+        } else {
+            sdkError = new SDKError(error.message);
         }
-        if (error.message.includes('network') || error.message.includes('ECONNREFUSED')) {
-            throw new NetworkError('Network error occurred', error);
+
+        // Keep what FallbackService needs to decide whether and how to recover
+        if (typeof status === 'number') {
+            sdkError.status = status;
         }
-        throw new SDKError(error.message);
+        if (partial) {
+            sdkError.partial = partial;
+        }
+        throw sdkError;
     }
     throw new SDKError('An unknown error occurred');
-}
\ No newline at end of file
+}
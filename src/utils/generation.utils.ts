@@ -0,0 +1,127 @@
+import { GenerationAttempt, GenerationResult, LectureNotes, TokenUsage } from '../types/lecture.types';
+import { ChatMessage } from '../types/chat.types';
+import { SDKError } from './error.utils';
+
+export function emptyUsage(): TokenUsage {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+export function sumUsage(...usages: TokenUsage[]): TokenUsage {
+    return usages.reduce((total, usage) => ({
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+        totalTokens: total.totalTokens + usage.totalTokens
+    }), emptyUsage());
+}
+
+export function usageFromCompletion(usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+} | null): TokenUsage {
+    const promptTokens = usage?.prompt_tokens ?? 0;
+    const completionTokens = usage?.completion_tokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: usage?.total_tokens ?? promptTokens + completionTokens };
+}
+
+export function usageFromGemini(usage?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+}): TokenUsage {
+    const promptTokens = usage?.promptTokenCount ?? 0;
+    const completionTokens = usage?.candidatesTokenCount ?? 0;
+    return { promptTokens, completionTokens, totalTokens: usage?.totalTokenCount ?? promptTokens + completionTokens };
+}
+
+/**
+ * Collects per-attempt usage, finish reasons and completeness warnings while a service
+ * loops over continuation attempts, and turns them into a GenerationResult.
+ */
+export class GenerationTracker {
+    private readonly startedAt = Date.now();
+    private readonly attempts: GenerationAttempt[] = [];
+
+    recordAttempt(finishReason: string | null | undefined, usage: TokenUsage = emptyUsage(), warnings: string[] = []): void {
+        this.attempts.push({ finishReason: finishReason ?? null, usage, warnings });
+    }
+
+    finish(content: string, model: string): GenerationResult {
+        return {
+            content,
+            model,
+            usage: sumUsage(...this.attempts.map(attempt => attempt.usage)),
+            attempts: this.attempts,
+            continuations: Math.max(this.attempts.length - 1, 0),
+            latencyMs: Date.now() - this.startedAt,
+            warnings: this.attempts.flatMap((attempt, index) =>
+                attempt.warnings.map(warning => `Attempt ${index + 1}: ${warning}`)
+            )
+        };
+    }
+}
+
+/**
+ * Combines the results of several generation calls that together produced `content`.
+ */
+export function mergeGenerationResults(results: GenerationResult[], content: string): GenerationResult {
+    return {
+        content,
+        model: results[results.length - 1]?.model ?? '',
+        usage: sumUsage(...results.map(result => result.usage)),
+        attempts: results.flatMap(result => result.attempts),
+        continuations: results.reduce((total, result) => total + result.continuations, 0),
+        latencyMs: results.reduce((total, result) => total + result.latencyMs, 0),
+        warnings: results.flatMap(result => result.warnings)
+    };
+}
+
+/**
+ * Records the output generated before `error` on the error itself, so that FallbackService can
+ * continue the response on another provider. Requests that cannot be written as text chat
+ * messages (such as those with images) pass `undefined` and are restarted instead, as do
+ * requests with a `responseFormat`: the rest of a partial JSON document cannot be held to
+ * the schema.
+ */
+export function withPartialGeneration(
+    error: unknown,
+    messages: ChatMessage[] | undefined,
+    result: GenerationResult
+): unknown {
+    if (error instanceof Error && messages && result.content && !(error as SDKError).partial) {
+        (error as SDKError).partial = { messages, result };
+    }
+    return error;
+}
+
+/**
+ * Converts a request back to chat messages, or undefined when it holds anything but text.
+ */
+export function toChatMessages(messages: Array<{ role: string; content?: unknown }>): ChatMessage[] | undefined {
+    const converted: ChatMessage[] = [];
+    for (const message of messages) {
+        if (!['system', 'user', 'assistant'].includes(message.role) || typeof message.content !== 'string') {
+            return undefined;
+        }
+        converted.push({ role: message.role as ChatMessage['role'], content: message.content });
+    }
+    return converted;
+}
+
+export function toLectureNotes(topic: string, result: GenerationResult): LectureNotes {
+    return {
+        topic,
+        content: result.content,
+        timestamp: new Date(),
+        metadata: {
+            model: result.model,
+            promptTokens: result.usage.promptTokens,
+            completionTokens: result.usage.completionTokens,
+            totalTokens: result.usage.totalTokens,
+            continuations: result.continuations,
+            latencyMs: result.latencyMs,
+            warnings: result.warnings,
+            ...(result.provider ? { provider: result.provider } : {})
+        }
+    };
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageData, ImageSource } from '../types/lecture.types';
+import { FileProcessingError } from './error.utils';
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif'
+};
+
+/**
+ * Loads an image from a file path, an http(s) or data URL, or a Buffer and returns it
+ * base64-encoded together with its MIME type.
+ */
+export async function loadImage(source: ImageSource): Promise<ImageData> {
+    try {
+        if (Buffer.isBuffer(source)) {
+            return { mimeType: detectImageMimeType(source), data: source.toString('base64') };
+        }
+
+        const dataURL = source.match(/^data:([^;,]+);base64,(.*)$/s);
+        if (dataURL) {
+            return { mimeType: dataURL[1], data: dataURL[2] };
+        }
+
+        if (/^https?:\/\//i.test(source)) {
+            const response = await fetch(source);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status} for ${source}`);
+            }
+            const buffer = Buffer.from(await response.arrayBuffer());
+            const contentType = response.headers.get('content-type')?.split(';')[0];
+            return {
+                mimeType: contentType?.startsWith('image/') ? contentType : detectImageMimeType(buffer),
+                data: buffer.toString('base64')
+            };
+        }
+
+        const buffer = await fs.readFile(source);
+        return {
+            mimeType: EXTENSION_MIME_TYPES[path.extname(source).toLowerCase()] ?? detectImageMimeType(buffer),
+            data: buffer.toString('base64')
+        };
+    } catch (error) {
+        if (error instanceof FileProcessingError) {
+            throw error;
+        }
+        throw new FileProcessingError(
+            `Failed to load image: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            error instanceof Error ? error : undefined
+        );
+    }
+}
+
+/**
+ * Detects the MIME type of an image from its leading bytes.
+ */
+export function detectImageMimeType(buffer: Buffer): string {
+    if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (buffer.subarray(0, 4).toString('latin1') === 'GIF8') {
+        return 'image/gif';
+    }
+    if (buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') {
+        return 'image/webp';
+    }
+    if (buffer.subarray(4, 8).toString('latin1') === 'ftyp') {
+        const brand = buffer.subarray(8, 12).toString('latin1');
+        if (['heic', 'heix', 'hevc', 'hevx'].includes(brand)) {
+            return 'image/heic';
+        }
+        if (['mif1', 'msf1'].includes(brand)) {
+            return 'image/heif';
+        }
+    }
+    throw new FileProcessingError('Unsupported image format; use PNG, JPEG, GIF, WebP or HEIC');
+}
+
+export function toDataURL(image: ImageData): string {
+    return `data:${image.mimeType};base64,${image.data}`;
+}
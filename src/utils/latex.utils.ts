@@ -0,0 +1,159 @@
+import { LatexDiagnostic } from '../types/latex.types';
+import { extractMathSpans } from '../validation/math.validator';
+
+// Errors in the -file-line-error format, e.g. "./main.tex:12: Undefined control sequence."
+const FILE_LINE_ERROR = /^(.+?\.(?:tex|sty|cls|def|cfg|aux|bbl|toc)):(\d+): (.*)$/;
+const TEX_ERROR = /^! (.*)$/;
+const ERROR_CONTEXT = /^l\.(\d+) (.*)$/;
+const WARNING = /^(LaTeX|Package (\S+)|Class (\S+)) Warning: (.*)$/;
+const BOX_WARNING = /^((?:Over|Under)full \\[hv]box \([^)]*\)).*?lines? (\d+)/;
+const INPUT_LINE = /on input line (\d+)/;
+
+/**
+ * Reads the errors and warnings out of a TeX log. Messages in `mainFile` are reported without
+ * a `file`; line numbers of errors logged in the classic `! ...` format are taken from the
+ * `l.<line>` context that follows them.
+ */
+export function parseLatexLog(log: string, mainFile: string = 'main.tex'): { errors: LatexDiagnostic[]; warnings: LatexDiagnostic[] } {
+    const lines = log.split(/\r?\n/);
+    const errors: LatexDiagnostic[] = [];
+    const warnings: LatexDiagnostic[] = [];
+    let emergencyStop: LatexDiagnostic | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fileLine = line.match(FILE_LINE_ERROR);
+        const texError = fileLine ? null : line.match(TEX_ERROR);
+        if (fileLine || texError) {
+            const message = (fileLine ? fileLine[3] : texError![1]).trim();
+            if (message.startsWith('==>')) {
+                continue;
+            }
+
+            const file = fileLine && !isFile(fileLine[1], mainFile) ? fileLine[1] : undefined;
+            const context = findErrorContext(lines, i + 1);
+            const diagnostic: LatexDiagnostic = {
+                message,
+                ...(fileLine ? { line: Number(fileLine[2]) } : context ? { line: context.line } : {}),
+                ...(file ? { file } : {}),
+                ...(context ? { context: context.text } : {})
+            };
+
+            // TeX gives up after a fatal error; only worth reporting when nothing explains it
+            if (message === 'Emergency stop.') {
+                const reason = lines.slice(i + 1, i + 4).find(next => next.startsWith('***'));
+                emergencyStop ??= reason ? { ...diagnostic, message: `${message} ${reason.replace(/^\*+\s*/, '')}` } : diagnostic;
+                continue;
+            }
+
+            errors.push(diagnostic);
+            continue;
+        }
+
+        const warning = line.match(WARNING);
+        if (warning) {
+            const name = warning[2] ?? warning[3];
+            const parts = [warning[4].trim()];
+            // Package warnings continue on lines prefixed with "(name)", wrapped LaTeX warnings until the sentence ends
+            while (i + 1 < lines.length && lines[i + 1].trim() && (name
+                ? lines[i + 1].startsWith(`(${name})`)
+                : !parts[parts.length - 1].endsWith('.'))) {
+                const next = lines[++i];
+                parts.push((name ? next.slice(name.length + 2) : next).trim());
+            }
+
+            const message = `${warning[1]} Warning: ${parts.join(' ')}`;
+            const inputLine = message.match(INPUT_LINE);
+            warnings.push({ message, ...(inputLine ? { line: Number(inputLine[1]) } : {}) });
+            continue;
+        }
+
+        const box = line.match(BOX_WARNING);
+        if (box) {
+            warnings.push({ message: box[1], line: Number(box[2]) });
+        }
+    }
+
+    if (errors.length === 0 && emergencyStop) {
+        errors.push(emergencyStop);
+    }
+    return { errors, warnings };
+}
+
+/**
+ * Lines `start` to `end` (1-based, inclusive) prefixed with their line numbers, as sent to the
+ * model for a repair.
+ */
+export function numberLines(document: string, start: number, end: number): string {
+    return document.split('\n')
+        .slice(start - 1, end)
+        .map((line, offset) => `${start + offset}| ${line}`)
+        .join('\n');
+}
+
+/**
+ * Replaces lines `start` to `end` (1-based, inclusive) of `document` with `replacement`.
+ */
+export function replaceLines(document: string, start: number, end: number, replacement: string): string {
+    const lines = document.split('\n');
+    lines.splice(start - 1, end - start + 1, ...replacement.split('\n'));
+    return lines.join('\n');
+}
+
+function findErrorContext(lines: string[], from: number): { line: number; text: string } | undefined {
+    // The context follows the help text, before the next message
+    for (let i = from; i < Math.min(from + 20, lines.length); i++) {
+        if (FILE_LINE_ERROR.test(lines[i]) || TEX_ERROR.test(lines[i])) {
+            return undefined;
+        }
+        const match = lines[i].match(ERROR_CONTEXT);
+        if (match) {
+            return { line: Number(match[1]), text: match[2].trim() };
+        }
+    }
+    return undefined;
+}
+
+function isFile(logged: string, mainFile: string): boolean {
+    return logged.replace(/^\.\//, '') === mainFile;
+}
+
+const LATEX_SPECIALS: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '$': '\\$',
+    '&': '\\&',
+    '%': '\\%',
+    '#': '\\#',
+    '_': '\\_',
+    '^': '\\textasciicircum{}',
+    '~': '\\textasciitilde{}'
+};
+
+/**
+ * Converts text with Markdown inline markup and math to LaTeX: math is kept as written (display
+ * math in `\[...\]`), `**bold**`, `*italic*` and `` `code` `` become `\textbf`, `\emph` and
+ * `\texttt`, and every other character LaTeX treats specially is escaped.
+ */
+export function markdownInlineToLatex(text: string): string {
+    const escape = (plain: string) => plain.replace(/[\\{}$&%#_^~]/g, char => LATEX_SPECIALS[char]);
+    const markup = (plain: string) => plain
+        .split(/(`[^`\n]+`)/)
+        .map((part, i) => i % 2 === 1
+            ? `\\texttt{${escape(part.slice(1, -1))}}`
+            : escape(part)
+                .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '\\textbf{$1}')
+                .replace(/\*(?=\S)([^*]*?\S)\*/g, '\\emph{$1}'))
+        .join('');
+
+    let latex = '';
+    let cursor = 0;
+    for (const span of extractMathSpans(text)) {
+        latex += markup(text.slice(cursor, span.start));
+        latex += span.displayMode ? `\\[${span.tex}\\]` : `$${span.tex}$`;
+        cursor = span.end;
+    }
+    return latex + markup(text.slice(cursor));
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import { PDFPage } from '../types/lecture.types';
+import { FileProcessingError } from './error.utils';
+import { chunkText, estimateTokens } from './text.utils';
+
+interface TextItem {
+    str: string;
+    transform: number[];
+}
+
+// The part of pdf.js's PDFPageProxy that pagerender is given and uses
+interface PageData {
+    pageNumber?: number;
+    getTextContent(options: { normalizeWhitespace: boolean }): Promise<{ items: TextItem[] }>;
+}
+
+interface TextLine {
+    text: string;
+    fontSize: number;
+}
+
+// Lines set this much larger than the page's body text are treated as headings
+const HEADING_SCALE = 1.2;
+
+/**
+ * Extracts the text of every page of a PDF locally, keeping page numbers and marking lines
+ * set in a larger font than the page's body text as headings.
+ */
+export async function extractPDFPages(source: string | Buffer): Promise<PDFPage[]> {
+    try {
+        const data = typeof source === 'string' ? await fs.readFile(source) : source;
+        const pages: PDFPage[] = [];
+
+        await pdfParse(unpooled(data), {
+            pagerender: async (pageData: PageData) => {
+                const textContent = await pageData.getTextContent({ normalizeWhitespace: true });
+                const lines = groupLines(textContent.items);
+                const bodySize = mostCommonFontSize(lines);
+
+                pages.push({
+                    pageNumber: pageData.pageNumber ?? pages.length + 1,
+                    headings: lines
+                        .filter(line => line.fontSize >= bodySize * HEADING_SCALE)
+                        .map(line => line.text),
+                    text: lines
+                        .map(line => line.fontSize >= bodySize * HEADING_SCALE ? `## ${line.text}` : line.text)
+                        .join('\n')
+                });
+                return '';
+            }
+        });
+
+        return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+    } catch (error) {
+        throw new FileProcessingError(
+            `Failed to extract PDF text: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            error instanceof Error ? error : undefined
+        );
+    }
+}
+
+/**
+ * Renders pages as text with a `[Page n]` marker before each page.
+ */
+export function formatPDFPages(pages: PDFPage[]): string {
+    return pages
+        .filter(page => page.text.trim().length > 0)
+        .map(page => `[Page ${page.pageNumber}]\n${page.text}`)
+        .join('\n\n');
+}
+
+/**
+ * Groups consecutive pages into chunks that fit in `maxTokens`. A page that is too large
+ * on its own is split into several chunks carrying the same page number.
+ */
+export function chunkPDFPages(pages: PDFPage[], maxTokens: number): PDFPage[][] {
+    const chunks: PDFPage[][] = [];
+    let current: PDFPage[] = [];
+    let currentTokens = 0;
+
+    const pieces = pages.flatMap(page => estimateTokens(formatPDFPages([page])) <= maxTokens
+        ? [page]
+        : chunkText(page.text, maxTokens * 4, 0).map(text => ({ ...page, text }))
+    );
+
+    for (const piece of pieces) {
+        const tokens = estimateTokens(formatPDFPages([piece]));
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+            chunks.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(piece);
+        currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+
+    return chunks;
+}
+
+// pdf.js reads the whole ArrayBuffer behind a Buffer, so a small Buffer carved out of Node's
+// shared pool is copied into memory of its own first
+function unpooled(data: Buffer): Buffer {
+    if (data.byteOffset === 0 && data.byteLength === data.buffer.byteLength) {
+        return data;
+    }
+    const copy = Buffer.allocUnsafeSlow(data.length);
+    data.copy(copy);
+    return copy;
+}
+
+function groupLines(items: TextItem[]): TextLine[] {
+    const lines: TextLine[] = [];
+    let lastY: number | undefined;
+
+    for (const item of items) {
+        const fontSize = Math.abs(item.transform[3]) || Math.abs(item.transform[0]);
+        const y = item.transform[5];
+
+        if (lastY !== undefined && Math.abs(y - lastY) < 1 && lines.length > 0) {
+            const line = lines[lines.length - 1];
+            line.text += item.str;
+            line.fontSize = Math.max(line.fontSize, fontSize);
+        } else {
+            lines.push({ text: item.str, fontSize });
+        }
+        lastY = y;
+    }
+
+    return lines
+        .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+        .filter(line => line.text.length > 0);
+}
+
+function mostCommonFontSize(lines: TextLine[]): number {
+    const counts = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.fontSize);
+        counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+    }
+
+    let best = 0;
+    let bestCount = -1;
+    for (const [size, count] of counts) {
+        if (count > bestCount) {
+            best = size;
+            bestCount = count;
+        }
+    }
+    return best;
+}
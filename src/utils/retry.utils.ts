@@ -43,6 +43,11 @@ export async function withRetry<T>(
     }
 }
 
+/**
+ * Spaces out the start of requests to at most `requestsPerSecond`. Requests are not serialised:
+ * each one starts once its slot comes up, whether or not the ones before it have finished, so a
+ * provider that hangs does not hold up other calls, including a fallback to another provider.
+ */
 class RequestThrottler {
     private queue: Array<() => Promise<void>> = [];
     private processing = false;
@@ -56,12 +61,8 @@ class RequestThrottler {
     async add<T>(fn: () => Promise<T>): Promise<T> {
         return new Promise((resolve, reject) => {
             this.queue.push(async () => {
-                try {
-                    const result = await this.executeWithThrottle(fn);
-                    resolve(result);
-                } catch (error) {
-                    reject(error);
-                }
+                await this.waitForSlot();
+                fn().then(resolve, reject);
             });
 
             if (!this.processing) {
@@ -70,7 +71,7 @@ class RequestThrottler {
         });
     }
 
-    private async executeWithThrottle<T>(fn: () => Promise<T>): Promise<T> {
+    private async waitForSlot(): Promise<void> {
         const now = Date.now();
         const timeSinceLastRequest = now - this.lastRequestTime;
         
@@ -79,7 +80,6 @@ class RequestThrottler {
         }
 
         this.lastRequestTime = Date.now();
-        return fn();
     }
 
     private async processQueue(): Promise<void> {
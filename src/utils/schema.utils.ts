@@ -0,0 +1,36 @@
+import { ResponseSchema } from '@google/generative-ai';
+
+/**
+ * Converts a JSON schema to the OpenAPI subset Gemini's `responseSchema` accepts: nullable
+ * types become `nullable: true`, string enums are marked as such, and keywords Gemini rejects
+ * such as `additionalProperties` are dropped.
+ */
+export function toGeminiSchema(schema: Record<string, unknown>): ResponseSchema {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    const type = types.find(name => name !== 'null');
+    const converted: Record<string, unknown> = { type };
+
+    if (types.includes('null')) {
+        converted.nullable = true;
+    }
+    if (typeof schema.description === 'string') {
+        converted.description = schema.description;
+    }
+    if (Array.isArray(schema.enum)) {
+        converted.format = 'enum';
+        converted.enum = schema.enum.filter(value => value !== null);
+    }
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(
+            Object.entries(schema.properties as Record<string, Record<string, unknown>>)
+                .map(([name, property]) => [name, toGeminiSchema(property)])
+        );
+    }
+    if (Array.isArray(schema.required)) {
+        converted.required = schema.required;
+    }
+    if (schema.items) {
+        converted.items = toGeminiSchema(schema.items as Record<string, unknown>);
+    }
+    return converted as unknown as ResponseSchema;
+}
@@ -1,3 +1,7 @@
+import { DocumentSection, GenerateMarkdownOptions, LectureFormat } from '../types/lecture.types';
+import { fixMath, validateMath } from '../validation/math.validator';
+import { TYPST_PREAMBLE } from '../prompts';
+
 export function formatLectureNotes(content: string): string {
     return content.trim()
         .split('\n')
@@ -13,8 +17,12 @@ export function extractKeyPoints(content: string): string[] {
         .map(point => point.replace(/^[•\-]\s*/, '').replace(/^\d+\.\s*/, '').trim());
 }
 
-export function generateMarkdown(content: string): string {
-    const lines = content.split('\n')
+/**
+ * Converts notes to Markdown. With `fixMath` or `onMathIssues`, the math spans are checked with
+ * KaTeX first.
+ */
+export function generateMarkdown(content: string, options: GenerateMarkdownOptions = {}): string {
+    const lines = checkMarkdownMath(content, options).split('\n')
         .map(line => line.trim());
     
     let markdown = '';
@@ -41,4 +49,308 @@ export function generateMarkdown(content: string): string {
     }
 
     return markdown.trim();
-}
\ No newline at end of file
+}
+
+/**
+ * Rough token estimate (about four characters per token) used for context budgeting
+ * where a provider tokenizer is not available.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits text into chunks of at most `size` characters, preferring paragraph and sentence
+ * boundaries, with `overlap` characters repeated between consecutive chunks.
+ */
+export function chunkText(text: string, size: number = 1500, overlap: number = 200): string[] {
+    const normalized = text.trim();
+    if (normalized.length <= size) {
+        return normalized ? [normalized] : [];
+    }
+
+    const chunks: string[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+        let end = Math.min(start + size, normalized.length);
+        if (end < normalized.length) {
+            const window = normalized.slice(start, end);
+            const boundary = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+            const space = window.lastIndexOf(' ');
+            if (boundary > size / 2) {
+                end = start + boundary + 1;
+            } else if (space > 0) {
+                end = start + space;
+            }
+        }
+
+        chunks.push(normalized.slice(start, end).trim());
+        if (end >= normalized.length) {
+            break;
+        }
+
+        // Start the overlap on a word boundary
+        const overlapStart = normalized.indexOf(' ', end - overlap);
+        start = overlapStart >= 0 && overlapStart < end ? Math.max(overlapStart + 1, start + 1) : end;
+    }
+
+    return chunks.filter(chunk => chunk.length > 0);
+}
+
+const LATEX_HEADING_LEVELS: Record<string, number> = {
+    chapter: 0,
+    section: 1,
+    subsection: 2,
+    subsubsection: 3
+};
+
+const LATEX_DOCUMENT_PREAMBLE = `\\documentclass[11pt,a4paper]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{amsmath, amssymb, amsthm}
+\\usepackage[most]{tcolorbox}
+\\usepackage{hyperref}`;
+
+export function stripCodeFences(content: string): string {
+    const match = content.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+    return match ? match[1].trim() : content.trim();
+}
+
+export function extractLatexBody(content: string): string {
+    const match = content.match(/\\begin\{document\}([\s\S]*?)(?:\\end\{document\}|$)/);
+    return match ? match[1].trim() : content.trim();
+}
+
+// Typst sections start at their heading; anything above it is a preamble the model added
+export function extractTypstBody(content: string): string {
+    const match = content.match(/^=+\s/m);
+    return match ? content.slice(match.index).trim() : content.trim();
+}
+
+/**
+ * Reads a heading line of the given format, returning its level (1 for a LaTeX section) and title.
+ */
+export function headingOf(line: string, format: LectureFormat): { level: number; title: string } | null {
+    if (format === 'latex') {
+        const match = line.match(/^\\(chapter|section|subsection|subsubsection)\*?\{(.*)\}/);
+        return match ? { level: LATEX_HEADING_LEVELS[match[1]], title: match[2].trim() } : null;
+    }
+
+    if (format === 'typst') {
+        const match = line.match(/^(=+)\s+(.*)$/);
+        return match ? { level: match[1].length, title: match[2].replace(/\s*<[\w:.-]+>$/, '').trim() } : null;
+    }
+
+    if (format === 'html') {
+        const match = line.match(/^<h([1-6])\b[^>]*>(.*)<\/h\1>$/i);
+        return match ? { level: Number(match[1]), title: htmlText(match[2]) } : null;
+    }
+
+    const match = line.match(/^(#{1,6})\s+(.*)$/);
+    return match ? { level: match[1].length, title: match[2].replace(/\s+#+$/, '').trim() } : null;
+}
+
+/**
+ * The fragment GitHub and most Markdown renderers give a heading: lowercase, without
+ * punctuation, with spaces turned into hyphens. Repeated headings get `-1`, `-2` appended.
+ */
+export function headingAnchor(title: string): string {
+    return title.trim().toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').replace(/\s/g, '-');
+}
+
+function htmlText(html: string): string {
+    return html
+        // Math rendered to MathML keeps its TeX in an annotation
+        .replace(/<math\b[\s\S]*?<annotation\b[^>]*>([\s\S]*?)<\/annotation>[\s\S]*?<\/math>/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+function checkMarkdownMath(content: string, options: GenerateMarkdownOptions): string {
+    if (!options.fixMath && !options.onMathIssues) {
+        return content;
+    }
+
+    const result = options.fixMath ? fixMath(content, options) : { content, issues: validateMath(content, options).issues };
+    if (result.issues.length > 0) {
+        options.onMathIssues?.(result.issues);
+    }
+    return result.content;
+}
+
+/**
+ * Splits a document (or scaffold) into its top-level sections. The top level is the
+ * shallowest heading level present, so a Markdown outline that starts at `##` still splits.
+ * Anything before the first heading is discarded.
+ */
+export function splitDocumentSections(document: string, format: LectureFormat = 'latex'): DocumentSection[] {
+    const lines = stripCodeFences(document).split('\n');
+    const headings = lines.map(line => headingOf(line.trim(), format));
+    const levels = headings.filter((heading): heading is { level: number; title: string } => heading !== null)
+        .map(heading => heading.level);
+
+    if (levels.length === 0) {
+        return [];
+    }
+
+    const topLevel = Math.min(...levels);
+    const sections: DocumentSection[] = [];
+    let title = '';
+    let sectionLines: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const heading = headings[i];
+        if (heading && heading.level === topLevel) {
+            if (sectionLines.length > 0) {
+                sections.push({ title, content: sectionLines.join('\n').trim() });
+            }
+            title = heading.title;
+            sectionLines = [lines[i]];
+        } else if (sectionLines.length > 0) {
+            sectionLines.push(lines[i]);
+        }
+    }
+
+    if (sectionLines.length > 0) {
+        sections.push({ title, content: sectionLines.join('\n').trim() });
+    }
+
+    return sections;
+}
+
+/**
+ * Joins refined sections into a single document. LaTeX and Typst sections are wrapped in a
+ * minimal preamble; any preamble the model emitted for an individual section is dropped.
+ */
+export function assembleDocument(sections: string[], format: LectureFormat = 'latex'): string {
+    if (format === 'typst') {
+        const body = sections.map(section => extractTypstBody(stripCodeFences(section))).join('\n\n');
+        return `${TYPST_PREAMBLE}\n\n${body}`;
+    }
+
+    if (format !== 'latex') {
+        return sections.map(section => stripCodeFences(section)).join('\n\n');
+    }
+
+    const body = sections
+        .map(section => extractLatexBody(stripCodeFences(section)))
+        .join('\n\n');
+
+    return `${LATEX_DOCUMENT_PREAMBLE}\n\n\\begin{document}\n\n${body}\n\n\\end{document}`;
+}
+
+// Shorter matches at a seam are too likely to be legitimate repetition, e.g. a closing brace
+const MIN_OVERLAP_CHARS = 20;
+// Only the end of the previous output is compared with the start of a continuation
+const MAX_OVERLAP_CHARS = 2000;
+
+/**
+ * Joins a continuation to the output generated before it. Models asked to continue often
+ * repeat the last lines, or restart a line that was cut off, before carrying on; that
+ * repeated text is dropped so the seam does not duplicate content.
+ */
+export function stitchContinuation(content: string, continuation: string): string {
+    return content + continuationSuffix(content, continuation);
+}
+
+/**
+ * The text stitchContinuation appends to `content`: the continuation without the part that
+ * repeats the end of `content`, preceded by a line break when neither side has whitespace.
+ */
+export function continuationSuffix(content: string, continuation: string): string {
+    if (!content) {
+        return continuation;
+    }
+
+    const tail = content.slice(-MAX_OVERLAP_CHARS).trimEnd();
+    const start = continuation.trimStart();
+
+    // The continuation repeats the end of the output character for character, usually
+    // because it restarts a line that was cut off. What follows joins without a separator.
+    for (let length = Math.min(tail.length, start.length); length >= MIN_OVERLAP_CHARS; length--) {
+        if (tail.endsWith(start.slice(0, length))) {
+            // The output may already end with the whitespace the rest starts with
+            const rest = start.slice(length);
+            const trailing = content.slice(content.trimEnd().length);
+            return trailing && rest.startsWith(trailing) ? rest.slice(trailing.length) : rest;
+        }
+    }
+
+    const rest = removeRepeatedLines(tail, continuation);
+    if (!rest.trim()) {
+        return '';
+    }
+    return /\s$/.test(content) || /^\s/.test(rest) ? rest : '\n' + rest;
+}
+
+/**
+ * Drops the leading lines of `continuation` that repeat the last lines of `tail`, ignoring
+ * indentation and trailing whitespace.
+ */
+function removeRepeatedLines(tail: string, continuation: string): string {
+    const previous = tail.split('\n').map(line => line.trim());
+    const lines = continuation.split('\n');
+    const first = lines.findIndex(line => line.trim().length > 0);
+    if (first === -1) {
+        return continuation;
+    }
+
+    const next = lines.slice(first).map(line => line.trim());
+    for (let count = Math.min(previous.length, next.length); count > 0; count--) {
+        const repeated = next.slice(0, count);
+        if (repeated.join('\n').length >= MIN_OVERLAP_CHARS &&
+            previous.slice(-count).join('\n') === repeated.join('\n')) {
+            return lines.slice(first + count).join('\n');
+        }
+    }
+    return continuation;
+}
+
+/**
+ * Streaming counterpart of stitchContinuation. The start of a continuation is held back while
+ * it could still be repeating the end of the previous output, then released without the
+ * repeated part; everything after that passes straight through.
+ */
+export class ContinuationStitcher {
+    private pending = '';
+    private released = false;
+
+    constructor(private readonly content: string) {}
+
+    /** Returns the text that can be emitted for `delta`, which is empty while it is held back */
+    push(delta: string): string {
+        if (this.released || !this.content) {
+            return delta;
+        }
+
+        this.pending += delta;
+        return this.mayRepeatContent() ? '' : this.release();
+    }
+
+    /** Returns whatever is still held back once the continuation has ended */
+    flush(): string {
+        return this.released || !this.content ? '' : this.release();
+    }
+
+    private mayRepeatContent(): boolean {
+        const tail = this.content.slice(-MAX_OVERLAP_CHARS);
+        const start = this.pending.trimStart();
+        return this.pending.length < MAX_OVERLAP_CHARS &&
+            (tail.includes(start) || normalizeLines(tail).includes(normalizeLines(start)));
+    }
+
+    private release(): string {
+        this.released = true;
+        return continuationSuffix(this.content, this.pending);
+    }
+}
+
+function normalizeLines(text: string): string {
+    return text.split('\n').map(line => line.trim()).join('\n');
+}
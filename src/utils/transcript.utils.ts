@@ -0,0 +1,375 @@
+import {
+    GapDetectionOptions,
+    SynthesizedSpan,
+    Transcript,
+    TranscriptFileFormat,
+    TranscriptGap,
+    TranscriptInput,
+    TranscriptSegment,
+    TranscriptTextOptions
+} from '../types/transcript.types';
+import { SDKError, ValidationError } from './error.utils';
+import { stripCodeFences } from './text.utils';
+
+// A marker word, optionally followed by a timestamp or a duration such as `[inaudible 00:12:03]` or `(silence 5s)`
+const GAP_MARKER = /[[(](?:inaudible|unintelligible|indistinct|crosstalk|silence|no audio|audio (?:cut|drop(?:out)?|gap)|gap|\.\.\.|…)(?:[ \t]+\d[\d:.]*[ \t]*s?)?[\])]/gi;
+const CUT_OFF = /(?<=\w)[ \t]*(?:--+|—|–|\.\.\.|…)(?=[ \t]*(?:\n|$))/g;
+const LINE_TIMESTAMP = /^[ \t]*\[?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:[.,]\d+)?\]?/;
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+// Zoom prefixes cue text with "Name: "; names are short and contain no sentence punctuation
+const SPEAKER_PREFIX = /^([\p{L}][\p{L}\p{M}0-9 .'’-]{0,40}?):\s+(?=\S)/u;
+
+interface WhisperSegment {
+    start: number;
+    end?: unknown;
+    text: string;
+    speaker?: unknown;
+}
+
+interface WhisperOutput {
+    segments?: unknown;
+    text?: unknown;
+    language?: unknown;
+    duration?: unknown;
+}
+
+/**
+ * Parses SubRip (.srt) captions.
+ */
+export function parseSRT(content: string): Transcript {
+    const segments: TranscriptSegment[] = [];
+
+    for (const block of splitBlocks(content)) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+        if (timingIndex === -1) {
+            continue;
+        }
+
+        const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+        const text = stripCueMarkup(lines.slice(timingIndex + 1).join(' '));
+        if (text) {
+            segments.push({ start: parseCueTimestamp(start), end: parseCueTimestamp(end), text });
+        }
+    }
+
+    return withDuration(segments);
+}
+
+/**
+ * Parses WebVTT captions, reading speakers from `<v Name>` voice tags (Teams and most
+ * lecture-capture systems) or from a `Name:` prefix on the cue text (Zoom).
+ */
+export function parseVTT(content: string): Transcript {
+    const [header, ...blocks] = splitBlocks(content.replace(/^\uFEFF/, ''));
+    if (!header?.startsWith('WEBVTT')) {
+        throw new ValidationError('WebVTT captions must start with "WEBVTT"');
+    }
+
+    const segments: TranscriptSegment[] = [];
+    let lastLine: string | undefined;
+    for (const block of blocks) {
+        if (/^(NOTE|STYLE|REGION)\b/.test(block)) {
+            continue;
+        }
+
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+        if (timingIndex === -1) {
+            continue;
+        }
+
+        const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+        const payload = lines.slice(timingIndex + 1).join(' ');
+        const voice = payload.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/)?.[1].trim();
+
+        // Rolling captions (such as YouTube's automatic ones) repeat the previous cue's last line
+        const cueLines = lines.slice(timingIndex + 1).map(stripCueMarkup).filter(Boolean);
+        while (cueLines.length > 0 && cueLines[0] === lastLine) {
+            cueLines.shift();
+        }
+        if (cueLines.length === 0) {
+            continue;
+        }
+        lastLine = cueLines[cueLines.length - 1];
+
+        let text = cueLines.join(' ');
+        let speaker = voice;
+        const prefix = voice ? undefined : text.match(SPEAKER_PREFIX);
+        if (prefix) {
+            speaker = prefix[1].trim();
+            text = text.slice(prefix[0].length);
+        }
+
+        if (text) {
+            segments.push({
+                start: parseCueTimestamp(start),
+                end: parseCueTimestamp(end),
+                ...(speaker ? { speaker } : {}),
+                text
+            });
+        }
+    }
+
+    return withDuration(segments);
+}
+
+/**
+ * Parses the JSON written by Whisper and the `verbose_json` transcription endpoint. A bare
+ * array of segments is accepted as well.
+ */
+export function parseWhisperJSON(content: string | object): Transcript {
+    let data: unknown;
+    try {
+        data = typeof content === 'string' ? JSON.parse(content) : content;
+    } catch {
+        throw new ValidationError('Whisper transcript is not valid JSON');
+    }
+
+    const output: WhisperOutput = isRecord(data) && !Array.isArray(data) ? data : {};
+    const language = typeof output.language === 'string' && output.language ? { language: output.language } : {};
+    const duration = typeof output.duration === 'number' ? output.duration : undefined;
+
+    const rawSegments = Array.isArray(data) ? data : output.segments;
+    if (!Array.isArray(rawSegments)) {
+        if (typeof output.text === 'string' && output.text.trim()) {
+            return {
+                segments: [{ start: 0, end: duration ?? 0, text: output.text.trim() }],
+                ...language,
+                ...(duration !== undefined ? { durationSeconds: duration } : {})
+            };
+        }
+        throw new ValidationError('Whisper transcript has no segments');
+    }
+
+    const segments = rawSegments
+        .filter(isWhisperSegment)
+        .map(segment => ({
+            start: segment.start,
+            end: typeof segment.end === 'number' ? segment.end : segment.start,
+            ...(segment.speaker ? { speaker: String(segment.speaker) } : {}),
+            text: segment.text.trim()
+        }))
+        .filter(segment => segment.text.length > 0);
+
+    return {
+        ...withDuration(segments),
+        ...language,
+        ...(duration !== undefined ? { durationSeconds: duration } : {})
+    };
+}
+
+/**
+ * Parses a caption or transcript file, detecting the format from the content when it is
+ * not given.
+ */
+export function parseTranscript(content: string, format?: TranscriptFileFormat): Transcript {
+    const detected = format ?? detectTranscriptFormat(content);
+    switch (detected) {
+        case 'srt':
+            return parseSRT(content);
+        case 'vtt':
+            return parseVTT(content);
+        case 'whisper-json':
+            return parseWhisperJSON(content);
+        default:
+            throw new ValidationError(`Unsupported transcript format: ${detected}`);
+    }
+}
+
+export function detectTranscriptFormat(content: string): TranscriptFileFormat {
+    const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+    if (trimmed.startsWith('WEBVTT')) {
+        return 'vtt';
+    }
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        return 'whisper-json';
+    }
+    if (/-->/.test(trimmed)) {
+        return 'srt';
+    }
+    throw new ValidationError('Could not detect the transcript format; expected SRT, WebVTT or Whisper JSON');
+}
+
+/**
+ * Renders a transcript as text for the prompts, one segment per line with its start time
+ * and speaker. Consecutive segments from the same speaker are kept on separate lines so
+ * the timing stays visible.
+ */
+export function transcriptToText(transcript: TranscriptInput, options: TranscriptTextOptions = {}): string {
+    if (typeof transcript === 'string') {
+        return transcript;
+    }
+
+    const timestamps = options.timestamps ?? true;
+    const speakers = options.speakers ?? true;
+
+    return transcript.segments
+        .map(segment => [
+            timestamps ? `[${formatTimestamp(segment.start)}]` : '',
+            speakers && segment.speaker ? `${segment.speaker}:` : '',
+            segment.text
+        ].filter(Boolean).join(' '))
+        .join('\n');
+}
+
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(Math.floor(seconds), 0);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+/**
+ * Finds the places where a transcript lost audio: explicit markers such as `[inaudible]`,
+ * jumps between line timestamps longer than the silence threshold, and sentences that
+ * break off with a dash or ellipsis at the end of a line. Gaps are returned in order.
+ */
+export function detectTranscriptGaps(transcript: string, options: GapDetectionOptions = {}): TranscriptGap[] {
+    const threshold = options.silenceThresholdSeconds ?? 30;
+    const gaps: TranscriptGap[] = [];
+
+    for (const match of transcript.matchAll(GAP_MARKER)) {
+        gaps.push({ kind: 'marker', start: match.index!, end: match.index! + match[0].length, text: match[0] });
+    }
+
+    for (const match of transcript.matchAll(CUT_OFF)) {
+        const start = match.index!;
+        if (!gaps.some(gap => start < gap.end && start + match[0].length > gap.start)) {
+            gaps.push({ kind: 'cut', start, end: start + match[0].length, text: match[0] });
+        }
+    }
+
+    let offset = 0;
+    let previous: number | undefined;
+    for (const line of transcript.split('\n')) {
+        const timestamp = line.match(LINE_TIMESTAMP);
+        if (timestamp) {
+            const seconds = parseTimestamp(timestamp[1]);
+            if (previous !== undefined && seconds - previous > threshold) {
+                gaps.push({ kind: 'silence', start: offset, end: offset, text: '', durationSeconds: seconds - previous });
+            }
+            previous = seconds;
+        }
+        offset += line.length + 1;
+    }
+
+    return gaps.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces each gap with a placeholder such as `[[GAP 1]]` so a model can refer to it.
+ */
+export function markTranscriptGaps(transcript: string, gaps: TranscriptGap[]): string {
+    let marked = '';
+    let cursor = 0;
+    gaps.forEach((gap, i) => {
+        marked += transcript.slice(cursor, gap.start) + gapPlaceholder(gap, i);
+        cursor = gap.end;
+    });
+    return marked + transcript.slice(cursor);
+}
+
+/**
+ * Inserts the text filling each gap (keyed by gap index) into the transcript and returns the
+ * positions of the inserted spans in the result. Gaps without a fill keep their original text.
+ */
+export function applyGapFills(
+    transcript: string,
+    gaps: TranscriptGap[],
+    fills: Array<string | undefined>
+): { transcript: string; synthesized: SynthesizedSpan[] } {
+    const synthesized: SynthesizedSpan[] = [];
+    let repaired = '';
+    let cursor = 0;
+
+    gaps.forEach((gap, i) => {
+        repaired += transcript.slice(cursor, gap.start);
+        cursor = gap.end;
+
+        const fill = fills[i]?.trim();
+        if (!fill) {
+            repaired += gap.text;
+            return;
+        }
+
+        if (gap.kind !== 'silence' && /\w$/.test(repaired) && /^\w/.test(fill)) {
+            repaired += ' ';
+        }
+        synthesized.push({ gap, start: repaired.length, end: repaired.length + fill.length, text: fill, synthesized: true });
+        repaired += gap.kind === 'silence' ? `${fill}\n` : fill;
+    });
+
+    return { transcript: repaired + transcript.slice(cursor), synthesized };
+}
+
+/**
+ * Parses the model's `{"1": "...", "2": "..."}` answer into fills ordered by gap index.
+ */
+export function parseGapFills(content: string, gapCount: number): Array<string | undefined> {
+    const json = stripCodeFences(content).match(/\{[\s\S]*\}/)?.[0];
+    let parsed: unknown;
+    try {
+        parsed = json ? JSON.parse(json) : undefined;
+    } catch {
+        parsed = undefined;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new SDKError('Gap fill response is not a JSON object');
+    }
+
+    const fills = parsed as Record<string, unknown>;
+    return Array.from({ length: gapCount }, (_, i) => {
+        const fill = fills[String(i + 1)];
+        return typeof fill === 'string' ? fill : undefined;
+    });
+}
+
+function gapPlaceholder(gap: TranscriptGap, index: number): string {
+    const label = `[[GAP ${index + 1}]]`;
+    // Silences sit at the start of a line, cut-offs follow the broken sentence
+    return gap.kind === 'silence' ? `${label}\n` : gap.kind === 'cut' ? ` ${label}` : label;
+}
+
+function parseTimestamp(value: string): number {
+    return value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function splitBlocks(content: string): string[] {
+    return content
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/)
+        .map(block => block.trim())
+        .filter(Boolean);
+}
+
+function stripCueMarkup(text: string): string {
+    return text
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function parseCueTimestamp(value: string): number {
+    const [clock, fraction = '0'] = value.split(/[.,]/);
+    return parseTimestamp(clock) + Number(`0.${fraction}`);
+}
+
+function withDuration(segments: TranscriptSegment[]): Transcript {
+    if (segments.length === 0) {
+        throw new ValidationError('Transcript has no segments');
+    }
+    return { segments, durationSeconds: Math.max(...segments.map(segment => segment.end)) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isWhisperSegment(value: unknown): value is WhisperSegment {
+    return isRecord(value) && typeof value.text === 'string' && typeof value.start === 'number';
+}
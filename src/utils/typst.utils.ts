@@ -0,0 +1,32 @@
+import { TypstDiagnostic } from '../types/typst.types';
+
+// Diagnostics in the short format, e.g. "main.typ:12:5: error: unknown variable: grad"
+const SHORT_DIAGNOSTIC = /^(?:(.+?):(\d+):(\d+): )?(error|warning): (.*)$/;
+
+/**
+ * Reads the errors and warnings out of what `typst compile --diagnostic-format short` printed.
+ * Messages in `mainFile` are reported without a `file`. The "help" lines that trace an error
+ * through function calls are skipped.
+ */
+export function parseTypstDiagnostics(output: string, mainFile: string = 'main.typ'): { errors: TypstDiagnostic[]; warnings: TypstDiagnostic[] } {
+    const errors: TypstDiagnostic[] = [];
+    const warnings: TypstDiagnostic[] = [];
+
+    for (const line of output.split(/\r?\n/)) {
+        const match = line.trim().match(SHORT_DIAGNOSTIC);
+        if (!match) {
+            continue;
+        }
+
+        const [, file, lineNumber, column, severity, message] = match;
+        const inMain = file !== undefined && file.replace(/^\.?\//, '') === mainFile;
+        const diagnostic: TypstDiagnostic = {
+            message: message.trim(),
+            ...(file !== undefined ? { line: Number(lineNumber), column: Number(column) } : {}),
+            ...(file !== undefined && !inMain ? { file } : {})
+        };
+        (severity === 'error' ? errors : warnings).push(diagnostic);
+    }
+
+    return { errors, warnings };
+}
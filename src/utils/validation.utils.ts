@@ -1,5 +1,6 @@
 import { ValidationError } from './error.utils';
-import { LectureFormat, ServiceConfig } from '../types/lecture.types';
+import { ImageSource, LectureFormat, ServiceConfig } from '../types/lecture.types';
+import { ChatMessage } from '../types/chat.types';
 
 export function validateConfig(config: string | ServiceConfig): void {
     if (typeof config === 'string') {
@@ -24,11 +25,25 @@ export function validateConfig(config: string | ServiceConfig): void {
     if (config.maxAttempts !== undefined && config.maxAttempts < 1) {
         throw new ValidationError('maxAttempts must be greater than 0');
     }
+
+    if (config.contextWindow !== undefined && config.contextWindow < 1) {
+        throw new ValidationError('contextWindow must be greater than 0');
+    }
 }
 
 export function validateFormat(format?: LectureFormat): void {
-    if (format && !['latex', 'markdown'].includes(format)) {
-        throw new ValidationError('format must be either "latex" or "markdown"');
+    if (format && !['latex', 'markdown', 'html', 'typst', 'ipynb'].includes(format)) {
+        throw new ValidationError('format must be "latex", "markdown", "html", "typst" or "ipynb"');
+    }
+}
+
+export function validateStreamFormat(format?: LectureFormat): void {
+    validateFormat(format);
+    if (format === 'html') {
+        throw new ValidationError('The html format cannot be streamed; stream markdown and render it with renderHTML');
+    }
+    if (format === 'ipynb') {
+        throw new ValidationError('The ipynb format cannot be streamed; stream markdown and convert it with renderNotebook');
     }
 }
 
@@ -57,6 +72,15 @@ export function validateSection(section: string, transcript: string): void {
     }
 }
 
+export function validateChatMessages(messages: ChatMessage[]): void {
+    if (!messages || messages.length === 0) {
+        throw new ValidationError('messages are required');
+    }
+    if (messages[messages.length - 1].role !== 'user') {
+        throw new ValidationError('the last message must be a user message');
+    }
+}
+
 export function validateContent(content: string): void {
     if (!content || content.trim().length === 0) {
         throw new ValidationError('content is required');
@@ -72,6 +96,12 @@ export function validateAudioPath(audioPath: string): void {
     }
 }
 
+export function validateLanguage(language?: string): void {
+    if (language !== undefined && !/^[a-z]{2}$/.test(language)) {
+        throw new ValidationError('language must be an ISO-639-1 code such as "en"');
+    }
+}
+
 export function validateAudioTranscript(transcript: string): void {
     validateContent(transcript);
 }
@@ -80,6 +110,24 @@ export function validatePDFContent(content: string): void {
     validateContent(content);
 }
 
+export function validatePDFPath(pdfPath: string): void {
+    if (!pdfPath || pdfPath.trim().length === 0) {
+        throw new ValidationError('pdfPath is required');
+    }
+    if (!pdfPath.match(/\.pdf$/i)) {
+        throw new ValidationError('pdfPath must be a PDF file');
+    }
+}
+
+export function validateImages(images: ImageSource[]): void {
+    if (!Array.isArray(images) || images.length === 0) {
+        throw new ValidationError('At least one image is required');
+    }
+    if (images.some(image => typeof image === 'string' ? image.trim().length === 0 : image.length === 0)) {
+        throw new ValidationError('Images cannot be empty');
+    }
+}
+
 export function validateYouTubeURL(url: string): void {
     if (!url || url.trim().length === 0) {
         throw new ValidationError('YouTube URL is required');
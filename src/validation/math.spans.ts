@@ -0,0 +1,92 @@
+export const MATH_CLOSERS: Record<string, string> = {
+    '$': '$',
+    '$$': '$$',
+    '\\[': '\\]',
+    '\\(': '\\)'
+};
+
+export interface MathScan {
+    /** Closed math spans, including their delimiters */
+    spans: Array<{ delimiter: string; start: number; end: number }>;
+    unclosed: Array<{ delimiter: string; index: number }>;
+}
+
+/**
+ * Finds the math spans delimited by $, $$, \[ \] and \( \) in Markdown whose code has been masked.
+ * A $ opens inline math only when followed by a non-space and closes it only when preceded by
+ * one, as in pandoc; escaped dollars are text.
+ */
+export function scanMath(source: string): MathScan {
+    const spans: MathScan['spans'] = [];
+    let open: { delimiter: string; index: number } | null = null;
+
+    const close = (end: number) => {
+        spans.push({ delimiter: open!.delimiter, start: open!.index, end });
+        open = null;
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        const next = source[i + 1];
+
+        if (char === '\\') {
+            if (!open && (next === '[' || next === '(')) {
+                open = { delimiter: char + next, index: i };
+            } else if (open && MATH_CLOSERS[open.delimiter] === char + next) {
+                close(i + 2);
+            }
+            i++;
+            continue;
+        }
+
+        if (char === '$') {
+            if (next === '$' && (!open || open.delimiter === '$$')) {
+                if (open) {
+                    close(i + 2);
+                } else {
+                    open = { delimiter: '$$', index: i };
+                }
+                i++;
+            } else if (!open && next && !/\s/.test(next)) {
+                open = { delimiter: '$', index: i };
+            } else if (open?.delimiter === '$' && !/\s/.test(source[i - 1]) && !/\d/.test(next ?? '')) {
+                close(i + 1);
+            }
+            continue;
+        }
+
+        // Inline math cannot span paragraphs, so an open $ there was a literal dollar sign
+        if (open?.delimiter === '$' && char === '\n' && /^\n[ \t]*\n/.test(source.slice(i))) {
+            open = null;
+        }
+    }
+
+    const unclosed: MathScan['unclosed'] = [];
+    const last = open as { delimiter: string; index: number } | null;
+    // A lone $ before a number is most likely a price rather than unfinished math
+    if (last && !(last.delimiter === '$' && /\d/.test(source[last.index + 1]))) {
+        unclosed.push(last);
+    }
+    return { spans, unclosed };
+}
+
+export function maskMath(content: string): string {
+    let masked = content;
+    for (const { start, end } of scanMath(maskCode(content)).spans) {
+        masked = masked.slice(0, start) + blank(masked.slice(start, end)) + masked.slice(end);
+    }
+    return masked;
+}
+
+/**
+ * Blanks out fenced and inline code while keeping offsets and line breaks.
+ */
+export function maskCode(content: string): string {
+    return content
+        .replace(/^[ \t]*```[\s\S]*?(^[ \t]*```|$(?![\s\S]))/gm, blank)
+        .replace(/`[^`\n]*`/g, blank);
+}
+
+export function blank(text: string): string {
+    return text.replace(/[^\n]/g, ' ');
+}
@@ -0,0 +1,246 @@
+import katex from 'katex';
+import {
+    MathIssue,
+    MathRepair,
+    MathRepairResult,
+    MathSpan,
+    MathValidationOptions,
+    MathValidationResult
+} from '../types/validation.types';
+import { SDKError } from '../utils/error.utils';
+import { maskCode, MATH_CLOSERS, scanMath } from './math.spans';
+
+const DISPLAY_DELIMITERS = ['$$', '\\['];
+
+// Commands KaTeX does not know, with the closest one it does
+const COMMAND_REPLACEMENTS: Record<string, string> = {
+    '\\mbox': '\\text',
+    '\\textsc': '\\text',
+    '\\mathbbm': '\\mathbb'
+};
+
+/**
+ * Finds every inline and display math span in a Markdown document, skipping code.
+ */
+export function extractMathSpans(markdown: string): MathSpan[] {
+    return scanMath(maskCode(markdown)).spans.map(({ delimiter, start, end }) => ({
+        tex: markdown.slice(start + delimiter.length, end - MATH_CLOSERS[delimiter].length),
+        delimiter,
+        displayMode: DISPLAY_DELIMITERS.includes(delimiter),
+        start,
+        end,
+        line: markdown.slice(0, start).split('\n').length
+    }));
+}
+
+/**
+ * Escapes text for an HTML field, keeping line breaks and moving its math to the `\(...\)` and
+ * `\[...\]` delimiters that MathJax renders, as Anki and Moodle expect.
+ */
+export function toMathJaxHTML(text: string): string {
+    let html = '';
+    let cursor = 0;
+    for (const span of extractMathSpans(text)) {
+        html += escapeHTML(text.slice(cursor, span.start));
+        html += span.displayMode ? `\\[${escapeHTML(span.tex)}\\]` : `\\(${escapeHTML(span.tex)}\\)`;
+        cursor = span.end;
+    }
+    html += escapeHTML(text.slice(cursor));
+    return html.replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Parses every math span of a Markdown document with KaTeX and reports the ones that fail.
+ */
+export function validateMath(markdown: string, options: MathValidationOptions = {}): MathValidationResult {
+    const spans = extractMathSpans(markdown);
+    const issues = spans.flatMap(span => {
+        const issue = checkSpan(span, options);
+        return issue ? [issue] : [];
+    });
+    return { valid: issues.length === 0, spans, issues };
+}
+
+/**
+ * Repairs math spans that fail to render where a rule can tell how: unbalanced braces,
+ * \left without \right, unclosed environments, labels, commands KaTeX lacks and display-only
+ * environments in inline math. A repair is kept only when KaTeX accepts the result.
+ */
+export function fixMath(markdown: string, options: MathValidationOptions = {}): MathRepairResult {
+    const { issues } = validateMath(markdown, options);
+    const repairs: MathRepair[] = [];
+    const remaining: MathIssue[] = [];
+    const replacements: Array<{ span: MathSpan; replacement: string }> = [];
+
+    for (const issue of issues) {
+        const fixed = mechanicalFix(issue);
+        if (fixed && !checkSpan(fixed, options)) {
+            const replacement = formatSpan(fixed);
+            replacements.push({ span: issue.span, replacement });
+            repairs.push({ line: issue.span.line, original: spanSource(markdown, issue.span), repaired: replacement, method: 'mechanical' });
+        } else {
+            remaining.push(issue);
+        }
+    }
+
+    return finish(markdown, replacements, repairs, remaining, options);
+}
+
+/**
+ * Reads a model's corrections of `issues` from a reply in the `[[MATH n]]` format that
+ * formatMathRepairPrompt asks for.
+ */
+export function parseMathRepairs(content: string, count: number): Array<string | undefined> {
+    const parts = content.split(/^\s*\[\[MATH (\d+)\]\]\s*$/m);
+    if (parts.length < 3) {
+        throw new SDKError('Math repair response does not contain any [[MATH n]] markers');
+    }
+
+    const repairs: Array<string | undefined> = Array.from({ length: count }, () => undefined);
+    for (let i = 1; i < parts.length; i += 2) {
+        const index = Number(parts[i]) - 1;
+        const tex = parts[i + 1].trim().replace(/^\$\$([\s\S]*)\$\$$/, '$1').trim();
+        if (index >= 0 && index < count && tex) {
+            repairs[index] = tex;
+        }
+    }
+    return repairs;
+}
+
+/**
+ * Puts the corrections a model gave for `issues` into the document, keeping only those KaTeX
+ * accepts. Issues without an accepted correction are returned as remaining.
+ */
+export function applyMathRepairs(
+    markdown: string,
+    issues: MathIssue[],
+    corrections: Array<string | undefined>,
+    options: MathValidationOptions = {}
+): MathRepairResult {
+    const repairs: MathRepair[] = [];
+    const remaining: MathIssue[] = [];
+    const replacements: Array<{ span: MathSpan; replacement: string }> = [];
+
+    issues.forEach((issue, i) => {
+        const tex = corrections[i];
+        const fixed = tex ? { ...issue.span, tex } : undefined;
+        if (fixed && !checkSpan(fixed, options)) {
+            const replacement = formatSpan(fixed);
+            replacements.push({ span: issue.span, replacement });
+            repairs.push({ line: issue.span.line, original: spanSource(markdown, issue.span), repaired: replacement, method: 'model' });
+        } else {
+            remaining.push(issue);
+        }
+    });
+
+    return finish(markdown, replacements, repairs, remaining, options);
+}
+
+function checkSpan(span: MathSpan, options: MathValidationOptions): MathIssue | undefined {
+    try {
+        katex.renderToString(span.tex, {
+            displayMode: span.displayMode,
+            throwOnError: true,
+            strict: 'ignore',
+            // Copied because KaTeX adds global definitions such as \gdef to the object it is given
+            macros: { ...options.macros }
+        });
+        return undefined;
+    } catch (error) {
+        if (!(error instanceof katex.ParseError)) {
+            throw error;
+        }
+        return {
+            span,
+            message: error.rawMessage,
+            ...(Number.isFinite(error.position) ? { position: error.position } : {})
+        };
+    }
+}
+
+function mechanicalFix(issue: MathIssue): MathSpan | undefined {
+    let { tex, delimiter } = issue.span;
+
+    tex = tex.replace(/\\label\{[^{}]*\}/g, '');
+    for (const [command, replacement] of Object.entries(COMMAND_REPLACEMENTS)) {
+        tex = tex.replace(new RegExp(`${command.replace('\\', '\\\\')}(?![a-zA-Z])`, 'g'), replacement);
+    }
+
+    // Environments opened and never closed, innermost first
+    const open: string[] = [];
+    for (const [, kind, name] of tex.matchAll(/\\(begin|end)\{([^}]*)\}/g)) {
+        if (kind === 'begin') {
+            open.push(name);
+        } else if (open[open.length - 1] === name) {
+            open.pop();
+        }
+    }
+
+    const braces = countUnmatchedBraces(tex);
+    tex = '{'.repeat(braces.closing) + tex + '}'.repeat(braces.opening);
+
+    const lefts = (tex.match(/\\left(?![a-zA-Z])/g) ?? []).length;
+    const rights = (tex.match(/\\right(?![a-zA-Z])/g) ?? []).length;
+    tex = '\\left.'.repeat(Math.max(rights - lefts, 0)) + tex + '\\right.'.repeat(Math.max(lefts - rights, 0));
+    tex += open.reverse().map(name => `\\end{${name}}`).join('');
+
+    if (/can be used only in display mode/.test(issue.message)) {
+        delimiter = '$$';
+    }
+
+    return tex === issue.span.tex && delimiter === issue.span.delimiter
+        ? undefined
+        : { ...issue.span, tex, delimiter, displayMode: DISPLAY_DELIMITERS.includes(delimiter) };
+}
+
+function countUnmatchedBraces(tex: string): { opening: number; closing: number } {
+    let opening = 0;
+    let closing = 0;
+    for (let i = 0; i < tex.length; i++) {
+        if (tex[i] === '\\') {
+            i++;
+        } else if (tex[i] === '{') {
+            opening++;
+        } else if (tex[i] === '}') {
+            if (opening > 0) {
+                opening--;
+            } else {
+                closing++;
+            }
+        }
+    }
+    return { opening, closing };
+}
+
+function formatSpan(span: MathSpan): string {
+    return `${span.delimiter}${span.tex}${MATH_CLOSERS[span.delimiter]}`;
+}
+
+function spanSource(markdown: string, span: MathSpan): string {
+    return markdown.slice(span.start, span.end);
+}
+
+/**
+ * Applies the replacements. The remaining issues are found again in the result, since the
+ * offsets of later spans shift when earlier ones are replaced.
+ */
+function finish(
+    markdown: string,
+    replacements: Array<{ span: MathSpan; replacement: string }>,
+    repairs: MathRepair[],
+    remaining: MathIssue[],
+    options: MathValidationOptions
+): MathRepairResult {
+    if (replacements.length === 0) {
+        return { content: markdown, repairs, issues: remaining };
+    }
+
+    const content = replacements
+        .sort((a, b) => b.span.start - a.span.start)
+        .reduce((result, { span, replacement }) => result.slice(0, span.start) + replacement + result.slice(span.end), markdown);
+    return { content, repairs, issues: validateMath(content, options).issues };
+}
+
+function escapeHTML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,222 @@
+import {
+    CompletenessCheck,
+    CompletenessIssue,
+    ResponseDiagnostics,
+    ResponseValidationConfig
+} from '../types/validation.types';
+import { blank, maskCode, maskMath, MATH_CLOSERS, scanMath } from './math.spans';
+
+// Environments whose bodies are not LaTeX, so \begin and \end inside them are not counted
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'verbatim*', 'lstlisting', 'minted', 'comment'];
+
+/**
+ * Runs a list of completeness checks over a model response and collects what they report.
+ * A response is complete when no check reports an issue.
+ */
+export class ResponseValidator {
+    constructor(private readonly checks: CompletenessCheck[]) {}
+
+    /**
+     * Builds the validator for a `responseValidation` config: the enabled built-in checks
+     * followed by any custom ones.
+     */
+    static fromConfig(config: ResponseValidationConfig = {}): ResponseValidator {
+        const checks: CompletenessCheck[] = [];
+        if (config.customIndicators?.length) {
+            checks.push(truncationIndicatorCheck(config.customIndicators));
+        }
+        if (config.checkLaTeXBalance) {
+            checks.push(latexEnvironmentCheck());
+        }
+        if (config.checkMathDelimiters) {
+            checks.push(mathDelimiterCheck());
+        }
+        if (config.checkCodeBlocks) {
+            checks.push(codeBlockCheck());
+        }
+        if (config.checkJsonBalance) {
+            checks.push(bracketBalanceCheck());
+        }
+        return new ResponseValidator([...checks, ...(config.checks ?? [])]);
+    }
+
+    validate(content: string): ResponseDiagnostics {
+        const issues = this.checks.flatMap(check => check.check(content));
+        return { complete: issues.length === 0, issues };
+    }
+}
+
+export function truncationIndicatorCheck(indicators: string[]): CompletenessCheck {
+    return {
+        name: 'truncation-indicator',
+        check(content) {
+            const trimmed = content.trimEnd();
+            const indicator = indicators.find(indicator => trimmed.endsWith(indicator));
+            return indicator
+                ? [issueAt(content, this.name, trimmed.length - indicator.length, `Response ends with truncation indicator "${indicator}"`)]
+                : [];
+        }
+    };
+}
+
+/**
+ * Matches \begin and \end pairwise by environment name, ignoring comments, code and the
+ * bodies of verbatim environments.
+ */
+export function latexEnvironmentCheck(): CompletenessCheck {
+    return {
+        name: 'latex-environments',
+        check(content) {
+            const source = maskLatexComments(maskCode(content));
+            const pattern = /\\(begin|end)\{([^}]*)\}/g;
+            const open: Array<{ name: string; index: number }> = [];
+            const issues: CompletenessIssue[] = [];
+
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(source)) !== null) {
+                const [, kind, name] = match;
+
+                if (kind === 'begin') {
+                    if (VERBATIM_ENVIRONMENTS.includes(name)) {
+                        const end = source.indexOf(`\\end{${name}}`, pattern.lastIndex);
+                        if (end === -1) {
+                            open.push({ name, index: match.index });
+                            break;
+                        }
+                        pattern.lastIndex = end + `\\end{${name}}`.length;
+                        continue;
+                    }
+                    open.push({ name, index: match.index });
+                    continue;
+                }
+
+                const position = open.map(environment => environment.name).lastIndexOf(name);
+                if (position === -1) {
+                    issues.push(issueAt(content, this.name, match.index, `\\end{${name}} has no matching \\begin{${name}}`));
+                    continue;
+                }
+
+                // Environments opened after the one being closed were never closed themselves
+                for (const environment of open.splice(position).slice(1)) {
+                    issues.push(issueAt(
+                        content,
+                        this.name,
+                        environment.index,
+                        `\\begin{${environment.name}} is closed by \\end{${name}} on line ${lineOf(content, match.index)} before its own \\end`
+                    ));
+                }
+            }
+
+            // Innermost first, the order in which they have to be closed
+            for (const environment of open.reverse()) {
+                issues.push(issueAt(
+                    content,
+                    this.name,
+                    environment.index,
+                    `\\begin{${environment.name}} on line ${lineOf(content, environment.index)} is not closed`,
+                    `\\end{${environment.name}}`
+                ));
+            }
+            return issues;
+        }
+    };
+}
+
+/**
+ * Checks that display math ($$, \[ and \() is closed, and that inline $ math in the last
+ * paragraph is closed. A single $ that is still open at a paragraph break is treated as a
+ * literal dollar sign, as it would be when rendered.
+ */
+export function mathDelimiterCheck(): CompletenessCheck {
+    return {
+        name: 'math-delimiters',
+        check(content) {
+            const { unclosed } = scanMath(maskCode(content));
+            return unclosed.map(({ delimiter, index }) => issueAt(
+                content,
+                this.name,
+                index,
+                `Math opened with ${delimiter} on line ${lineOf(content, index)} is not closed`,
+                MATH_CLOSERS[delimiter]
+            ));
+        }
+    };
+}
+
+/**
+ * Checks that every ``` fence that opens a code block is followed by one that closes it.
+ */
+export function codeBlockCheck(): CompletenessCheck {
+    return {
+        name: 'code-blocks',
+        check(content) {
+            const fences = [...content.matchAll(/^[ \t]*```/gm)];
+            if (fences.length % 2 === 0) {
+                return [];
+            }
+
+            const index = fences[fences.length - 1].index!;
+            return [issueAt(content, this.name, index, `Code block opened on line ${lineOf(content, index)} is not closed`, '```')];
+        }
+    };
+}
+
+/**
+ * Matches [ ] and { } pairwise, as in JSON output. Escaped LaTeX braces and brackets inside
+ * math, such as the interval [0, 1), are ignored.
+ */
+export function bracketBalanceCheck(): CompletenessCheck {
+    return {
+        name: 'brackets',
+        check(content) {
+            const source = maskMath(content).replace(/\\[{}[\]]/g, '  ');
+            const pairs: Record<string, string> = { '[': ']', '{': '}' };
+            const open: Array<{ bracket: string; index: number }> = [];
+            const issues: CompletenessIssue[] = [];
+
+            for (let i = 0; i < source.length; i++) {
+                const char = source[i];
+                if (char === '[' || char === '{') {
+                    open.push({ bracket: char, index: i });
+                } else if (char === ']' || char === '}') {
+                    const last = open.pop();
+                    if (!last || pairs[last.bracket] !== char) {
+                        issues.push(issueAt(content, this.name, i, `Unmatched "${char}" on line ${lineOf(content, i)}`));
+                        if (last) {
+                            open.push(last);
+                        }
+                    }
+                }
+            }
+
+            for (const { bracket, index } of open.reverse()) {
+                issues.push(issueAt(
+                    content,
+                    this.name,
+                    index,
+                    `"${bracket}" on line ${lineOf(content, index)} is not closed`,
+                    pairs[bracket]
+                ));
+            }
+            return issues;
+        }
+    };
+}
+
+function maskLatexComments(content: string): string {
+    return content.replace(/(?<!\\)%.*$/gm, blank);
+}
+
+function lineOf(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+}
+
+function issueAt(content: string, check: string, index: number, message: string, expected?: string): CompletenessIssue {
+    return {
+        check,
+        message,
+        index,
+        line: lineOf(content, index),
+        ...(expected ? { expected } : {})
+    };
+}